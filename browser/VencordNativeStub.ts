@@ -119,6 +119,13 @@ window.VencordNative = {
         openFolder: async () => Promise.reject("settings:openFolder is not supported on web"),
     },
 
+    debug: {
+        saveModuleDump: async () => Promise.reject("debug:saveModuleDump is not supported on web"),
+        getModuleDumps: async () => [],
+        readModuleDump: async () => Promise.reject("debug:readModuleDump is not supported on web"),
+        openModuleDumpsFolder: async () => Promise.reject("debug:openModuleDumpsFolder is not supported on web"),
+    },
+
     pluginHelpers: {} as any,
     csp: {} as any,
 };
@@ -0,0 +1,21 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { randomBytes } from "crypto";
+
+import { createCloudServer } from "./server";
+
+const port = Number(process.env.PORT) || 8485;
+const dataDir = process.env.CLOUD_DATA_DIR || undefined;
+const adminToken = process.env.CLOUD_ADMIN_TOKEN || randomBytes(16).toString("hex");
+const allowRegistration = process.argv.includes("--allow-registration");
+
+createCloudServer({ dataDir, adminToken, allowRegistration }).then(server => server.listen(port, () => {
+    console.log(`Cloud server listening on http://localhost:${port}`);
+    console.log(dataDir ? `Storing data in ${dataDir}` : "Storing data in memory, set CLOUD_DATA_DIR to persist it");
+    console.log(process.env.CLOUD_ADMIN_TOKEN ? "Using the admin token from CLOUD_ADMIN_TOKEN" : `Admin token: ${adminToken} (set CLOUD_ADMIN_TOKEN to keep it across restarts)`);
+    if (allowRegistration) console.log("Registration is allowed, anyone who can reach the server can create secrets for new user ids");
+}));
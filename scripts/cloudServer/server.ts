@@ -0,0 +1,297 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { join } from "path";
+
+/**
+ * Minimal reference implementation of the settings sync part of the Vencord cloud API.
+ *
+ * There is no Discord OAuth. Clients instead request the secret of their user id, which needs the admin token of the server,
+ * so every device of a user gets the same one. If registration is allowed, clients without the admin token can create secrets
+ * for user ids which don't have one yet, but never get existing ones. The server can't check which user ids belong to whom,
+ * so don't allow registration on servers reachable by people you don't trust.
+ */
+
+/** Same limit as the official backend */
+const MAX_SETTINGS_SIZE = 32 * 1024 * 1024;
+
+export interface CloudServerOptions {
+    /** Directory to persist data in. Data is only kept in memory if omitted */
+    dataDir?: string;
+    /** Token which lets clients get the secret of any user id. Secrets can only be issued through registration if omitted */
+    adminToken?: string;
+    /** Whether clients without the admin token may create secrets for user ids which don't have one yet */
+    allowRegistration?: boolean;
+}
+
+interface StoredSettings {
+    written: number;
+    data: Buffer;
+}
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+class CloudStorage {
+    private secrets = new Map<string, string>();
+    private settings = new Map<string, StoredSettings>();
+
+    constructor(private dataDir?: string) { }
+
+    async load() {
+        if (!this.dataDir) return;
+
+        await mkdir(this.dataDir, { recursive: true });
+        try {
+            const secrets = JSON.parse(await readFile(join(this.dataDir, "secrets.json"), "utf-8"));
+            this.secrets = new Map(Object.entries(secrets));
+        } catch (e: any) {
+            if (e.code !== "ENOENT") throw e;
+        }
+
+        for (const userId of this.secrets.keys()) {
+            try {
+                const data = await readFile(join(this.dataDir, `${userId}.bin`));
+                const written = Number(await readFile(join(this.dataDir, `${userId}.written`), "utf-8"));
+                this.settings.set(userId, { data, written });
+            } catch (e: any) {
+                if (e.code !== "ENOENT") throw e;
+            }
+        }
+    }
+
+    private async saveSecrets() {
+        if (!this.dataDir) return;
+        await writeFile(join(this.dataDir, "secrets.json"), JSON.stringify(Object.fromEntries(this.secrets)));
+    }
+
+    /**
+     * Get the secret of a user, creating it if the user has none yet
+     */
+    async getOrCreateSecret(userId: string) {
+        return this.secrets.get(userId) ?? await this.createSecret(userId);
+    }
+
+    /**
+     * Create the secret of a user
+     * @returns The secret, or null if the user already has one
+     */
+    async createSecret(userId: string) {
+        if (this.secrets.has(userId)) return null;
+
+        const secret = randomBytes(32).toString("hex");
+        this.secrets.set(userId, secret);
+        await this.saveSecrets();
+
+        return secret;
+    }
+
+    /**
+     * @returns The user id the authorization belongs to
+     */
+    async authenticate(authorization: string | undefined) {
+        if (!authorization) throw new HttpError(401, "Missing authorization");
+
+        const decoded = Buffer.from(authorization, "base64").toString("utf-8");
+        const separator = decoded.lastIndexOf(":");
+        const secret = decoded.slice(0, separator);
+        const userId = decoded.slice(separator + 1);
+
+        if (separator === -1 || !secret || !/^\d+$/.test(userId)) throw new HttpError(401, "Malformed authorization");
+
+        if (this.secrets.get(userId) !== secret) throw new HttpError(401, "Invalid secret");
+
+        return userId;
+    }
+
+    getSettings(userId: string) {
+        return this.settings.get(userId);
+    }
+
+    async putSettings(userId: string, data: Buffer) {
+        const previous = this.settings.get(userId);
+        // Versions are timestamps, but have to change even if two writes happen in the same millisecond
+        const written = Math.max(Date.now(), (previous?.written ?? 0) + 1);
+
+        this.settings.set(userId, { data, written });
+        if (this.dataDir) {
+            await writeFile(join(this.dataDir, `${userId}.bin`), data);
+            await writeFile(join(this.dataDir, `${userId}.written`), String(written));
+        }
+
+        return written;
+    }
+
+    async deleteSettings(userId: string) {
+        this.settings.delete(userId);
+        if (this.dataDir) {
+            await rm(join(this.dataDir, `${userId}.bin`), { force: true });
+            await rm(join(this.dataDir, `${userId}.written`), { force: true });
+        }
+    }
+
+    async deleteUser(userId: string) {
+        await this.deleteSettings(userId);
+        this.secrets.delete(userId);
+        await this.saveSecrets();
+    }
+}
+
+async function readBody(req: IncomingMessage) {
+    const chunks = [] as Buffer[];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_SETTINGS_SIZE) throw new HttpError(413, "Settings too large");
+        chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+const sha256 = (data: string) => createHash("sha256").update(data).digest();
+
+function isAdmin(authorization: string | undefined, adminToken: string | undefined) {
+    if (!adminToken || !authorization?.startsWith("Bearer ")) return false;
+
+    // Hashed so both sides have the same length, which timingSafeEqual requires
+    return timingSafeEqual(sha256(authorization.slice("Bearer ".length)), sha256(adminToken));
+}
+
+async function handleRequest(storage: CloudStorage, options: CloudServerOptions, req: IncomingMessage, res: ServerResponse) {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (req.method === "OPTIONS") {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    if (pathname === "/v1/oauth/settings" && req.method === "GET") {
+        // Tells clients to request their secret instead of going through Discord OAuth
+        sendJson(res, 200, { secretAuth: true });
+        return;
+    }
+
+    if (pathname === "/v1/secret" && req.method === "POST") {
+        try {
+            var { userId } = JSON.parse((await readBody(req)).toString("utf-8"));
+        } catch {
+            throw new HttpError(400, "Malformed body");
+        }
+
+        if (typeof userId !== "string" || !/^\d+$/.test(userId)) throw new HttpError(400, "Invalid user id");
+
+        if (isAdmin(req.headers.authorization, options.adminToken)) {
+            sendJson(res, 200, { secret: await storage.getOrCreateSecret(userId) });
+            return;
+        }
+
+        if (!options.allowRegistration) throw new HttpError(401, "Issuing secrets requires the admin token");
+
+        const secret = await storage.createSecret(userId);
+        if (secret == null) throw new HttpError(409, "User already has a secret. Use the admin token to get it");
+
+        sendJson(res, 200, { secret });
+        return;
+    }
+
+    if (pathname === "/v1/settings") {
+        const userId = await storage.authenticate(req.headers.authorization);
+        const current = storage.getSettings(userId);
+
+        switch (req.method) {
+            case "GET":
+            case "HEAD": {
+                if (!current) throw new HttpError(404, "No settings");
+
+                const etag = String(current.written);
+                if (req.headers["if-none-match"] === etag) {
+                    res.writeHead(304, { ETag: etag });
+                    res.end();
+                    return;
+                }
+
+                res.writeHead(200, {
+                    "Content-Type": "application/octet-stream",
+                    ETag: etag
+                });
+                res.end(req.method === "HEAD" ? undefined : current.data);
+                return;
+            }
+            case "PUT": {
+                // Lets clients make sure they don't overwrite settings they haven't merged yet
+                const ifMatch = req.headers["if-match"];
+                if (ifMatch != null && ifMatch !== "*" && ifMatch !== String(current?.written)) {
+                    throw new HttpError(412, "Settings were changed since the given version");
+                }
+
+                const written = await storage.putSettings(userId, await readBody(req));
+                res.setHeader("ETag", String(written));
+                sendJson(res, 200, { written });
+                return;
+            }
+            case "DELETE":
+                await storage.deleteSettings(userId);
+                res.writeHead(204);
+                res.end();
+                return;
+        }
+
+        throw new HttpError(405, "Method not allowed");
+    }
+
+    if (pathname === "/v1/" && req.method === "DELETE") {
+        const userId = await storage.authenticate(req.headers.authorization);
+        await storage.deleteUser(userId);
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    throw new HttpError(404, "Not found");
+}
+
+export async function createCloudServer(options: CloudServerOptions = {}) {
+    const storage = new CloudStorage(options.dataDir);
+    await storage.load();
+
+    return createServer(async (req, res) => {
+        // The web versions of Vencord make requests from discord.com
+        res.setHeader("Access-Control-Allow-Origin", "*");
+        res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, POST, PUT, DELETE, OPTIONS");
+        res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, If-Match, If-None-Match");
+        res.setHeader("Access-Control-Expose-Headers", "ETag");
+
+        try {
+            await handleRequest(storage, options, req, res);
+        } catch (e) {
+            if (res.headersSent) {
+                res.destroy();
+                return;
+            }
+
+            if (e instanceof HttpError) {
+                sendJson(res, e.status, { error: e.message });
+            } else {
+                console.error(`${req.method} ${req.url} failed`, e);
+                sendJson(res, 500, { error: "Internal server error" });
+            }
+        }
+    });
+}
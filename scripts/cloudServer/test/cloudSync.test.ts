@@ -0,0 +1,301 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import assert from "assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { AddressInfo } from "net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { createCloudServer } from "../server";
+import { bundleDevice, createDevice, Device } from "./harness";
+
+const USER_ID = "1234567890";
+const ADMIN_TOKEN = "admin-token";
+
+let secret: string;
+
+let server: Awaited<ReturnType<typeof createCloudServer>>;
+let cloudUrl: string;
+let tempDir: string;
+let bundlePath: string;
+
+async function newDevice() {
+    const device = await createDevice(bundlePath, cloudUrl);
+    assert.ok(await device.requestCloudSecret(ADMIN_TOKEN));
+    return device;
+}
+
+const requestSecret = (userId = USER_ID, adminToken?: string, url = cloudUrl) => fetch(new URL("/v1/secret", url), {
+    method: "POST",
+    headers: adminToken ? { Authorization: `Bearer ${adminToken}` } : {},
+    body: JSON.stringify({ userId })
+});
+
+const authorization = (userSecret = secret) => Buffer.from(`${userSecret}:${USER_ID}`).toString("base64");
+
+const getRaw = () => fetch(new URL("/v1/settings", cloudUrl), { headers: { Authorization: authorization() } });
+
+before(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "vencord-cloud-test-"));
+    bundlePath = await bundleDevice(tempDir);
+
+    server = await createCloudServer({ adminToken: ADMIN_TOKEN, allowRegistration: true });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    cloudUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+    secret = (await (await requestSecret()).json()).secret;
+});
+
+after(async () => {
+    server.close();
+    await rm(tempDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+    await fetch(new URL("/v1/settings", cloudUrl), { method: "DELETE", headers: { Authorization: authorization() } });
+});
+
+describe("cloud server", () => {
+    it("only issues existing secrets with the admin token", async () => {
+        assert.equal((await requestSecret()).status, 409);
+        assert.equal((await requestSecret(USER_ID, "wrong")).status, 409);
+        assert.equal((await (await requestSecret(USER_ID, ADMIN_TOKEN)).json()).secret, secret);
+    });
+
+    it("registers new users without the admin token", async () => {
+        const res = await requestSecret("987654321");
+        assert.equal(res.status, 200);
+        assert.notEqual((await res.json()).secret, secret);
+    });
+
+    it("only issues secrets with the admin token if registration is disallowed", async () => {
+        const closedServer = await createCloudServer({ adminToken: ADMIN_TOKEN });
+        await new Promise<void>(resolve => closedServer.listen(0, "127.0.0.1", resolve));
+        const closedUrl = `http://127.0.0.1:${(closedServer.address() as AddressInfo).port}/`;
+
+        try {
+            assert.equal((await requestSecret(USER_ID, undefined, closedUrl)).status, 401);
+            assert.equal((await requestSecret(USER_ID, ADMIN_TOKEN, closedUrl)).status, 200);
+        } finally {
+            closedServer.close();
+        }
+    });
+
+    it("rejects secrets other than the issued one", async () => {
+        const res = await fetch(new URL("/v1/settings", cloudUrl), { headers: { Authorization: authorization("wrong") } });
+        assert.equal(res.status, 401);
+    });
+
+    it("returns 404 without settings and 304 for the current version", async () => {
+        assert.equal((await getRaw()).status, 404);
+
+        const put = await fetch(new URL("/v1/settings", cloudUrl), { method: "PUT", headers: { Authorization: authorization() }, body: "data" });
+        const { written } = await put.json();
+
+        const res = await fetch(new URL("/v1/settings", cloudUrl), { headers: { Authorization: authorization(), "If-None-Match": String(written) } });
+        assert.equal(res.status, 304);
+    });
+
+    it("rejects uploads based on an outdated version", async () => {
+        const put = () => fetch(new URL("/v1/settings", cloudUrl), { method: "PUT", headers: { Authorization: authorization() }, body: "data" });
+        const { written } = await (await put()).json();
+        await put();
+
+        const res = await fetch(new URL("/v1/settings", cloudUrl), {
+            method: "PUT",
+            headers: { Authorization: authorization(), "If-Match": String(written) },
+            body: "stale"
+        });
+        assert.equal(res.status, 412);
+    });
+});
+
+describe("DataStore backups", () => {
+    let device: Device;
+
+    before(async () => {
+        device = await newDevice();
+    });
+
+    const values = {
+        undefined: undefined,
+        BigInt: 12345678901234567890n,
+        Map: new Map<unknown, unknown>([["a", 1], [2, new Set(["b"])]]),
+        Set: new Set([1, "a", undefined]),
+        Date: new Date(1700000000000),
+        RegExp: /a(b)?c/gi,
+        ArrayBuffer: new Uint8Array([1, 2, 3]).buffer,
+        DataView: new DataView(new Uint8Array([4, 5, 6]).buffer),
+        Int8Array: new Int8Array([-1, 0, 1]),
+        Uint8Array: new Uint8Array([0, 128, 255]),
+        Uint8ClampedArray: new Uint8ClampedArray([0, 128, 255]),
+        Int16Array: new Int16Array([-32768, 0, 32767]),
+        Uint16Array: new Uint16Array([0, 65535]),
+        Int32Array: new Int32Array([-2147483648, 2147483647]),
+        Uint32Array: new Uint32Array([0, 4294967295]),
+        Float32Array: new Float32Array([1.5, -0.25]),
+        Float64Array: new Float64Array([Math.PI, -Infinity]),
+        BigInt64Array: new BigInt64Array([-1n, 2n ** 62n]),
+        BigUint64Array: new BigUint64Array([0n, 2n ** 64n - 1n]),
+        Object: { $vcType: "Map", value: [] }
+    };
+
+    for (const [type, value] of Object.entries(values)) {
+        it(`restores ${type} values`, () => {
+            const encoded = JSON.parse(JSON.stringify(device.encodeValue(value)));
+            assert.deepEqual(device.decodeValue(encoded), value);
+        });
+    }
+
+    it("restores binary data at an offset of its buffer", () => {
+        const value = new Uint16Array(new Uint16Array([1, 2, 3, 4]).buffer, 2, 2);
+        const encoded = JSON.parse(JSON.stringify(device.encodeValue(value)));
+        assert.deepEqual(device.decodeValue(encoded), new Uint16Array([2, 3]));
+    });
+
+    it("rejects unknown encoded types", () => {
+        assert.throws(() => device.decodeValue({ $vcType: "Function", value: "" }));
+    });
+});
+
+describe("settings backups", () => {
+    it("resets general settings the backup doesn't have to their default, as previewed", async () => {
+        const device = await newDevice();
+        device.changeSettings("autoUpdate", false);
+
+        const backup = JSON.parse(await device.exportSettings());
+        delete backup.settings.autoUpdate;
+
+        const preview = await device.getSettingsImportPreview(backup);
+        assert.deepEqual(preview.general.find(c => c.key === "autoUpdate"), { key: "autoUpdate", oldValue: false, newValue: undefined });
+
+        await device.applySettingsBackup(backup, { general: true, quickCss: false, plugins: [], dataStore: [] });
+        assert.equal(device.PlainSettings.autoUpdate, true);
+    });
+});
+
+describe("cloud sync", () => {
+    let a: Device;
+    let b: Device;
+
+    beforeEach(async () => {
+        a = await newDevice();
+        b = await newDevice();
+    });
+
+    it("authorizes every device with the same secret", async () => {
+        assert.equal(await a.getAuthorization(), secret);
+        assert.equal(await b.getAuthorization(), secret);
+
+        a.changeSettings("plugins.Foo.enabled", true);
+        await a.putCloudSettings();
+        assert.equal(await b.getCloudSettings(false), true);
+        assert.equal(b.PlainSettings.plugins.Foo?.enabled, true);
+    });
+
+    it("syncs settings to another device", async () => {
+        a.changeSettings("plugins.Foo.enabled", true);
+        await a.putCloudSettings();
+
+        assert.equal(await b.getCloudSettings(false), true);
+        assert.equal(b.PlainSettings.plugins.Foo?.enabled, true);
+    });
+
+    it("merges changes made on different devices", async () => {
+        await a.putCloudSettings();
+        await b.getCloudSettings(false);
+
+        a.changeSettings("plugins.Foo.enabled", true);
+        b.changeSettings("plugins.Bar.enabled", true);
+
+        await a.getCloudSettings(false);
+        await b.getCloudSettings(false);
+        await a.getCloudSettings(false);
+
+        for (const device of [a, b]) {
+            assert.equal(device.PlainSettings.plugins.Foo?.enabled, true);
+            assert.equal(device.PlainSettings.plugins.Bar?.enabled, true);
+        }
+        assert.equal(b.shownConflicts.length, 0);
+    });
+
+    it("asks which value to keep for settings changed on both devices", async () => {
+        a.changeSettings("plugins.Foo.value", "a");
+        await a.putCloudSettings();
+        await b.getCloudSettings(false);
+
+        a.changeSettings("plugins.Foo.value", "changed on a");
+        b.changeSettings("plugins.Foo.value", "changed on b");
+        await a.getCloudSettings(false);
+
+        b.setConflictResolver(conflicts => conflicts.map(c => [c, "remote"]));
+        assert.equal(await b.getCloudSettings(false, false, b.resolveSyncConflicts), true);
+
+        assert.deepEqual(b.shownConflicts[0].map(c => c.path.join(".")), ["settings.plugins.Foo.value"]);
+        assert.equal(b.PlainSettings.plugins.Foo.value, "changed on a");
+    });
+
+    it("keeps local settings when conflict resolution is cancelled", async () => {
+        await a.putCloudSettings();
+        await b.getCloudSettings(false);
+
+        a.changeSettings("autoUpdate", false);
+        b.changeSettings("autoUpdate", true);
+        await a.getCloudSettings(false);
+
+        b.setConflictResolver(() => null);
+        assert.equal(await b.getCloudSettings(false, false, b.resolveSyncConflicts), null);
+        assert.equal(b.shownConflicts.length, 1);
+        assert.equal(b.PlainSettings.autoUpdate, true);
+    });
+
+    it("defers conflicts of syncs without a conflict resolver", async () => {
+        await a.putCloudSettings();
+        await b.getCloudSettings(false);
+
+        a.changeSettings("autoUpdate", false);
+        b.changeSettings("autoUpdate", true);
+        await a.getCloudSettings(false);
+
+        assert.equal(await b.getCloudSettings(false), null);
+        assert.equal(b.shownConflicts.length, 0);
+        assert.equal(b.PlainSettings.autoUpdate, true);
+    });
+
+    it("encrypts settings with a passphrase", async () => {
+        a.changeSettings("plugins.Foo.apiKey", "secret");
+        await a.setCloudEncryptionPassphrase("correct horse battery staple");
+
+        const raw = Buffer.from(await (await getRaw()).arrayBuffer());
+        assert.equal(raw.subarray(0, 4).toString(), "VCE1");
+        assert.equal(raw.includes("apiKey"), false);
+
+        assert.equal(await b.getCloudSettings(false), null);
+        assert.match(String(b.shownNotifications.at(-1)?.body), /encrypted/);
+
+        await assert.rejects(b.setCloudEncryptionPassphrase("wrong"), /Wrong passphrase/);
+
+        await b.setCloudEncryptionPassphrase("correct horse battery staple");
+        assert.equal(b.PlainSettings.plugins.Foo?.apiKey, "secret");
+    });
+
+    it("does not enable encryption over cloud changes it could not merge", async () => {
+        await a.putCloudSettings();
+        await b.getCloudSettings(false);
+
+        a.changeSettings("autoUpdate", false);
+        b.changeSettings("autoUpdate", true);
+        await a.getCloudSettings(false);
+
+        await assert.rejects(b.setCloudEncryptionPassphrase("correct horse battery staple"), /Could not merge/);
+
+        const raw = Buffer.from(await (await getRaw()).arrayBuffer());
+        assert.notEqual(raw.subarray(0, 4).toString(), "VCE1");
+        assert.equal(await b.getCloudEncryptionKey(), null);
+    });
+});
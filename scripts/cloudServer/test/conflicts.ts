@@ -0,0 +1,25 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { SyncConflictResolver } from "@api/SettingsSync/cloudSync";
+import type { SyncConflict } from "@api/SettingsSync/merge";
+
+type ConflictResolver = (conflicts: SyncConflict[]) => Array<[SyncConflict, "local" | "remote"]> | null;
+
+export const shownConflicts = [] as SyncConflict[][];
+
+/** How {@link resolveSyncConflicts} resolves conflicts instead of showing the conflict modal. Keeps the local values by default */
+export let resolveConflicts: ConflictResolver = conflicts => conflicts.map(c => [c, "local"]);
+
+export function setConflictResolver(resolver: ConflictResolver) {
+    resolveConflicts = resolver;
+}
+
+/** Passed to getCloudSettings like the Cloud tab passes the conflict modal */
+export const resolveSyncConflicts: SyncConflictResolver = async conflicts => {
+    shownConflicts.push(conflicts);
+    return resolveConflicts(conflicts);
+};
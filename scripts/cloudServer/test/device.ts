@@ -0,0 +1,17 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// Entry point of the bundle each simulated device runs
+
+export { PlainSettings } from "@api/Settings";
+export { getAuthorization, getCloudEncryptionKey, removeCloudEncryption, requestCloudSecret, setCloudEncryptionPassphrase } from "@api/SettingsSync/cloudSetup";
+export { decodeValue, encodeValue } from "@api/SettingsSync/dataStore";
+export { deleteCloudSettings, getCloudSettings, putCloudSettings, trackLocalSettingsChange } from "@api/SettingsSync/cloudSync";
+export { applySettingsBackup, exportSettings, getSettingsImportPreview } from "@api/SettingsSync/offline";
+
+export { resolveSyncConflicts, setConflictResolver, shownConflicts } from "./conflicts";
+export * as DataStore from "./modules/dataStore";
+export { shownNotifications } from "./modules/notifications";
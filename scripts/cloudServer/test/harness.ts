@@ -0,0 +1,133 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { build } from "esbuild";
+import { join } from "path";
+import { pathToFileURL } from "url";
+
+/** Modules which need Discord or a browser, replaced with the ones in ./modules */
+const REPLACED_MODULES = {
+    "@api/DataStore": "dataStore.ts",
+    "@api/Notifications": "notifications.ts",
+    "@api/Settings": "settings.ts",
+    "@components/Flex": "ui.ts",
+    "@components/Paragraph": "ui.ts",
+    "@utils/margins": "ui.ts",
+    "@utils/modal": "ui.ts",
+    "@webpack/common": "webpackCommon.ts",
+    "~plugins": "plugins.ts"
+};
+
+export type Device = typeof import("./device") & {
+    /** Change local settings the way the settings store would */
+    changeSettings(path: string, value: unknown): void;
+    getQuickCss(): string;
+};
+
+declare global {
+    // eslint-disable-next-line no-var
+    var __vencordTestDevice: Record<string, unknown>;
+}
+
+/**
+ * Bundle the settings sync code with the modules it needs replaced
+ * @returns The path of the bundle
+ */
+export async function bundleDevice(outDir: string) {
+    const outfile = join(outDir, "device.mjs");
+
+    await build({
+        entryPoints: [join(__dirname, "device.ts")],
+        outfile,
+        bundle: true,
+        format: "esm",
+        platform: "node",
+        target: "esnext",
+        logLevel: "error",
+        tsconfig: join(__dirname, "../../../tsconfig.json"),
+        jsx: "transform",
+        jsxFactory: "VencordCreateElement",
+        jsxFragment: "VencordFragment",
+        define: {
+            IS_WEB: "true",
+            IS_DISCORD_DESKTOP: "false",
+            IS_VESKTOP: "false",
+            IS_DEV: "false",
+            IS_REPORTER: "false"
+        },
+        // Each import of the bundle is a separate device with its own globals
+        banner: {
+            js: "const { VencordNative, window, VencordCreateElement, VencordFragment } = globalThis.__vencordTestDevice;"
+        },
+        plugins: [{
+            name: "replace-modules",
+            setup(build) {
+                const filter = new RegExp(`^(${Object.keys(REPLACED_MODULES).map(m => m.replace(/[/~]/g, "\\$&")).join("|")})$`);
+                build.onResolve({ filter }, ({ path }) => ({ path: join(__dirname, "modules", REPLACED_MODULES[path]) }));
+            }
+        }]
+    });
+
+    return outfile;
+}
+
+let deviceCount = 0;
+
+export async function createDevice(bundlePath: string, cloudUrl: string): Promise<Device> {
+    const settings = {
+        cloud: {
+            authenticated: true,
+            url: cloudUrl,
+            settingsSync: true,
+            settingsSyncVersion: 0
+        },
+        plugins: {},
+        pluginSettingsVersions: {}
+    };
+    let quickCss = "";
+
+    const storage = new Map<string, string>();
+    const localStorage = {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => void storage.set(key, String(value)),
+        removeItem: (key: string) => void storage.delete(key)
+    };
+
+    globalThis.__vencordTestDevice = {
+        VencordNative: {
+            settings: {
+                get: () => settings,
+                set: async () => { }
+            },
+            quickCss: {
+                get: async () => quickCss,
+                set: async (css: string) => { quickCss = css; }
+            }
+        },
+        window: new Proxy(globalThis, {
+            get: (target, key) => key === "localStorage" ? localStorage : Reflect.get(target, key)
+        }),
+        VencordCreateElement: () => null,
+        VencordFragment: null
+    };
+
+    const device: typeof import("./device") = await import(`${pathToFileURL(bundlePath)}?device=${deviceCount++}`);
+
+    return {
+        ...device,
+        changeSettings(path, value) {
+            const keys = path.split(".");
+            let target = settings;
+            for (const key of keys.slice(0, -1)) target = target[key] ??= {};
+            target[keys[keys.length - 1]] = value;
+
+            // What the settings store change listeners do
+            settings.cloud.settingsSyncVersion = Date.now();
+            device.trackLocalSettingsChange(path);
+        },
+        getQuickCss: () => quickCss
+    };
+}
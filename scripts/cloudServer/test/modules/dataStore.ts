@@ -0,0 +1,53 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// In memory replacement for the IndexedDB backed DataStore
+
+const store = new Map<IDBValidKey, any>();
+
+export async function get<T = any>(key: IDBValidKey): Promise<T | undefined> {
+    return structuredClone(store.get(key));
+}
+
+export async function set(key: IDBValidKey, value: any) {
+    store.set(key, structuredClone(value));
+}
+
+export async function setMany(entries: [IDBValidKey, any][]) {
+    for (const [key, value] of entries) store.set(key, structuredClone(value));
+}
+
+export async function getMany(keys: IDBValidKey[]) {
+    return keys.map(key => structuredClone(store.get(key)));
+}
+
+export async function update<T = any>(key: IDBValidKey, updater: (oldValue: T | undefined) => T) {
+    store.set(key, structuredClone(updater(structuredClone(store.get(key)))));
+}
+
+export async function del(key: IDBValidKey) {
+    store.delete(key);
+}
+
+export async function delMany(keys: IDBValidKey[]) {
+    for (const key of keys) store.delete(key);
+}
+
+export async function clear() {
+    store.clear();
+}
+
+export async function keys() {
+    return [...store.keys()];
+}
+
+export async function values() {
+    return [...store.values()].map(v => structuredClone(v));
+}
+
+export async function entries(): Promise<[IDBValidKey, any][]> {
+    return [...store].map(([k, v]) => [k, structuredClone(v)]);
+}
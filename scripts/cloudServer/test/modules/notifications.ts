@@ -0,0 +1,13 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { NotificationData } from "@api/Notifications";
+
+export const shownNotifications = [] as NotificationData[];
+
+export function showNotification(data: NotificationData) {
+    shownNotifications.push(data);
+}
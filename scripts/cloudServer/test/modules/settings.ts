@@ -0,0 +1,16 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { Settings as SettingsType } from "@api/Settings";
+
+// The same object VencordNative.settings.get() returns, like in the real settings API
+export const PlainSettings = VencordNative.settings.get() as SettingsType;
+export const Settings = PlainSettings;
+
+// Only the defaults the tests rely on
+export const DefaultSettings = {
+    autoUpdate: true
+} as Partial<SettingsType> as SettingsType;
@@ -0,0 +1,23 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// Components and modal utilities imported by the settings sync code. Nothing renders in the tests
+
+const Component = () => null;
+
+export const Flex = Component;
+export const Paragraph = Component;
+export const Margins = new Proxy({}, { get: () => "" });
+
+export const ModalRoot = Component;
+export const ModalHeader = Component;
+export const ModalContent = Component;
+export const ModalFooter = Component;
+export const ModalCloseButton = Component;
+export const ModalSize = {};
+export function openModal() {
+    throw new Error("Modals can't open in the cloud sync tests");
+}
@@ -0,0 +1,39 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// The parts of Discord's modules used by the settings sync code, without Discord
+
+import { isDeepStrictEqual } from "util";
+
+export const lodash = {
+    isEqual: isDeepStrictEqual,
+    get: (object: any, path: string[]) => path.reduce((value, key) => value?.[key], object),
+    omit: (object: Record<string, any>, keys: string[]) => Object.fromEntries(Object.entries(object).filter(([key]) => !keys.includes(key)))
+};
+
+export const UserStore = {
+    getCurrentUser: () => ({ id: "1234567890" })
+};
+
+export const Toasts = {
+    Type: { SUCCESS: "success", FAILURE: "failure" },
+    genId: () => "0",
+    show() { }
+};
+
+export const moment = () => ({ format: () => "" });
+
+export const useState = () => {
+    throw new Error("Components can't render in the cloud sync tests");
+};
+
+const Component = () => null;
+export const Alerts = { show() { } };
+export const Button = Object.assign(Component, { Colors: {}, Sizes: {}, Looks: {} });
+export const Forms = { FormTitle: Component, FormText: Component };
+export const Text = Component;
+export const TextInput = Component;
+export const OAuth2AuthorizeModal = Component;
@@ -0,0 +1,145 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+
+import type { ReporterReport } from "../src/debug/runReporter";
+
+/** A single issue of a plugin. Issues of two reports are compared by their key */
+interface ReportIssue {
+    key: string;
+    description: string;
+}
+
+interface PluginDiff {
+    plugin: string;
+    /** Issues which are only in the new report */
+    regressed: string[];
+    /** Issues which are only in the old report */
+    fixed: string[];
+}
+
+const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        json: { type: "boolean", default: false }
+    }
+});
+
+const [oldPath, newPath] = positionals;
+
+if (!oldPath || !newPath) {
+    console.error("Usage: pnpm diffReports <old report> <new report> [--json]");
+    process.exit(2);
+}
+
+function readReport(path: string): ReporterReport {
+    const report: ReporterReport = JSON.parse(readFileSync(path, "utf-8"));
+    if (report.version !== 1) throw new Error(`Unsupported report version ${report.version} in ${path}`);
+
+    return report;
+}
+
+/**
+ * Collect the issues of a report by plugin.
+ * Module ids and timings change with every Discord build, so they are not part of the keys
+ */
+function collectIssues(report: ReporterReport) {
+    const issues = new Map<string, ReportIssue[]>();
+    const add = (plugin: string, key: string, description: string) => {
+        let list = issues.get(plugin);
+        if (!list) issues.set(plugin, list = []);
+
+        if (!list.some(i => i.key === key)) list.push({ key, description });
+    };
+
+    for (const { plugin, type, match, error } of report.badPatches) {
+        const description = type === "no-module" ? `Patch found no module: ${match}` : type === "no-effect" ? `Patch had no effect: ${match}` : `Patch errored: ${match} (${error})`;
+        add(plugin, `patch:${type}:${match}`, description);
+    }
+
+    for (const { plugin, match, totalTime } of report.slowPatches) {
+        add(plugin, `slow:${match}`, `Patch took ${Math.round(totalTime * 100) / 100}ms: ${match}`);
+    }
+
+    for (const { plugin, match, conflictsWith } of report.patchConflicts) {
+        add(plugin, `conflict:${match}:${[...conflictsWith].sort().join(",")}`, `Patch conflicts with ${conflictsWith.join(", ")}: ${match}`);
+    }
+
+    for (const { plugin, error } of report.badStarts) {
+        add(plugin, "start", `Failed to start: ${error}`);
+    }
+
+    // Finds are not associated with the plugin using them
+    for (const find of report.badWebpackFinds) {
+        add("Webpack Finds", `find:${find}`, `Find failed: ${find}`);
+    }
+
+    return issues;
+}
+
+function diffReports(oldReport: ReporterReport, newReport: ReporterReport) {
+    const oldIssues = collectIssues(oldReport);
+    const newIssues = collectIssues(newReport);
+
+    const diffs = [] as PluginDiff[];
+
+    for (const plugin of new Set([...oldIssues.keys(), ...newIssues.keys()])) {
+        const before = oldIssues.get(plugin) ?? [];
+        const after = newIssues.get(plugin) ?? [];
+
+        const regressed = after.filter(i => !before.some(b => b.key === i.key)).map(i => i.description);
+        const fixed = before.filter(i => !after.some(a => a.key === i.key)).map(i => i.description);
+
+        if (regressed.length || fixed.length) {
+            diffs.push({ plugin, regressed, fixed });
+        }
+    }
+
+    return diffs.sort((a, b) => a.plugin.localeCompare(b.plugin));
+}
+
+function formatBuild(report: ReporterReport) {
+    const buildNumber = report.buildNumber === -1 ? "unknown build" : `build ${report.buildNumber}`;
+    return report.buildHash ? `${buildNumber} (${report.buildHash})` : buildNumber;
+}
+
+const oldReport = readReport(oldPath);
+const newReport = readReport(newPath);
+const diffs = diffReports(oldReport, newReport);
+
+if (args.json) {
+    console.log(JSON.stringify({
+        oldBuild: { buildNumber: oldReport.buildNumber, buildHash: oldReport.buildHash },
+        newBuild: { buildNumber: newReport.buildNumber, buildHash: newReport.buildHash },
+        plugins: diffs
+    }, null, 4));
+} else {
+    console.log(`# Reporter diff from ${formatBuild(oldReport)} to ${formatBuild(newReport)}`);
+    console.log();
+
+    const regressions = diffs.filter(d => d.regressed.length);
+    const fixes = diffs.filter(d => d.fixed.length);
+
+    console.log("## Regressed");
+    for (const { plugin, regressed } of regressions) {
+        console.log(`- ${plugin}`);
+        regressed.forEach(r => console.log(`  - ${r}`));
+    }
+    if (!regressions.length) console.log("None");
+
+    console.log();
+
+    console.log("## Fixed");
+    for (const { plugin, fixed } of fixes) {
+        console.log(`- ${plugin}`);
+        fixed.forEach(f => console.log(`  - ${f}`));
+    }
+    if (!fixes.length) console.log("None");
+}
+
+process.exitCode = diffs.some(d => d.regressed.length) ? 1 : 0;
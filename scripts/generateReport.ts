@@ -20,9 +20,11 @@
 /// <reference types="../src/modules" />
 
 import { createHmac } from "crypto";
-import { readFileSync } from "fs";
+import { readFileSync, writeFileSync } from "fs";
 import pup, { JSHandle } from "puppeteer-core";
 
+import type { ReporterReport } from "../src/debug/runReporter";
+
 const logStderr = (...data: any[]) => console.error(`${CANARY ? "CANARY" : "STABLE"} ---`, ...data);
 
 for (const variable of ["CHROMIUM_BIN"]) {
@@ -33,10 +35,6 @@ for (const variable of ["CHROMIUM_BIN"]) {
 }
 
 const CANARY = process.env.USE_CANARY === "true";
-let metaData = {
-    buildNumber: "Unknown Build Number",
-    buildHash: "Unknown Build Hash"
-};
 
 const browser = await pup.launch({
     headless: true,
@@ -62,18 +60,57 @@ interface PatchInfo {
     error?: string;
 };
 
-const report = {
-    badPatches: [] as PatchInfo[],
-    slowPatches: [] as PatchInfo[],
-    badStarts: [] as {
-        plugin: string;
-        error: string;
-    }[],
-    otherErrors: [] as string[],
-    ignoredErrors: [] as string[],
-    badWebpackFinds: [] as string[]
+const report: ReporterReport & { otherErrors: string[]; ignoredErrors: string[]; } = {
+    version: 1,
+    buildNumber: -1,
+    buildHash: null,
+    badPatches: [],
+    slowPatches: [],
+    patchConflicts: [],
+    badStarts: [],
+    badWebpackFinds: [],
+    otherErrors: [],
+    ignoredErrors: []
 };
 
+// The report is logged right before the reporter finishes, but reading it from the page can take longer than the finish message
+let resolveReporterReport: () => void;
+const reporterReportReceived = new Promise<void>(r => resolveReporterReport = r);
+/** How long to wait for the report after the reporter finished, so the run fails instead of hanging if it never arrives */
+const REPORTER_REPORT_TIMEOUT = 30_000;
+
+/**
+ * @returns Whether the report was received before the timeout
+ */
+function waitForReporterReport() {
+    return Promise.race([
+        reporterReportReceived.then(() => true),
+        new Promise<boolean>(r => setTimeout(() => r(false), REPORTER_REPORT_TIMEOUT).unref())
+    ]);
+}
+
+const badPatches = () => report.badPatches.map((p): PatchInfo => ({
+    plugin: p.plugin,
+    type: p.type === "no-module" ? "found no module" : p.type === "no-effect" ? "had no effect" : "errored",
+    id: p.moduleId ?? "-",
+    match: p.match,
+    error: p.error
+}));
+
+const slowPatches = () => report.slowPatches.map((p): PatchInfo => ({
+    plugin: p.plugin,
+    type: `took ${Math.round(p.totalTime * 100) / 100}ms`,
+    id: p.moduleId,
+    match: p.match
+}));
+
+const patchConflicts = () => report.patchConflicts.map((p): PatchInfo => ({
+    plugin: p.plugin,
+    type: `conflicts with ${p.conflictsWith.join(", ")}`,
+    id: p.moduleId,
+    match: p.match
+}));
+
 const IGNORED_DISCORD_ERRORS = [
     "KeybindStore: Looking for callback action",
     "Unable to process domain list delta: Client revision number is null",
@@ -98,7 +135,7 @@ async function printReport() {
     console.log();
 
     console.log("## Bad Patches");
-    report.badPatches.forEach(p => {
+    badPatches().forEach(p => {
         console.log(`- ${p.plugin} (${p.type})`);
         console.log(`  - ID: \`${p.id}\``);
         console.log(`  - Match: ${toCodeBlock(p.match, "  - Match: ".length)}`);
@@ -107,6 +144,15 @@ async function printReport() {
 
     console.log();
 
+    console.log("## Patch Conflicts");
+    patchConflicts().forEach(p => {
+        console.log(`- ${p.plugin} (${p.type})`);
+        console.log(`  - ID: \`${p.id}\``);
+        console.log(`  - Match: ${toCodeBlock(p.match, "  - Match: ".length)}`);
+    });
+
+    console.log();
+
     console.log("## Bad Webpack Finds");
     report.badWebpackFinds.forEach(p => console.log("- " + toCodeBlock(p, "- ".length)));
 
@@ -153,14 +199,15 @@ async function printReport() {
         const embeds = [
             {
                 author: {
-                    name: `Discord ${CANARY ? "Canary" : "Stable"} (${metaData.buildNumber})`,
-                    url: `https://nelly.tools/builds/app/${metaData.buildHash}`,
+                    name: `Discord ${CANARY ? "Canary" : "Stable"} (${report.buildNumber === -1 ? "Unknown Build Number" : report.buildNumber})`,
+                    url: `https://nelly.tools/builds/app/${report.buildHash ?? "Unknown Build Hash"}`,
                     icon_url: CANARY ? "https://cdn.discordapp.com/emojis/1252721945699549327.png?size=128" : "https://cdn.discordapp.com/emojis/1252721943463985272.png?size=128"
                 },
                 color: CANARY ? 0xfbb642 : 0x5865f2
             },
-            report.badPatches.length > 0 && patchesToEmbed("Bad Patches", report.badPatches, 0xff0000),
-            report.slowPatches.length > 0 && patchesToEmbed("Slow Patches", report.slowPatches, 0xf0b232),
+            report.badPatches.length > 0 && patchesToEmbed("Bad Patches", badPatches(), 0xff0000),
+            report.slowPatches.length > 0 && patchesToEmbed("Slow Patches", slowPatches(), 0xf0b232),
+            report.patchConflicts.length > 0 && patchesToEmbed("Patch Conflicts", patchConflicts(), 0xf0b232),
             report.badWebpackFinds.length > 0 && {
                 title: "Bad Webpack Finds",
                 description: report.badWebpackFinds.map(f => toCodeBlock(f, 0, true)).join("\n") || "None",
@@ -243,10 +290,17 @@ page.on("console", async e => {
 
     const isVencord = firstArg === "[Vencord]";
     const isDebug = firstArg === "[PUP_DEBUG]";
-    const isReporterMeta = firstArg === "[REPORTER_META]";
+    const isReporterReport = firstArg === "[REPORTER_REPORT]";
 
-    if (isReporterMeta) {
-        metaData = await rawArgs[1].jsonValue() as any;
+    if (isReporterReport) {
+        Object.assign(report, JSON.parse(await rawArgs[1].jsonValue() as string));
+
+        // Conflicts are only reported, as they don't necessarily break the plugins involved
+        if ([report.badPatches, report.slowPatches, report.badStarts, report.badWebpackFinds].some(list => list.length)) {
+            process.exitCode = 1;
+        }
+
+        resolveReporterReport();
         return;
     }
 
@@ -258,41 +312,15 @@ page.on("console", async e => {
             break outer;
         }
 
-        const [, tag, message, otherMessage] = args as Array<string>;
+        const [, tag, message] = args as Array<string>;
 
         switch (tag) {
             case "WebpackPatcher:":
-                const patchFailMatch = message.match(/Patch by (.+?) (had no effect|errored|found no module) \(Module id is (.+?)\): (.+)/);
-                const patchSlowMatch = message.match(/Patch by (.+?) (took [\d.]+?ms) \(Module id is (.+?)\): (.+)/);
-                const match = patchFailMatch ?? patchSlowMatch;
-                if (!match) break;
-
-                logStderr(await getText());
-                process.exitCode = 1;
-
-                const [, plugin, type, id, regex] = match;
-                const list = patchFailMatch ? report.badPatches : report.slowPatches;
-                list.push({
-                    plugin,
-                    type,
-                    id,
-                    match: regex,
-                    error: await maybeGetError(e.args()[3])
-                });
-
-                break;
             case "PluginManager:":
-                const failedToStartMatch = message.match(/Failed to start (.+)/);
-                if (!failedToStartMatch) break;
-
-                logStderr(await getText());
-                process.exitCode = 1;
-
-                const [, name] = failedToStartMatch;
-                report.badStarts.push({
-                    plugin: name,
-                    error: await maybeGetError(e.args()[3]) ?? "Unknown error"
-                });
+                // The failures are part of the reporter report, so they are only logged here
+                if (/^Patch by |^Failed to start /.test(message)) {
+                    logStderr(await getText());
+                }
 
                 break;
             case "LazyChunkLoader:":
@@ -310,12 +338,16 @@ page.on("console", async e => {
                 switch (message) {
                     case "A fatal error occurred:":
                         process.exit(1);
-                    case "Webpack Find Fail:":
-                        process.exitCode = 1;
-                        report.badWebpackFinds.push(otherMessage);
-                        break;
                     case "Finished test":
+                        if (!await waitForReporterReport()) {
+                            logStderr(`Did not receive the reporter report within ${REPORTER_REPORT_TIMEOUT / 1000} seconds`);
+                            process.exit(1);
+                        }
+
                         await browser.close();
+                        if (process.env.REPORT_FILE) {
+                            writeFileSync(process.env.REPORT_FILE, JSON.stringify(report, null, 4));
+                        }
                         await printReport();
                         process.exit();
                 }
@@ -0,0 +1,134 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { build } from "esbuild";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+
+import { commonOpts, globPlugins, stringifyValues, VERSION } from "../build/common.mjs";
+import { loadModules } from "./modules";
+import type { PatchTestReport } from "./runner";
+
+const Targets = {
+    desktop: "discordDesktop",
+    web: "web",
+    vesktop: "vesktop"
+} as const;
+
+const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        build: { type: "string" },
+        plugin: { type: "string", multiple: true },
+        target: { type: "string", default: "desktop" },
+        out: { type: "string" }
+    }
+});
+
+const [modulesPath] = positionals;
+const target = Targets[args.target as keyof typeof Targets];
+
+if (!modulesPath || !target) {
+    console.error("Usage: pnpm testPatches <chunk directory | module dump> [--build <number>] [--plugin <name>]... [--target desktop|web|vesktop] [--out <file>]");
+    console.error("The files of a chunk directory are run to read their modules, so only use chunks from a trusted source");
+    process.exit(2);
+}
+
+/**
+ * Stands in for the browser and Discord globals plugins access when they are loaded.
+ * Everything accessed on it returns itself, and calling it does nothing
+ */
+const inert: any = new Proxy(function () { }, {
+    get: (_, key) => {
+        if (key === Symbol.toPrimitive) return () => "";
+        if (key === Symbol.iterator) return function* () { };
+        // Not thenable, so it can be returned from async functions
+        if (key === "then") return undefined;
+        return inert;
+    },
+    apply: () => inert,
+    construct: () => inert,
+    has: () => false
+});
+
+async function bundlePlugins(outDir: string) {
+    const outfile = join(outDir, "patchTest.mjs");
+
+    await build({
+        ...commonOpts,
+        entryPoints: [join(__dirname, "runner.ts")],
+        outfile,
+        format: "esm",
+        platform: "node",
+        target: "esnext",
+        minify: false,
+        sourcemap: false,
+        logLevel: "error",
+        plugins: [globPlugins(target), ...commonOpts.plugins],
+        define: stringifyValues({
+            IS_WEB: target === "web",
+            IS_DISCORD_DESKTOP: target === "discordDesktop",
+            IS_VESKTOP: target === "vesktop",
+            IS_EXTENSION: false,
+            IS_USERSCRIPT: false,
+            IS_STANDALONE: true,
+            IS_DEV: false,
+            IS_REPORTER: false,
+            IS_ANTI_CRASH_TEST: false,
+            IS_UPDATER_DISABLED: true,
+            VERSION,
+            BUILD_TIMESTAMP: Date.now()
+        })
+    });
+
+    return outfile;
+}
+
+function printSummary(report: PatchTestReport, skippedFiles: number) {
+    console.error(`Tested ${report.patches.length} patches against ${report.moduleCount} modules of build ${report.buildNumber}`);
+    if (skippedFiles) console.error(`Skipped ${skippedFiles} files which are not webpack chunks`);
+
+    for (const { plugin, find, problems } of report.patches) {
+        for (const problem of problems) {
+            const details = "match" in problem ? `, ${problem.match}` : "";
+            console.error(`  ${plugin}: ${problem.type} (${find}${details})`);
+        }
+    }
+}
+
+async function main() {
+    const tempDir = await mkdtemp(join(tmpdir(), "vencord-patch-test-"));
+
+    try {
+        const { sources, buildNumber, skippedFiles } = await loadModules(modulesPath);
+
+        Object.assign(globalThis, { window: globalThis, document: inert, VencordNative: inert, DiscordNative: inert, localStorage: inert });
+        Object.defineProperty(globalThis, "navigator", { value: inert, configurable: true });
+
+        const { runPatchTest }: typeof import("./runner") = await import(pathToFileURL(await bundlePlugins(tempDir)).href);
+        const report = runPatchTest(sources, {
+            buildNumber: args.build ? Number(args.build) : buildNumber,
+            plugins: args.plugin
+        });
+
+        const json = JSON.stringify({ ...report, skippedFiles }, null, 4);
+        if (args.out) await writeFile(args.out, json);
+        else console.log(json);
+
+        printSummary(report, skippedFiles.length);
+        process.exitCode = report.patches.some(p => p.problems.length) ? 1 : 0;
+    } finally {
+        await rm(tempDir, { recursive: true, force: true });
+    }
+}
+
+main().catch(e => {
+    console.error("Failed to test patches:", e instanceof Error ? e.message : e);
+    process.exit(1);
+});
@@ -0,0 +1,86 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { readdir, readFile, stat } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import { runInNewContext } from "vm";
+import { gunzip } from "zlib";
+
+import type { ModuleDump } from "../../src/main/moduleDumps";
+import type { ModuleSources } from "./runner";
+
+export interface LoadedModules {
+    sources: ModuleSources;
+    /** The build number the modules are from, if known without searching them */
+    buildNumber?: number;
+    /** Files which could not be run, like the webpack runtime. Their modules, if any, are missing */
+    skippedFiles: Array<{ file: string; error: string; }>;
+}
+
+/**
+ * Load modules from a directory of saved chunks or from a module dump captured in the client.
+ * Chunk files are run to collect their modules, so only load chunks from a source you trust.
+ */
+export async function loadModules(path: string) {
+    return (await stat(path)).isDirectory()
+        ? loadChunkDirectory(path)
+        : loadModuleDump(path);
+}
+
+/**
+ * Load a module dump saved by `captureModules`, gzipped or not.
+ */
+export async function loadModuleDump(file: string): Promise<LoadedModules> {
+    let data = await readFile(file);
+    if (file.endsWith(".gz")) data = await promisify(gunzip)(data);
+
+    const dump: ModuleDump = JSON.parse(data.toString("utf-8"));
+    if (dump.version !== 1) throw new Error(`Unsupported module dump version ${dump.version}`);
+
+    return {
+        sources: new Map(Object.entries(dump.modules)),
+        buildNumber: dump.buildNumber === -1 ? undefined : dump.buildNumber,
+        skippedFiles: []
+    };
+}
+
+/**
+ * Load the module factories of saved Discord webpack chunks.
+ * Each chunk is run in an empty context which only captures what it pushes to `webpackChunkdiscord_app`.
+ * The module factories themselves are never called, but the top level code of every file is run.
+ * The vm module is not a security boundary, so a malicious file can escape the context.
+ * Only load chunk files you trust, like ones you downloaded from Discord yourself.
+ *
+ * @param dir Directory containing the chunk files
+ */
+export async function loadChunkDirectory(dir: string): Promise<LoadedModules> {
+    const sources: ModuleSources = new Map();
+    const skippedFiles = [] as LoadedModules["skippedFiles"];
+
+    const files = (await readdir(dir)).filter(f => f.endsWith(".js")).sort();
+
+    for (const file of files) {
+        const chunkQueue = {
+            push(chunk: [unknown, Record<string, Function>]) {
+                for (const [id, factory] of Object.entries(chunk[1])) {
+                    sources.set(id, String(factory));
+                }
+            }
+        };
+
+        const context = { webpackChunkdiscord_app: chunkQueue } as Record<string, unknown>;
+        context.self = context.window = context.globalThis = context;
+
+        try {
+            runInNewContext(await readFile(join(dir, file), "utf-8"), context, { filename: file, timeout: 10_000 });
+        } catch (e) {
+            skippedFiles.push({ file, error: String(e) });
+        }
+    }
+
+    return { sources, skippedFiles };
+}
@@ -0,0 +1,171 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// This file is bundled together with all plugins, so it runs the same patch code as the client
+
+import { applyPatch, BUILD_NUMBER_MODULE_FIND, canonicalizeFind, canonicalizeReplacement, isInBuildRange, matchBuildNumber, PatchConflict, PatchEdit, patchFindMatches, trackPatchEdits } from "@utils/patches";
+import { Patch, ReporterTestable } from "@utils/types";
+import Plugins from "~plugins";
+
+/** Sources of webpack module factories by module id, in the order they were loaded */
+export type ModuleSources = Map<string, string>;
+
+export type PatchProblem =
+    | { type: "no-match"; }
+    | { type: "multi-match"; moduleIds: string[]; }
+    | { type: "no-effect"; moduleId: string; match: string; }
+    | { type: "errored"; moduleId: string; match: string; error: string; }
+    | { type: "group-undone"; moduleId: string; match: string; }
+    | { type: "conflict"; moduleId: string; match: string; conflictsWith: string[]; reason: PatchConflict["reason"]; };
+
+export interface PatchTestResult {
+    plugin: string;
+    find: string;
+    /** Ids of the modules the patch was applied to */
+    moduleIds: string[];
+    problems: PatchProblem[];
+}
+
+export interface PatchTestReport {
+    /** The build number the patches were tested against, or -1 if it is unknown */
+    buildNumber: number;
+    moduleCount: number;
+    /** Results of every patch in the build range, in the order they would be registered */
+    patches: PatchTestResult[];
+}
+
+export interface PatchTestOptions {
+    /** Overrides the build number found in the modules */
+    buildNumber?: number;
+    /** Only test the patches of these plugins */
+    plugins?: string[];
+}
+
+export function findBuildNumber(sources: ModuleSources) {
+    for (const source of sources.values()) {
+        if (source.includes(BUILD_NUMBER_MODULE_FIND)) {
+            return matchBuildNumber(source);
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Canonicalize the patches of all plugins the way the reporter does.
+ * Predicates depend on settings and the running client, so they are removed and every patch is tested.
+ * Unlike in the reporter, patch groups are kept, so undone groups can be reported.
+ */
+function collectPatches(pluginNames?: string[]) {
+    const patches = [] as Patch[];
+
+    for (const p of Object.values(Plugins)) {
+        if (!p.patches || (pluginNames && !pluginNames.includes(p.name))) continue;
+        if (p.reporterTestable != null && (p.reporterTestable & ReporterTestable.Patches) !== ReporterTestable.Patches) continue;
+
+        const pluginPath = `Vencord.Plugins.plugins[${JSON.stringify(p.name)}]`;
+
+        for (const patch of p.patches as Patch[]) {
+            patch.plugin = p.name;
+            delete patch.predicate;
+
+            canonicalizeFind(patch);
+            if (!Array.isArray(patch.replacement)) {
+                patch.replacement = [patch.replacement];
+            }
+
+            for (const replacement of patch.replacement) {
+                canonicalizeReplacement(replacement, pluginPath);
+                delete replacement.predicate;
+            }
+
+            patches.push(patch);
+        }
+    }
+
+    return patches;
+}
+
+/**
+ * Apply the patches of all plugins to the modules, in the same order as patchFactory would when the modules are loaded.
+ */
+export function runPatchTest(sources: ModuleSources, options: PatchTestOptions = {}): PatchTestReport {
+    const buildNumber = options.buildNumber ?? findBuildNumber(sources);
+    const patches = collectPatches(options.plugins).filter(patch => isInBuildRange(patch, buildNumber));
+
+    const results = new Map(patches.map(patch => [patch, {
+        plugin: patch.plugin,
+        find: String(patch.find),
+        moduleIds: [],
+        problems: []
+    } as PatchTestResult]));
+
+    // Patches which matched and do not have `all` set are removed, like in patchFactory
+    const pendingPatches = [...patches];
+
+    for (const [moduleId, source] of sources) {
+        // 0, prefix to turn it into an expression, same as in patchFactory
+        let code = "0," + source;
+        const originalCode = code;
+        const edits = [] as PatchEdit[];
+
+        for (let i = 0; i < pendingPatches.length; i++) {
+            const patch = pendingPatches[i];
+            if (!patchFindMatches(patch, code)) continue;
+
+            const { moduleIds, problems } = results.get(patch)!;
+            moduleIds.push(moduleId);
+
+            const result = applyPatch(code, patch, buildNumber, newCode => (0, eval)(newCode), true);
+
+            for (const { replacement, status, error } of result.replacements) {
+                const match = String(replacement.match);
+
+                if (status === "no-effect" && !(patch.noWarn || replacement.noWarn)) {
+                    problems.push({ type: "no-effect", moduleId, match });
+                } else if (status === "errored") {
+                    problems.push({ type: "errored", moduleId, match, error: String(error) });
+                }
+            }
+
+            if (result.undoneBy) {
+                problems.push({ type: "group-undone", moduleId, match: String(result.undoneBy.replacement.match) });
+            }
+
+            for (const { match, conflictsWith, reason } of trackPatchEdits(edits, originalCode, patch, result)) {
+                problems.push({ type: "conflict", moduleId, match, conflictsWith, reason });
+            }
+
+            code = result.code;
+
+            if (!patch.all) {
+                pendingPatches.splice(i--, 1);
+            }
+        }
+    }
+
+    for (const patch of patches) {
+        if (patch.all) continue;
+
+        const { moduleIds, problems } = results.get(patch)!;
+        if (!moduleIds.length) {
+            problems.push({ type: "no-match" });
+            continue;
+        }
+
+        // Only the first module is patched at runtime, which is likely not the intended one if there are several
+        const matchingIds = [...sources].filter(([, source]) => patchFindMatches(patch, "0," + source)).map(([id]) => id);
+        if (matchingIds.length > 1) {
+            problems.push({ type: "multi-match", moduleIds: matchingIds });
+        }
+    }
+
+    return {
+        buildNumber,
+        moduleCount: sources.size,
+        patches: [...results.values()]
+    };
+}
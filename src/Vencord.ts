@@ -35,12 +35,12 @@ import { IS_WINDOWS } from "@utils/constants";
 import { createAndAppendStyle } from "@utils/css";
 import { StartAt } from "@utils/types";
 
+import { initUserCommands } from "./api/Commands/userCommands";
 import { get as dsGet } from "./api/DataStore";
 import { NotificationData, showNotification } from "./api/Notifications";
 import { initPluginManager, PMLogger, startAllPlugins } from "./api/PluginManager";
 import { PlainSettings, Settings, SettingsStore } from "./api/Settings";
-import { getCloudSettings, putCloudSettings } from "./api/SettingsSync/cloudSync";
-import { localStorage } from "./utils/localStorage";
+import { getCloudSettings, isCloudSyncAwaitingPassphrase, trackLocalSettingsChange } from "./api/SettingsSync/cloudSync";
 import { relaunch } from "./utils/native";
 import { checkForUpdates, update, UpdateLogger } from "./utils/updater";
 import { onceReady } from "./webpack";
@@ -72,14 +72,12 @@ async function syncSettings() {
         Settings.cloud.settingsSync && // if it's enabled
         Settings.cloud.authenticated // if cloud integrations are enabled
     ) {
-        if (localStorage.Vencord_settingsDirty) {
-            await putCloudSettings();
-            delete localStorage.Vencord_settingsDirty;
-        } else if (await getCloudSettings(false)) { // if we synchronized something (false means no sync)
+        // getCloudSettings() merges the cloud settings with the local ones and uploads local changes the cloud is missing
+        if (await getCloudSettings(false)) { // if we synchronized something (false means no sync)
             // we show a notification here instead of allowing getCloudSettings() to show one to declutter the amount of
             // potential notifications that might occur. getCloudSettings() will always send a notification regardless if
             // there was an error to notify the user, but besides that we only want to show one notification instead of all
-            // of the possible ones it has (such as when your settings are newer).
+            // of the possible ones it has (such as when your settings are up to date).
             showNotification({
                 title: "Cloud Settings",
                 body: "Your settings have been updated! Click here to restart to fully apply changes!",
@@ -90,14 +88,14 @@ async function syncSettings() {
     }
 
     const saveSettingsOnFrequentAction = debounce(async () => {
-        if (Settings.cloud.settingsSync && Settings.cloud.authenticated) {
-            await putCloudSettings();
-            delete localStorage.Vencord_settingsDirty;
+        // Syncing can't work until the passphrase is entered, which syncs again by itself
+        if (Settings.cloud.settingsSync && Settings.cloud.authenticated && !isCloudSyncAwaitingPassphrase()) {
+            await getCloudSettings(false);
         }
     }, 60_000);
 
-    SettingsStore.addGlobalChangeListener(() => {
-        localStorage.Vencord_settingsDirty = true;
+    SettingsStore.addGlobalChangeListener((_, path) => {
+        trackLocalSettingsChange(path);
         saveSettingsOnFrequentAction();
     });
 }
@@ -147,6 +145,8 @@ async function runUpdateCheck() {
 async function init() {
     await onceReady;
     startAllPlugins(StartAt.WebpackReady);
+    // After the plugins, so aliases can use the options of plugin commands
+    initUserCommands();
 
     syncSettings();
 
@@ -7,6 +7,8 @@
 import type { Settings } from "@api/Settings";
 import { CspRequestResult } from "@main/csp/manager";
 import { PluginIpcMappings } from "@main/ipcPlugins";
+import type { ModuleDump } from "@main/moduleDumps";
+import type { NetFetchLogEntry } from "@main/netFetch";
 import type { UserThemeHeader } from "@main/themes";
 import { IpcEvents } from "@shared/IpcEvents";
 import { IpcRes } from "@utils/types";
@@ -77,7 +79,15 @@ export default {
     },
 
     net: {
-        fetch: (url: string) => invoke<ArrayBuffer>(IpcEvents.NET_FETCH, url)
+        /**
+         * Fetch a url from the main process, bypassing CORS. Domains not allowed by the CSP have to be approved by the user first.
+         *
+         * @param url The url to fetch
+         * @param callerName The name of the plugin making the request, shown to the user when asking for approval and in the request log
+         */
+        fetch: (url: string, callerName: string) => invoke<ArrayBuffer>(IpcEvents.NET_FETCH, url, callerName),
+        getLog: () => invoke<NetFetchLogEntry[]>(IpcEvents.NET_FETCH_GET_LOG),
+        clearLog: () => invoke<void>(IpcEvents.NET_FETCH_CLEAR_LOG)
     },
 
     csp: {
@@ -90,6 +100,25 @@ export default {
         removeOverride: (url: string) => invoke<boolean>(IpcEvents.CSP_REMOVE_OVERRIDE, url),
         requestAddOverride: (url: string, directives: string[], callerName: string) =>
             invoke<CspRequestResult>(IpcEvents.CSP_REQUEST_ADD_OVERRIDE, url, directives, callerName),
+        /**
+         * Allow the hosts of a plugin's network manifest, or revoke them by passing null.
+         * Hosts which were not allowed for the plugin before are only allowed if the user confirms them.
+         * @returns Whether the rules changed, in which case a restart is needed for the CSP to apply them
+         */
+        setPluginRules: (pluginName: string, rules: Record<string, string[]> | null) =>
+            invoke<boolean>(IpcEvents.CSP_SET_PLUGIN_RULES, pluginName, rules),
+        /** Revoke the rules of plugins which are no longer enabled and of hosts they no longer declare. Never allows new hosts */
+        syncPluginRules: (rulesByPlugin: Record<string, Record<string, string[]>>) =>
+            invoke<boolean>(IpcEvents.CSP_SYNC_PLUGIN_RULES, rulesByPlugin),
+    },
+
+    debug: {
+        /** @returns The file name the dump was saved as */
+        saveModuleDump: (dump: ModuleDump) => invoke<string>(IpcEvents.SAVE_MODULE_DUMP, dump),
+        /** @returns The file names of all saved dumps, newest first */
+        getModuleDumps: () => invoke<string[]>(IpcEvents.GET_MODULE_DUMPS),
+        readModuleDump: (fileName: string) => invoke<ModuleDump>(IpcEvents.READ_MODULE_DUMP, fileName),
+        openModuleDumpsFolder: () => invoke<void>(IpcEvents.OPEN_MODULE_DUMPS_FOLDER),
     },
 
     pluginHelpers: PluginHelpers
@@ -7,16 +7,18 @@
 import "./ChatButton.css";
 
 import ErrorBoundary from "@components/ErrorBoundary";
+import { MoreHorizontalIcon } from "@components/Icons";
 import { Logger } from "@utils/Logger";
 import { classes } from "@utils/misc";
 import { IconComponent } from "@utils/types";
 import { Channel } from "@vencord/discord-types";
 import { waitFor } from "@webpack";
-import { ButtonWrapperClasses, Clickable, Menu, Tooltip } from "@webpack/common";
+import { ButtonWrapperClasses, Clickable, Menu, Popout, Tooltip, useRef, useState } from "@webpack/common";
 import { HTMLProps, JSX, MouseEventHandler, ReactNode } from "react";
 
 import { addContextMenuPatch, findGroupChildrenByChildId } from "./ContextMenu";
 import { useSettings } from "./Settings";
+import { sortUIElements, splitUIElements, UIElementData } from "./UIElements";
 
 let ChannelTextAreaClasses: Record<"button" | "buttonContainer", string>;
 waitFor(["buttonContainer", "channelTextArea"], m => ChannelTextAreaClasses = m);
@@ -80,7 +82,7 @@ export interface ChatBarProps {
 }
 
 export type ChatBarButtonFactory = (props: ChatBarProps & { isMainChat: boolean; isAnyChat: boolean; }) => JSX.Element | null;
-export type ChatBarButtonData = {
+export type ChatBarButtonData = UIElementData & {
     render: ChatBarButtonFactory;
     /**
      * This icon is used only for Settings UI. Your render function must still render an icon,
@@ -95,19 +97,54 @@ export type ChatBarButtonData = {
 export const ChatBarButtonMap = new Map<string, ChatBarButtonData>();
 const logger = new Logger("ChatButtons");
 
+function renderButtons(buttons: Array<[string, ChatBarButtonData]>, props: ChatBarProps) {
+    const { analyticsName } = props.type;
+
+    return buttons.map(([key, { render: Button }]) => (
+        <ErrorBoundary noop key={key} onError={e => logger.error(`Failed to render ${key}`, e.error)}>
+            <Button {...props} isMainChat={analyticsName === "normal"} isAnyChat={["normal", "sidebar"].includes(analyticsName)} />
+        </ErrorBoundary>
+    ));
+}
+
+function OverflowButton({ buttons, props }: { buttons: Array<[string, ChatBarButtonData]>; props: ChatBarProps; }) {
+    const buttonRef = useRef<HTMLDivElement>(null);
+    const [show, setShow] = useState(false);
+
+    return (
+        <Popout
+            position="top"
+            align="right"
+            animation={Popout.Animation.NONE}
+            shouldShow={show}
+            onRequestClose={() => setShow(false)}
+            targetElementRef={buttonRef}
+            renderPopout={() => (
+                <div className="vc-chatbar-overflow-popout">
+                    {renderButtons(buttons, props)}
+                </div>
+            )}
+        >
+            {() => (
+                <div ref={buttonRef} className="vc-chatbar-overflow">
+                    <ChatBarButton tooltip="More Buttons" onClick={() => setShow(v => !v)}>
+                        <MoreHorizontalIcon />
+                    </ChatBarButton>
+                </div>
+            )}
+        </Popout>
+    );
+}
+
 function VencordChatBarButtons(props: ChatBarProps) {
     const { chatBarButtons } = useSettings(["uiElements.chatBarButtons.*"]).uiElements;
 
-    const { analyticsName } = props.type;
+    const { shown, overflow } = splitUIElements(sortUIElements(ChatBarButtonMap, chatBarButtons), chatBarButtons);
+
     return (
         <>
-            {Array.from(ChatBarButtonMap)
-                .filter(([key]) => chatBarButtons[key]?.enabled !== false)
-                .map(([key, { render: Button }]) => (
-                    <ErrorBoundary noop key={key} onError={e => logger.error(`Failed to render ${key}`, e.error)}>
-                        <Button {...props} isMainChat={analyticsName === "normal"} isAnyChat={["normal", "sidebar"].includes(analyticsName)} />
-                    </ErrorBoundary>
-                ))}
+            {renderButtons(shown, props)}
+            {overflow.length > 0 && <OverflowButton buttons={overflow} props={props} />}
         </>
     );
 }
@@ -124,7 +161,8 @@ export function _injectButtons(buttons: ReactNode[], props: ChatBarProps) {
  * The icon argument is used only for Settings UI. Your render function must still render an icon,
  * and it can be different from this one.
  */
-export const addChatBarButton = (id: string, render: ChatBarButtonFactory, icon: IconComponent) => ChatBarButtonMap.set(id, { render, icon });
+export const addChatBarButton = (id: string, render: ChatBarButtonFactory, icon: IconComponent, options?: UIElementData) =>
+    ChatBarButtonMap.set(id, { render, icon, label: options?.label, priority: options?.priority });
 export const removeChatBarButton = (id: string) => ChatBarButtonMap.delete(id);
 
 export interface ChatBarButtonProps {
@@ -164,7 +202,7 @@ export const ChatBarButton = ErrorBoundary.wrap((props: ChatBarButtonProps) => {
 addContextMenuPatch("textarea-context", (children, args) => {
     const { chatBarButtons } = useSettings(["uiElements.chatBarButtons.*"]).uiElements;
 
-    const buttons = Array.from(ChatBarButtonMap.entries());
+    const buttons = sortUIElements(ChatBarButtonMap, chatBarButtons);
     if (!buttons.length) return;
 
     const group = findGroupChildrenByChildId("submit-button", children);
@@ -175,9 +213,9 @@ addContextMenuPatch("textarea-context", (children, args) => {
 
     group.splice(idx, 0,
         <Menu.MenuItem id="vc-chat-buttons" key="vencord-chat-buttons" label="Vencord Buttons">
-            {buttons.map(([id]) => (
+            {buttons.map(([id, { label }]) => (
                 <Menu.MenuCheckboxItem
-                    label={id}
+                    label={label ?? id}
                     key={id}
                     id={`vc-chat-button-${id}`}
                     checked={chatBarButtons[id]?.enabled !== false}
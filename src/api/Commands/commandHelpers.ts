@@ -17,11 +17,13 @@
 */
 
 import { mergeDefaults } from "@utils/mergeDefaults";
-import { CommandArgument, Message } from "@vencord/discord-types";
+import { Channel, CommandArgument, CommandContext, Message, Role, User } from "@vencord/discord-types";
 import { findByCodeLazy } from "@webpack";
-import { MessageActions, SnowflakeUtils } from "@webpack/common";
+import { ChannelStore, GuildRoleStore, MessageActions, SnowflakeUtils, UserStore } from "@webpack/common";
 import type { PartialDeep } from "type-fest";
 
+import { ApplicationCommandOptionType, VencordCommandOption } from "./types";
+
 const createBotMessage = findByCodeLazy('username:"Clyde"');
 
 export function generateId() {
@@ -54,3 +56,125 @@ export function findOption<T>(args: CommandArgument[], name: string, fallbackVal
 export function findOption(args: CommandArgument[], name: string, fallbackValue?: any) {
     return (args.find(a => a.name === name)?.value ?? fallbackValue) as any;
 }
+
+/**
+ * Get the invoked sub-command of a command with sub-commands or sub-command groups
+ * @param args Arguments array (first argument passed to execute)
+ * @returns The names leading to the sub-command, like `["group", "subcommand"]`, and the sub-command's options
+ */
+export function getSubCommand(args: CommandArgument[]) {
+    const path = [] as string[];
+
+    let options = args;
+    while (options[0]?.type === ApplicationCommandOptionType.SUB_COMMAND_GROUP || options[0]?.type === ApplicationCommandOptionType.SUB_COMMAND) {
+        path.push(options[0].name);
+        options = options[0].options ?? [];
+    }
+
+    return { path, options };
+}
+
+export type CommandOptionValue = string | number | boolean | User | Channel | Role;
+
+/**
+ * Convert the raw value of an argument to the type of its option, resolving users, channels and roles
+ * @returns The value, or undefined if it can't be converted or resolved
+ */
+function resolveOptionValue(arg: CommandArgument, ctx: CommandContext): CommandOptionValue | undefined {
+    const { value } = arg;
+
+    switch (arg.type) {
+        case ApplicationCommandOptionType.INTEGER:
+        case ApplicationCommandOptionType.NUMBER: {
+            const number = Number(value);
+            if (Number.isNaN(number)) return undefined;
+            if (arg.type === ApplicationCommandOptionType.INTEGER && !Number.isInteger(number)) return undefined;
+            return number;
+        }
+        case ApplicationCommandOptionType.BOOLEAN:
+            return typeof value === "boolean" ? value : value === "true";
+        case ApplicationCommandOptionType.USER:
+            return UserStore.getUser(value) ?? undefined;
+        case ApplicationCommandOptionType.CHANNEL:
+            return ChannelStore.getChannel(value) ?? undefined;
+        case ApplicationCommandOptionType.ROLE:
+            return ctx.guild ? GuildRoleStore.getRole(ctx.guild.id, value) ?? undefined : undefined;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Check arguments against the constraints of their options
+ * @param options The options of the command or sub-command
+ * @param args Arguments array (first argument passed to execute)
+ * @returns An error message, or null if all arguments are valid
+ */
+export function validateOptions(options: VencordCommandOption[] | undefined, args: CommandArgument[], ctx: CommandContext): string | null {
+    if (!options) return null;
+
+    const { options: optionArgs } = getSubCommand(args);
+
+    for (const option of options) {
+        const arg = optionArgs.find(a => a.name === option.name);
+        if (arg?.value == null || arg.value === "") {
+            if (option.required) return `The option \`${option.name}\` is required`;
+            continue;
+        }
+
+        const value = resolveOptionValue(arg, ctx);
+        const error = (() => {
+            switch (option.type) {
+                case ApplicationCommandOptionType.STRING: {
+                    const { length } = value as string;
+                    if (option.minLength != null && length < option.minLength) return `must be at least ${option.minLength} characters long`;
+                    if (option.maxLength != null && length > option.maxLength) return `must be at most ${option.maxLength} characters long`;
+                    if (option.pattern) {
+                        // Global and sticky patterns keep their lastIndex between tests
+                        option.pattern.lastIndex = 0;
+                        if (!option.pattern.test(value as string)) return `must match ${option.pattern}`;
+                    }
+                    if (option.choices?.length && !option.choices.some(c => c.value === value))
+                        return `must be one of ${option.choices.map(c => `\`${c.value}\``).join(", ")}`;
+                    return null;
+                }
+                case ApplicationCommandOptionType.INTEGER:
+                case ApplicationCommandOptionType.NUMBER:
+                    if (value === undefined) return option.type === ApplicationCommandOptionType.INTEGER ? "must be a whole number" : "must be a number";
+                    if (option.minValue != null && (value as number) < option.minValue) return `must be at least ${option.minValue}`;
+                    if (option.maxValue != null && (value as number) > option.maxValue) return `must be at most ${option.maxValue}`;
+                    return null;
+                case ApplicationCommandOptionType.USER:
+                    return value === undefined ? "must be a known user" : null;
+                case ApplicationCommandOptionType.CHANNEL:
+                    return value === undefined ? "must be a known channel" : null;
+                case ApplicationCommandOptionType.ROLE:
+                    return value === undefined ? "must be a role of this server" : null;
+                default:
+                    return null;
+            }
+        })();
+
+        if (error) return `The option \`${option.name}\` ${error}`;
+    }
+
+    return null;
+}
+
+/**
+ * Get the values of all arguments as an object, converted to the types of their options.
+ * Users, channels and roles are resolved to their objects. Arguments of sub-commands are used if a sub-command was invoked
+ *
+ * @param args Arguments array (first argument passed to execute)
+ * @param ctx Context of the command (second argument passed to execute)
+ * @example const { "tag-name": name, silent } = parseOptions<{ "tag-name": string; silent?: boolean; }>(args, ctx);
+ */
+export function parseOptions<T extends Record<string, CommandOptionValue | undefined>>(args: CommandArgument[], ctx: CommandContext): T {
+    const values = {} as Record<string, CommandOptionValue | undefined>;
+
+    for (const arg of getSubCommand(args).options) {
+        values[arg.name] = resolveOptionValue(arg, ctx);
+    }
+
+    return values as T;
+}
@@ -19,13 +19,16 @@
 import { Logger } from "@utils/Logger";
 import { makeCodeblock } from "@utils/text";
 import { CommandArgument, CommandContext, CommandOption } from "@vencord/discord-types";
+import { FluxDispatcher, SnowflakeUtils } from "@webpack/common";
 
-import { sendBotMessage } from "./commandHelpers";
-import { ApplicationCommandInputType, ApplicationCommandOptionType, ApplicationCommandType, VencordCommand } from "./types";
+import { sendBotMessage, validateOptions } from "./commandHelpers";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, ApplicationCommandType, CommandAutocompleteChoice, VencordCommand, VencordCommandOption } from "./types";
 
 export * from "./commandHelpers";
 export * from "./types";
 
+const logger = new Logger("CommandsAPI");
+
 export let BUILT_IN: VencordCommand[];
 export const commands = {} as Record<string, VencordCommand>;
 
@@ -57,7 +60,7 @@ export const _init = function (cmds: VencordCommand[]) {
         RequiredMessageOption = cmds.find(c => (c.untranslatedName || c.displayName) === "me")!.options![0];
         commandIdOffset = Math.abs(BUILT_IN.map(x => Number(x.id)).sort((x, y) => x - y)[0]) - BUILT_IN.length;
     } catch (e) {
-        new Logger("CommandsAPI").error("Failed to load CommandsApi", e, " - cmds is", cmds);
+        logger.error("Failed to load CommandsApi", e, " - cmds is", cmds);
     }
     return cmds;
 } as never;
@@ -80,6 +83,17 @@ export const _handleCommand = function (cmd: VencordCommand, args: CommandArgume
         });
     };
 
+    const validationError = validateOptions(cmd.options, args, ctx);
+    if (validationError) {
+        sendBotMessage(ctx.channel.id, {
+            content: `Invalid arguments for command "${cmd.name}": ${validationError}`,
+            author: {
+                username: "Vencord"
+            }
+        });
+        return;
+    }
+
     try {
         const res = cmd.execute(args, ctx);
         return res instanceof Promise ? res.catch(handleError) : res;
@@ -88,6 +102,52 @@ export const _handleCommand = function (cmd: VencordCommand, args: CommandArgume
     }
 } as never;
 
+/**
+ * Execute a command with the given arguments, checking them against its options first like {@link _handleCommand} does
+ * @throws If the arguments are invalid
+ */
+export function executeCommand(cmd: VencordCommand, args: CommandArgument[], ctx: CommandContext) {
+    const validationError = validateOptions(cmd.options, args, ctx);
+    if (validationError) throw new Error(`Invalid arguments for command "${cmd.name}": ${validationError}`);
+
+    return cmd.execute(args, ctx);
+}
+
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+/**
+ * Answer autocomplete requests for Vencord commands locally instead of sending an interaction to Discord
+ * @returns Whether the request was handled
+ */
+export const _handleAutocomplete = function (cmd: VencordCommand, ctx: CommandContext, focused: { name: string; query: string; }) {
+    if (!cmd.isVencordCommand) return false;
+
+    const option = cmd.options?.find(o => o.name === focused.name);
+    const nonce = SnowflakeUtils.fromTimestamp(Date.now());
+
+    FluxDispatcher.dispatch({
+        type: "APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST",
+        nonce,
+        channelId: ctx.channel.id,
+        query: focused.query,
+        name: focused.name
+    });
+
+    const respond = (choices: CommandAutocompleteChoice[]) => FluxDispatcher.dispatch({
+        type: "APPLICATION_COMMAND_AUTOCOMPLETE_RESPONSE",
+        nonce,
+        choices: choices.slice(0, MAX_AUTOCOMPLETE_CHOICES).map(c => ({ ...c, displayName: c.name }))
+    });
+
+    Promise.resolve()
+        .then(() => option?.autocomplete?.(ctx, { name: focused.name, value: focused.query ?? "" }) ?? [])
+        .then(respond, e => {
+            logger.error(`Failed to autocomplete option ${focused.name} of command ${cmd.name}\n`, e);
+            respond([]);
+        });
+
+    return true;
+} as never;
 
 /**
  * Prepare a Command Option for Discord by filling missing fields
@@ -108,29 +168,43 @@ export function prepareOption<O extends CommandOption | VencordCommand>(opt: O):
 }
 
 // Yes, Discord registers individual commands for each subcommand
-// TODO: This probably doesn't support nested subcommands. If that is ever needed,
-// investigate
-function registerSubCommands(cmd: VencordCommand, plugin: string) {
-    cmd.options?.forEach(o => {
-        if (o.type !== ApplicationCommandOptionType.SUB_COMMAND)
-            throw new Error("When specifying sub-command options, all options must be sub-commands.");
-        const subCmd = {
-            ...cmd,
-            ...o,
-            options: o.options !== undefined ? o.options : undefined,
-            type: ApplicationCommandType.CHAT_INPUT,
-            name: `${cmd.name} ${o.name}`,
-            id: `${o.name}-${cmd.id}`,
-            displayName: `${cmd.name} ${o.name}`,
-            subCommandPath: [{
-                name: o.name,
-                type: o.type,
-                displayName: o.name
-            }],
-            rootCommand: cmd
-        };
-        registerCommand(subCmd as any, plugin);
-    });
+function registerSubCommands(cmd: VencordCommand, plugin: string, options = cmd.options!, path = [] as VencordCommandOption[]) {
+    for (const o of options) {
+        switch (o.type) {
+            case ApplicationCommandOptionType.SUB_COMMAND_GROUP:
+                if (path.length)
+                    throw new Error("Sub-command groups can't be nested in other sub-command groups.");
+                if (!o.options?.length || o.options.some(s => s.type !== ApplicationCommandOptionType.SUB_COMMAND))
+                    throw new Error("Sub-command groups must only contain sub-commands.");
+
+                registerSubCommands(cmd, plugin, o.options, [o]);
+                break;
+            case ApplicationCommandOptionType.SUB_COMMAND: {
+                const subCommandPath = [...path, o];
+                const name = [cmd.name, ...subCommandPath.map(p => p.name)].join(" ");
+
+                const subCmd = {
+                    ...cmd,
+                    ...o,
+                    options: o.options !== undefined ? o.options : undefined,
+                    type: ApplicationCommandType.CHAT_INPUT,
+                    name,
+                    id: `${subCommandPath.map(p => p.name).join("-")}-${cmd.id}`,
+                    displayName: name,
+                    subCommandPath: subCommandPath.map(p => ({
+                        name: p.name,
+                        type: p.type,
+                        displayName: p.name
+                    })),
+                    rootCommand: cmd
+                };
+                registerCommand(subCmd as any, plugin);
+                break;
+            }
+            default:
+                throw new Error("When specifying sub-command options, all options must be sub-commands or sub-command groups.");
+        }
+    }
 }
 
 export function registerCommand<C extends VencordCommand>(command: C, plugin: string) {
@@ -157,7 +231,8 @@ export function registerCommand<C extends VencordCommand>(command: C, plugin: st
 
     prepareOption(command);
 
-    if (command.options?.[0]?.type === ApplicationCommandOptionType.SUB_COMMAND) {
+    const firstOptionType = command.options?.[0]?.type;
+    if (firstOptionType === ApplicationCommandOptionType.SUB_COMMAND || firstOptionType === ApplicationCommandOptionType.SUB_COMMAND_GROUP) {
         registerSubCommands(command, plugin);
         return;
     }
@@ -167,12 +242,17 @@ export function registerCommand<C extends VencordCommand>(command: C, plugin: st
 }
 
 export function unregisterCommand(name: string) {
-    const idx = BUILT_IN.findIndex(c => c.name === name);
-    if (idx === -1)
+    // Commands with sub-commands are registered as one command per sub-command
+    const isMatch = (c: VencordCommand) => c.name === name || (c.isVencordCommand && c.rootCommand?.name === name);
+    if (!BUILT_IN.some(isMatch))
         return false;
 
-    BUILT_IN.splice(idx, 1);
-    delete commands[name];
+    for (let i = BUILT_IN.length - 1; i >= 0; i--) {
+        if (!isMatch(BUILT_IN[i])) continue;
+
+        delete commands[BUILT_IN[i].name];
+        BUILT_IN.splice(i, 1);
+    }
 
     return true;
 }
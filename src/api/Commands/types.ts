@@ -4,9 +4,44 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { Command } from "@vencord/discord-types";
+import { Command, CommandContext, CommandOption } from "@vencord/discord-types";
+import { Promisable } from "type-fest";
 export { ApplicationCommandInputType, ApplicationCommandOptionType, ApplicationCommandType } from "@vencord/discord-types/enums";
 
+export interface CommandAutocompleteChoice {
+    name: string;
+    value: string | number;
+}
+
+export interface FocusedCommandOption {
+    name: string;
+    /** What the user typed so far */
+    value: string;
+}
+
+export interface VencordCommandOption extends CommandOption {
+    options?: VencordCommandOption[];
+    /** Smallest allowed value of INTEGER and NUMBER options */
+    minValue?: number;
+    /** Largest allowed value of INTEGER and NUMBER options */
+    maxValue?: number;
+    /** Minimum length of STRING options */
+    minLength?: number;
+    /** Maximum length of STRING options */
+    maxLength?: number;
+    /** Pattern STRING options have to match */
+    pattern?: RegExp;
+    /**
+     * Suggest values while the user types this option. Discord shows at most 25 suggestions
+     */
+    autocomplete?(ctx: CommandContext, focusedOption: FocusedCommandOption): Promisable<CommandAutocompleteChoice[]>;
+}
+
 export interface VencordCommand extends Command {
     isVencordCommand?: boolean;
+    options?: VencordCommandOption[];
+    /** The command a sub-command was registered from */
+    rootCommand?: VencordCommand;
+    /** The sub-command groups and sub-command a sub-command was registered for */
+    subCommandPath?: Array<Pick<CommandOption, "name" | "type" | "displayName">>;
 }
@@ -0,0 +1,213 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings, SettingsStore } from "@api/Settings";
+import { insertTextIntoChatInputBox, sendMessage } from "@utils/discord";
+import { Logger } from "@utils/Logger";
+import { CommandArgument, CommandContext } from "@vencord/discord-types";
+
+import { BUILT_IN, executeCommand, registerCommand, unregisterCommand } from ".";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, VencordCommand } from "./types";
+
+/** Name user commands are registered under, shown instead of a plugin name in the command list */
+export const USER_COMMANDS_PLUGIN = "UserCommands";
+
+export const USER_COMMAND_NAME_REGEX = /^[-_\p{L}\p{N}]{1,32}$/u;
+
+export interface UserCommandAlias {
+    type: "alias";
+    description: string;
+    /** Name of the command to run, including sub-commands like `tags preview` */
+    command: string;
+    /** Option values passed to the command. Options which aren't prefilled can still be entered by the user */
+    args: Record<string, string>;
+}
+
+export type UserCommandMacroStep =
+    | { type: "send"; text: string; }
+    | { type: "insert"; text: string; }
+    | { type: "command"; command: string; args: Record<string, string>; };
+
+export interface UserCommandMacro {
+    type: "macro";
+    description: string;
+    steps: UserCommandMacroStep[];
+}
+
+export type UserCommand = UserCommandAlias | UserCommandMacro;
+
+const logger = new Logger("UserCommands");
+
+const registeredNames = new Set<string>();
+
+function findCommand(name: string) {
+    return BUILT_IN?.find(c => c.name === name || c.untranslatedName === name);
+}
+
+/**
+ * Convert a prefilled value to the type Discord passes for the option type, as the values are always stored as strings
+ * @throws If the value is not valid for the option type
+ */
+function convertOptionValue(command: VencordCommand, name: string, type: ApplicationCommandOptionType, value: unknown) {
+    if (typeof value !== "string") return value;
+
+    switch (type) {
+        case ApplicationCommandOptionType.INTEGER:
+        case ApplicationCommandOptionType.NUMBER: {
+            const number = Number(value);
+            if (!value.trim() || Number.isNaN(number)) throw new Error(`The value of the option \`${name}\` of /${command.name} must be a number, not \`${value}\``);
+            return number;
+        }
+        case ApplicationCommandOptionType.BOOLEAN:
+            if (value !== "true" && value !== "false") throw new Error(`The value of the option \`${name}\` of /${command.name} must be \`true\` or \`false\`, not \`${value}\``);
+            return value === "true";
+        default:
+            return value;
+    }
+}
+
+function makeArgs(command: VencordCommand, values: Record<string, unknown>): CommandArgument[] {
+    let args = Object.entries(values).map(([name, value]) => {
+        const type = command.options?.find(o => o.name === name)?.type ?? ApplicationCommandOptionType.STRING;
+        return { type, name, value: convertOptionValue(command, name, type, value) } as CommandArgument;
+    });
+
+    // Sub-commands expect their options to be nested in the sub-command (group) arguments
+    for (const { name, type } of command.subCommandPath?.toReversed() ?? []) {
+        args = [{ type, name, options: args } as CommandArgument];
+    }
+
+    return args;
+}
+
+export const formatCommandPath = (names: Iterable<string>) => Array.from(names, name => `/${name}`).join(" → ");
+
+/**
+ * Find user commands which run themselves, directly or through other user commands
+ * @returns The names of the commands in the first cycle found, starting and ending with the same command, or null if there is none
+ */
+export function findUserCommandCycle(commands: Record<string, UserCommand>) {
+    const getTargets = (userCommand: UserCommand) => userCommand.type === "alias"
+        ? [userCommand.command]
+        : userCommand.steps.flatMap(step => step.type === "command" ? [step.command] : []);
+
+    const checked = new Set<string>();
+
+    function visit(name: string, path: string[]): string[] | null {
+        if (path.includes(name)) return [...path.slice(path.indexOf(name)), name];
+        if (checked.has(name) || !Object.hasOwn(commands, name)) return null;
+
+        for (const target of getTargets(commands[name])) {
+            const cycle = visit(target, [...path, name]);
+            if (cycle) return cycle;
+        }
+
+        checked.add(name);
+        return null;
+    }
+
+    for (const name in commands) {
+        const cycle = visit(name, []);
+        if (cycle) return cycle;
+    }
+
+    return null;
+}
+
+/**
+ * Run a user command directly instead of through its registered command, so the user commands it's run by are known
+ * @param running The user commands which are running this one
+ */
+function runUserCommand(name: string, userCommand: UserCommand, values: Record<string, unknown>, ctx: CommandContext, running: Set<string>) {
+    if (running.has(name)) throw new Error(`${formatCommandPath([...running, name])} runs itself`);
+    running = new Set(running).add(name);
+
+    return userCommand.type === "macro"
+        ? runMacro(userCommand, ctx, running)
+        : runCommand(userCommand.command, { ...userCommand.args, ...values }, ctx, running);
+}
+
+function runCommand(name: string, values: Record<string, unknown>, ctx: CommandContext, running: Set<string>) {
+    if (registeredNames.has(name) && Object.hasOwn(Settings.userCommands, name)) {
+        return runUserCommand(name, Settings.userCommands[name], values, ctx, running);
+    }
+
+    const command = findCommand(name);
+    if (!command) throw new Error(`Command /${name} does not exist. Is the plugin providing it enabled?`);
+
+    return executeCommand(command, makeArgs(command, values), ctx);
+}
+
+async function runMacro({ steps }: UserCommandMacro, ctx: CommandContext, running: Set<string>) {
+    for (const step of steps) {
+        switch (step.type) {
+            case "send":
+                await sendMessage(ctx.channel.id, { content: step.text });
+                break;
+            case "insert":
+                insertTextIntoChatInputBox(step.text);
+                break;
+            case "command": {
+                const result = await runCommand(step.command, step.args, ctx, running);
+                // Text commands return the message they want to send instead of sending it
+                if (result?.content) await sendMessage(ctx.channel.id, { content: result.content });
+                break;
+            }
+        }
+    }
+}
+
+function makeCommand(name: string, userCommand: UserCommand): VencordCommand {
+    if (userCommand.type === "macro") {
+        return {
+            name,
+            description: userCommand.description || `Macro with ${userCommand.steps.length} steps`,
+            execute: (_, ctx) => runUserCommand(name, userCommand, {}, ctx, new Set())
+        };
+    }
+
+    // Only offer the options of the target command which aren't prefilled already.
+    // Commands registered after this one can't be inspected, so their aliases only support prefilled options
+    const target = findCommand(userCommand.command);
+    const options = target?.options
+        ?.filter(o => !(o.name in userCommand.args))
+        .map(o => ({ ...o }));
+
+    return {
+        name,
+        description: userCommand.description || `Alias for /${userCommand.command}`,
+        inputType: target?.inputType ?? ApplicationCommandInputType.BUILT_IN_TEXT,
+        options,
+        execute: (args, ctx) => runUserCommand(name, userCommand, Object.fromEntries(args.map(a => [a.name, a.value])), ctx, new Set())
+    };
+}
+
+export function registerUserCommands() {
+    for (const name of registeredNames) {
+        unregisterCommand(name);
+    }
+    registeredNames.clear();
+
+    for (const [name, userCommand] of Object.entries(Settings.userCommands)) {
+        if (!USER_COMMAND_NAME_REGEX.test(name)) {
+            logger.warn(`Skipping user command with invalid name ${name}`);
+            continue;
+        }
+
+        try {
+            registerCommand(makeCommand(name, userCommand), USER_COMMANDS_PLUGIN);
+            registeredNames.add(name);
+        } catch (e) {
+            logger.error(`Failed to register user command ${name}\n`, e);
+        }
+    }
+}
+
+export function initUserCommands() {
+    registerUserCommands();
+    // Also covers changes from settings sync
+    SettingsStore.addPrefixChangeListener("userCommands", registerUserCommands);
+}
@@ -16,9 +16,10 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { Settings } from "@api/Settings";
 import { Logger } from "@utils/Logger";
 import { Menu, React } from "@webpack/common";
-import type { ReactElement } from "react";
+import type { ComponentType, ReactElement, ReactNode } from "react";
 
 /**
  * @param children The rendered context menu elements
@@ -32,17 +33,55 @@ export type NavContextMenuPatchCallback = (children: Array<ReactElement<any> | n
  */
 export type GlobalContextMenuPatchCallback = (navId: string, children: Array<ReactElement<any> | null>, ...args: Array<any>) => void;
 
+export interface ContextMenuItem {
+    /** Should be unique, so prefix it with the name of your plugin */
+    id: string;
+    label: ReactNode;
+    icon?: ComponentType<any>;
+    color?: string;
+    disabled?: boolean;
+    /**
+     * The id(s) of an item in the group to add this item to. If an array is specified, all ids will be tried.
+     * If none of them exist or this is not set, the item is added to a group at the end of the context menu
+     */
+    group?: string | string[];
+    /** The id of an item in the same group to add this item before */
+    before?: string;
+    /** The id of an item in the same group to add this item after */
+    after?: string;
+    /**
+     * Whether to show the item
+     * @param args Any arguments passed into making the context menu, like the guild, channel, user or message for example
+     */
+    predicate?(...args: Array<any>): boolean;
+    action?(...args: Array<any>): void;
+    /** Items to show in a submenu */
+    children?: Array<Omit<ContextMenuItem, "group" | "before" | "after">>;
+}
+
+interface RegisteredContextMenuItem {
+    item: ContextMenuItem;
+    /** The name of the plugin which added the item */
+    owner: string;
+}
+
 const ContextMenuLogger = new Logger("ContextMenu");
 
 export const navPatches = new Map<string, Set<NavContextMenuPatchCallback>>();
 export const globalPatches = new Set<GlobalContextMenuPatchCallback>();
+export const navItems = new Map<string, Map<string, RegisteredContextMenuItem>>();
+/** The names of the plugins which added patches, so the items added by them can be listed */
+const patchOwners = new WeakMap<NavContextMenuPatchCallback, string>();
 
 /**
  * Add a context menu patch
  * @param navId The navId(s) for the context menu(s) to patch
  * @param patch The patch to be applied
+ * @param owner The name of the plugin adding the patch
  */
-export function addContextMenuPatch(navId: string | Array<string>, patch: NavContextMenuPatchCallback) {
+export function addContextMenuPatch(navId: string | Array<string>, patch: NavContextMenuPatchCallback, owner?: string) {
+    if (owner) patchOwners.set(patch, owner);
+
     if (!Array.isArray(navId)) navId = [navId];
     for (const id of navId) {
         let contextMenuPatches = navPatches.get(id);
@@ -86,6 +125,50 @@ export function removeGlobalContextMenuPatch(patch: GlobalContextMenuPatchCallba
     return globalPatches.delete(patch);
 }
 
+/**
+ * Add an item to context menus. Unlike patches, items are placed by the API, so the order doesn't depend on which plugin started first
+ * @param navId The navId(s) of the context menu(s) to add the item to
+ * @param item The item to add
+ * @param owner The name of the plugin adding the item
+ * @returns Whether the item was added. Fails if another plugin already added an item with the same id to the context menu(s)
+ */
+export function addContextMenuItem(navId: string | Array<string>, item: ContextMenuItem, owner: string) {
+    const navIds = Array.isArray(navId) ? navId : [navId];
+
+    for (const id of navIds) {
+        const existing = navItems.get(id)?.get(item.id);
+        if (existing && existing.owner !== owner) {
+            ContextMenuLogger.error(`${owner} tried to add the item ${item.id} to ${id}, but ${existing.owner} already added an item with that id`);
+            return false;
+        }
+    }
+
+    for (const id of navIds) {
+        let items = navItems.get(id);
+        if (!items) {
+            items = new Map();
+            navItems.set(id, items);
+        }
+
+        items.set(item.id, { item, owner });
+    }
+
+    return true;
+}
+
+/**
+ * Remove an item added with {@link addContextMenuItem}
+ * @param navId The navId(s) of the context menu(s) to remove the item from
+ * @param itemId The id of the item
+ * @param owner The name of the plugin which added the item. Items with the same id added by other plugins are kept
+ */
+export function removeContextMenuItem(navId: string | Array<string>, itemId: string, owner: string) {
+    for (const id of Array.isArray(navId) ? navId : [navId]) {
+        const items = navItems.get(id);
+        if (items?.get(itemId)?.owner === owner) items.delete(itemId);
+    }
+}
+
 /**
  * A helper function for finding the children array of a group nested inside a context menu based on the id(s) of its children
  * @param id The id of the child. If an array is specified, all ids will be tried
@@ -141,16 +224,33 @@ export function _usePatchContextMenu(props: ContextMenuProps) {
 
     if (!Array.isArray(props.children)) props.children = [props.children];
 
+    const sources = Settings.plugins.ContextMenuAPI?.showItemSources ? [] as ItemSource[] : null;
+
     if (contextMenuPatches) {
         for (const patch of contextMenuPatches) {
+            // Patches mutate the children, so the items they added are the ids which didn't exist before
+            const owner = sources && patchOwners.get(patch);
+            const idsBefore = owner ? collectItemIds(props.children) : null;
+
             try {
                 patch(props.children, ...props.contextMenuAPIArguments);
             } catch (err) {
                 ContextMenuLogger.error(`Patch for ${props.navId} errored,`, err);
             }
+
+            if (idsBefore) {
+                for (const id of collectItemIds(props.children)) {
+                    if (!idsBefore.has(id)) sources!.push({ id, owner: owner! });
+                }
+            }
         }
     }
 
+    const items = navItems.get(props.navId);
+    if (items?.size) insertContextMenuItems(props.children, items, props.contextMenuAPIArguments, sources);
+
+    if (sources?.length) addItemSources(props.children, sources);
+
     for (const patch of globalPatches) {
         try {
             patch(props.navId, props.children, ...props.contextMenuAPIArguments);
@@ -180,3 +280,113 @@ function cloneMenuChildren(obj: ReactElement<any> | Array<ReactElement<any> | nu
 
     return obj;
 }
+
+function isVisible(item: Pick<ContextMenuItem, "id" | "predicate">, args: Array<any>) {
+    try {
+        return item.predicate?.(...args) ?? true;
+    } catch (err) {
+        ContextMenuLogger.error(`Predicate of item ${item.id} errored,`, err);
+        return false;
+    }
+}
+
+function renderItem(item: Omit<ContextMenuItem, "group" | "before" | "after">, args: Array<any>): ReactElement<any> {
+    const { id, label, icon, color, disabled, action, children } = item;
+
+    return React.createElement(
+        Menu.MenuItem,
+        { id, key: id, label, icon, color, disabled, action: action && (() => action(...args)) },
+        children?.filter(child => isVisible(child, args)).map(child => renderItem(child, args))
+    );
+}
+
+/**
+ * Inserts the items into the context menu. Items are placed sorted by id, and items anchored to other items
+ * are placed once their anchor exists, so the result is the same no matter in which order they were added
+ */
+function insertContextMenuItems(children: Array<ReactElement<any> | null>, items: Map<string, RegisteredContextMenuItem>, args: Array<any>, sources: ItemSource[] | null) {
+    let fallbackGroup: Array<ReactElement<any>> | null = null;
+    const getFallbackGroup = () => {
+        if (!fallbackGroup) {
+            fallbackGroup = [];
+            children.push(React.createElement(Menu.MenuGroup, { key: "vc-context-menu-items" }, fallbackGroup));
+        }
+        return fallbackGroup;
+    };
+
+    const place = ({ item }: RegisteredContextMenuItem, requireAnchors: boolean) => {
+        const group = item.group != null
+            ? findGroupChildrenByChildId(item.group, children)
+            : null;
+        if (item.group != null && !group && requireAnchors) return false;
+
+        const target = group ?? getFallbackGroup();
+        const anchor = item.before ?? item.after;
+        const index = anchor != null ? target.findIndex(child => child?.props?.id === anchor) : -1;
+        if (anchor != null && index === -1 && requireAnchors) return false;
+
+        const element = renderItem(item, args);
+        if (index === -1) target.push(element);
+        else target.splice(item.before != null ? index : index + 1, 0, element);
+
+        return true;
+    };
+
+    let pending = [...items.values()]
+        .filter(({ item }) => isVisible(item, args))
+        .sort((a, b) => a.item.id.localeCompare(b.item.id));
+
+    // Items can be anchored to other items, so keep placing items until nothing changes
+    let placedAny = true;
+    while (pending.length && placedAny) {
+        const before = pending.length;
+        pending = pending.filter(item => !place(item, true));
+        placedAny = pending.length !== before;
+    }
+
+    // Anchors which don't exist, for example because Discord removed them, fall back to the end of the group or menu
+    for (const item of pending) {
+        ContextMenuLogger.debug(`Anchor of item ${item.item.id} was not found, adding it to the end instead`);
+        place(item, false);
+    }
+
+    if (sources) {
+        for (const { item, owner } of items.values()) {
+            if (isVisible(item, args)) sources.push({ id: item.id, owner });
+        }
+    }
+}
+
+interface ItemSource {
+    id: string;
+    /** The name of the plugin which added the item */
+    owner: string;
+}
+
+function collectItemIds(children: unknown, ids = new Set<string>()) {
+    if (Array.isArray(children)) {
+        for (const child of children) collectItemIds(child, ids);
+    } else if (React.isValidElement<any>(children)) {
+        if (typeof children.props.id === "string") ids.add(children.props.id);
+        collectItemIds(children.props.children, ids);
+    }
+
+    return ids;
+}
+
+function addItemSources(children: Array<ReactElement<any> | null>, sources: ItemSource[]) {
+    const items = sources
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(({ id, owner }) => React.createElement(Menu.MenuItem, {
+            id: `vc-item-source-${owner}-${id}`,
+            key: `${owner}-${id}`,
+            label: `${id} (${owner})`,
+            disabled: true
+        }));
+
+    children.push(React.createElement(
+        Menu.MenuGroup,
+        { key: "vc-context-menu-item-sources" },
+        React.createElement(Menu.MenuItem, { id: "vc-item-sources", label: "Plugin Items" }, items)
+    ));
+}
@@ -16,10 +16,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import ErrorBoundary from "@components/ErrorBoundary";
 import { Channel, User } from "@vencord/discord-types";
 import { JSX } from "react";
 
+import { renderMeasured } from "./RenderBudget";
+
 interface DecoratorProps {
     type: "guild" | "dm";
     user: User;
@@ -49,11 +50,7 @@ export function __getDecorators(props: DecoratorProps, type: "guild" | "dm"): JS
             if ((onlyIn === "guilds" && type !== "guild") || (onlyIn === "dms" && type !== "dm"))
                 return null;
 
-            return (
-                <ErrorBoundary noop key={key} message={`Failed to render ${key} Member List Decorator`}>
-                    <Decorator {...props} type={type} />
-                </ErrorBoundary>
-            );
+            return renderMeasured("MemberListDecorator", key, Decorator, { ...props, type }, `Failed to render ${key} Member List Decorator`);
         }
     );
 
@@ -16,9 +16,10 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import ErrorBoundary from "@components/ErrorBoundary";
 import { JSX, ReactNode } from "react";
 
+import { renderMeasured } from "./RenderBudget";
+
 export type MessageAccessoryFactory = (props: Record<string, any>) => ReactNode;
 export type MessageAccessory = {
     render: MessageAccessoryFactory;
@@ -47,11 +48,8 @@ export function _modifyAccessories(
     props: Record<string, any>
 ) {
     for (const [key, accessory] of accessories.entries()) {
-        const res = (
-            <ErrorBoundary noop message={`Failed to render ${key} Message Accessory`} key={key}>
-                <accessory.render {...props} />
-            </ErrorBoundary>
-        );
+        const res = renderMeasured("MessageAccessory", key, accessory.render, props, `Failed to render ${key} Message Accessory`);
+        if (!res) continue;
 
         elements.splice(
             accessory.position != null
@@ -16,10 +16,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import ErrorBoundary from "@components/ErrorBoundary";
 import { Channel, Message } from "@vencord/discord-types";
 import { JSX } from "react";
 
+import { renderMeasured } from "./RenderBudget";
+
 export interface MessageDecorationProps {
     author: {
         /**
@@ -61,11 +62,7 @@ export function removeMessageDecoration(identifier: string) {
 export function __addDecorationsToMessage(props: MessageDecorationProps): JSX.Element {
     const decorations = Array.from(
         decorationsFactories.entries(),
-        ([key, Decoration]) => (
-            <ErrorBoundary noop message={`Failed to render ${key} Message Decoration`} key={key}>
-                <Decoration {...props} />
-            </ErrorBoundary>
-        )
+        ([key, decoration]) => renderMeasured("MessageDecoration", key, decoration, props, `Failed to render ${key} Message Decoration`)
     );
 
     return (
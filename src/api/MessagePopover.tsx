@@ -17,12 +17,15 @@
 */
 
 import ErrorBoundary from "@components/ErrorBoundary";
+import { MoreHorizontalIcon } from "@components/Icons";
 import { Logger } from "@utils/Logger";
 import { IconComponent } from "@utils/types";
 import { Channel, Message } from "@vencord/discord-types";
-import type { ComponentType, MouseEventHandler } from "react";
+import { ChannelStore, ContextMenuApi, FluxDispatcher, Menu } from "@webpack/common";
+import type { ComponentType, MouseEvent, MouseEventHandler } from "react";
 
 import { useSettings } from "./Settings";
+import { sortUIElements, splitUIElements, UIElementData } from "./UIElements";
 
 const logger = new Logger("MessagePopover");
 
@@ -37,7 +40,7 @@ export interface MessagePopoverButtonItem {
 }
 
 export type MessagePopoverButtonFactory = (message: Message) => MessagePopoverButtonItem | null;
-export type MessagePopoverButtonData = {
+export type MessagePopoverButtonData = UIElementData & {
     render: MessagePopoverButtonFactory;
     /**
      * This icon is used only for Settings UI. Your render function must still return an icon,
@@ -55,38 +58,77 @@ export const MessagePopoverButtonMap = new Map<string, MessagePopoverButtonData>
 export function addMessagePopoverButton(
     identifier: string,
     render: MessagePopoverButtonFactory,
-    icon: IconComponent
+    icon: IconComponent,
+    options?: UIElementData
 ) {
-    MessagePopoverButtonMap.set(identifier, { render, icon });
+    MessagePopoverButtonMap.set(identifier, { render, icon, label: options?.label, priority: options?.priority });
 }
 
 export function removeMessagePopoverButton(identifier: string) {
     MessagePopoverButtonMap.delete(identifier);
 }
 
+function renderItems(buttons: Array<[string, MessagePopoverButtonData]>, message: Message) {
+    return buttons.flatMap(([key, { render }]) => {
+        try {
+            // FIXME: this should use proper React to ensure hooks work
+            const item = render(message);
+            return item ? [[key, item] as const] : [];
+        } catch (err) {
+            logger.error(`[${key}]`, err);
+            return [];
+        }
+    });
+}
+
+function openOverflowMenu(e: MouseEvent, buttons: Array<[string, MessagePopoverButtonData]>, message: Message) {
+    const items = renderItems(buttons, message);
+
+    ContextMenuApi.openContextMenu(e, () => (
+        <Menu.Menu
+            navId="vc-message-popover-overflow"
+            onClose={() => FluxDispatcher.dispatch({ type: "CONTEXT_MENU_CLOSE" })}
+            aria-label="More Message Buttons"
+        >
+            {items.map(([key, item]) => (
+                <Menu.MenuItem
+                    id={`vc-message-popover-${key}`}
+                    key={key}
+                    label={item.label}
+                    icon={item.icon}
+                    action={e => item.onClick?.(e as MouseEvent<HTMLButtonElement>)}
+                />
+            ))}
+        </Menu.Menu>
+    ));
+}
+
 function VencordPopoverButtons(props: { Component: React.ComponentType<MessagePopoverButtonItem>, message: Message; }) {
     const { Component, message } = props;
 
     const { messagePopoverButtons } = useSettings(["uiElements.messagePopoverButtons.*"]).uiElements;
 
-    const elements = Array.from(MessagePopoverButtonMap.entries())
-        .filter(([key]) => messagePopoverButtons[key]?.enabled !== false)
-        .map(([key, { render }]) => {
-            try {
-                // FIXME: this should use proper React to ensure hooks work
-                const item = render(message);
-                if (!item) return null;
-
-                return (
-                    <ErrorBoundary noop>
-                        <Component key={key} {...item} />
-                    </ErrorBoundary>
-                );
-            } catch (err) {
-                logger.error(`[${key}]`, err);
-                return null;
-            }
-        });
+    const { shown, overflow } = splitUIElements(sortUIElements(MessagePopoverButtonMap, messagePopoverButtons), messagePopoverButtons);
+
+    const elements = renderItems(shown, message).map(([key, item]) => (
+        <ErrorBoundary noop key={key}>
+            <Component {...item} />
+        </ErrorBoundary>
+    ));
+
+    if (overflow.length) {
+        elements.push(
+            <ErrorBoundary noop key="vc-overflow">
+                <Component
+                    label="More Buttons"
+                    icon={MoreHorizontalIcon}
+                    message={message}
+                    channel={ChannelStore.getChannel(message.channel_id)}
+                    onClick={e => openOverflowMenu(e, overflow, message)}
+                />
+            </ErrorBoundary>
+        );
+    }
 
     return <>{elements}</>;
 }
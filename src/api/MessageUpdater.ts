@@ -4,8 +4,9 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { useForceUpdater } from "@utils/react";
 import { Message } from "@vencord/discord-types";
-import { MessageCache, MessageStore } from "@webpack/common";
+import { MessageCache, MessageStore, useEffect } from "@webpack/common";
 
 /**
  * Update and re-render a message
@@ -14,15 +15,172 @@ import { MessageCache, MessageStore } from "@webpack/common";
  * @param fields The fields of the message to change. Leave empty if you just want to re-render
  */
 export function updateMessage(channelId: string, messageId: string, fields?: Partial<Message & Record<string, any>>) {
-    const channelMessageCache = MessageCache.getOrCreate(channelId);
-    if (!channelMessageCache.has(messageId)) return;
+    if (applyMessageUpdates(channelId, [[messageId, fields]])) {
+        MessageStore.emitChange();
+    }
+}
+
+/**
+ * Update messages of a channel in the message cache, without emitting a change
+ * @returns Whether any of the messages was loaded and updated
+ */
+function applyMessageUpdates(channelId: string, updates: Iterable<[messageId: string, fields: MessageUpdate["fields"]]>) {
+    let channelMessageCache = MessageCache.getOrCreate(channelId);
+    let updated = false;
+
+    for (const [messageId, fields] of updates) {
+        if (!channelMessageCache.has(messageId)) continue;
+
+        // To cause a message to re-render, we basically need to create a new instance of the message and obtain a new reference
+        // If we have fields to modify we can use the merge method of the class, otherwise we just create a new instance with the old fields
+        channelMessageCache = channelMessageCache.update(messageId, (oldMessage: any) => {
+            return fields ? oldMessage.merge(fields) : new oldMessage.constructor(oldMessage);
+        });
+        updated = true;
+    }
+
+    // Committing would store caches getOrCreate made for channels without loaded messages
+    if (updated) MessageCache.commit(channelMessageCache);
+    return updated;
+}
+
+export interface MessageUpdate {
+    channelId: string;
+    messageId: string;
+    /** The fields of the message to change. Leave empty if you just want to re-render */
+    fields?: Partial<Message & Record<string, any>>;
+}
+
+/** Pending updates by channel id and message id. Fields of multiple updates to the same message are merged */
+const pendingUpdates = new Map<string, Map<string, MessageUpdate["fields"]>>();
+let flushPromise: Promise<void> | null = null;
+
+function flushUpdates() {
+    flushPromise = null;
 
-    // To cause a message to re-render, we basically need to create a new instance of the message and obtain a new reference
-    // If we have fields to modify we can use the merge method of the class, otherwise we just create a new instance with the old fields
-    const newChannelMessageCache = channelMessageCache.update(messageId, (oldMessage: any) => {
-        return fields ? oldMessage.merge(fields) : new oldMessage.constructor(oldMessage);
+    let updated = false;
+    for (const [channelId, messages] of pendingUpdates) {
+        if (applyMessageUpdates(channelId, messages)) updated = true;
+    }
+
+    pendingUpdates.clear();
+    if (updated) MessageStore.emitChange();
+}
+
+/**
+ * Update and re-render multiple messages. Updates made in the same frame are applied together,
+ * so the message store only emits one change no matter how many messages were updated
+ * @returns A promise which resolves once the messages were updated
+ */
+export function updateMessages(updates: MessageUpdate[]) {
+    for (const { channelId, messageId, fields } of updates) {
+        let messages = pendingUpdates.get(channelId);
+        if (!messages) {
+            messages = new Map();
+            pendingUpdates.set(channelId, messages);
+        }
+
+        const pendingFields = messages.get(messageId);
+        messages.set(messageId, pendingFields || fields ? { ...pendingFields, ...fields } : undefined);
+    }
+
+    flushPromise ??= new Promise(resolve => {
+        const flush = () => {
+            cancelAnimationFrame(frame);
+            clearTimeout(timeout);
+            flushUpdates();
+            resolve();
+        };
+
+        // Animation frames don't run while the window is hidden, so also flush after a timeout
+        const frame = requestAnimationFrame(flush);
+        const timeout = setTimeout(flush, 100);
     });
 
-    MessageCache.commit(newChannelMessageCache);
-    MessageStore.emitChange();
+    return flushPromise;
+}
+
+/** Data plugins attached to messages, by namespace and message id */
+const messageData = new Map<string, Map<string, unknown>>();
+/** Components using {@link useMessageData}, by namespace and message id */
+const messageDataListeners = new Map<string, Map<string, Set<() => void>>>();
+
+function notifyMessageDataListeners(namespace: string, messageId?: string) {
+    const listeners = messageDataListeners.get(namespace);
+    if (!listeners) return;
+
+    if (messageId) listeners.get(messageId)?.forEach(l => l());
+    else listeners.forEach(set => set.forEach(l => l()));
+}
+
+/**
+ * Get data attached to a message with {@link setMessageData}
+ * @param namespace The namespace the data was attached with, usually the plugin name
+ */
+export function getMessageData<T = any>(namespace: string, messageId: string) {
+    return messageData.get(namespace)?.get(messageId) as T | undefined;
+}
+
+/**
+ * Attach data to a message without changing the message itself, so Discord's message cache stays untouched.
+ * The data is kept until it is removed, so remove it once it isn't needed anymore, like when your plugin stops
+ * @param namespace The namespace to attach the data with, usually the plugin name
+ * @param data The data to attach. Pass undefined to remove it
+ * @param rerender Whether to re-render the whole message. Components using {@link useMessageData} update without it,
+ * so this is only needed if the data is read elsewhere. Note that re-rendering replaces the message in Discord's
+ * message cache with a new instance, like {@link updateMessages} does
+ */
+export function setMessageData(namespace: string, channelId: string, messageId: string, data: unknown, rerender = false) {
+    let namespaceData = messageData.get(namespace);
+    if (!namespaceData) {
+        namespaceData = new Map();
+        messageData.set(namespace, namespaceData);
+    }
+
+    if (data === undefined) namespaceData.delete(messageId);
+    else namespaceData.set(messageId, data);
+
+    notifyMessageDataListeners(namespace, messageId);
+
+    if (rerender) return updateMessages([{ channelId, messageId }]);
+}
+
+/**
+ * Remove all data attached with the namespace
+ * @param namespace The namespace the data was attached with, usually the plugin name
+ */
+export function clearMessageData(namespace: string) {
+    messageData.delete(namespace);
+    notifyMessageDataListeners(namespace);
+}
+
+/**
+ * Get data attached to a message with {@link setMessageData}, and re-render the component whenever it changes
+ * @param namespace The namespace the data was attached with, usually the plugin name
+ */
+export function useMessageData<T = any>(namespace: string, messageId: string) {
+    const forceUpdate = useForceUpdater();
+
+    useEffect(() => {
+        let listeners = messageDataListeners.get(namespace);
+        if (!listeners) {
+            listeners = new Map();
+            messageDataListeners.set(namespace, listeners);
+        }
+
+        let messageListeners = listeners.get(messageId);
+        if (!messageListeners) {
+            messageListeners = new Set();
+            listeners.set(messageId, messageListeners);
+        }
+
+        messageListeners.add(forceUpdate);
+
+        return () => {
+            messageListeners.delete(forceUpdate);
+            if (!messageListeners.size) listeners.delete(messageId);
+        };
+    }, [namespace, messageId]);
+
+    return getMessageData<T>(namespace, messageId);
 }
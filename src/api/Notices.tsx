@@ -16,6 +16,9 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import "./Notices.css";
+
+import { Settings } from "@api/Settings";
 import ErrorBoundary from "@components/ErrorBoundary";
 import { isPrimitiveReactNode } from "@utils/react";
 import { waitFor } from "@webpack";
@@ -24,26 +27,157 @@ import { ReactNode } from "react";
 let NoticesModule: any;
 waitFor(m => m.show && m.dismiss && !m.suppressAll, m => NoticesModule = m);
 
-export const noticesQueue = [] as any[];
-export let currentNotice: any = null;
+export const enum NoticePriority {
+    LOW = -1,
+    NORMAL = 0,
+    HIGH = 1
+}
+
+export interface NoticeButton {
+    text: string;
+    onClick?(): void;
+    /** Whether clicking the button dismisses the notice. Defaults to true */
+    dismiss?: boolean;
+}
+
+export interface NoticeOptions {
+    message: ReactNode;
+    /**
+     * Identifies the notice. Showing a notice with the same id as a queued or shown one replaces it.
+     * Required for {@link NoticeOptions.allowDontShowAgain}
+     */
+    id?: string;
+    /** Notices with a higher priority are shown first and take the place of shown notices with a lower priority */
+    priority?: NoticePriority;
+    /** The first button uses the button of the notice, the others are shown after the message */
+    buttons?: NoticeButton[];
+    /** Time in milliseconds after which the notice is dismissed, or dropped if it wasn't shown by then */
+    expiresAfter?: number;
+    /** Adds a button to never show notices with this id again */
+    allowDontShowAgain?: boolean;
+}
+
+export interface QueuedNotice extends NoticeOptions {
+    priority: NoticePriority;
+    expiresAt: number | null;
+}
+
+export const noticesQueue = [] as QueuedNotice[];
+export let currentNotice: QueuedNotice | null = null;
+
+let expiryTimeout: ReturnType<typeof setTimeout> | undefined;
 
 export function popNotice() {
     NoticesModule.dismiss();
 }
 
-export function nextNotice() {
-    currentNotice = noticesQueue.shift();
-
-    if (currentNotice) {
-        NoticesModule.show(...currentNotice, "VencordNotice");
-    }
+function onButtonClick(button: NoticeButton) {
+    button.onClick?.();
+    if (button.dismiss !== false) popNotice();
 }
 
-export function showNotice(message: ReactNode, buttonText: string, onOkClick: () => void) {
-    const notice = isPrimitiveReactNode(message)
+function renderMessage({ id, message, buttons, allowDontShowAgain }: QueuedNotice) {
+    const content = isPrimitiveReactNode(message)
         ? message
         : <ErrorBoundary fallback={() => "Error Showing Notice"}>{message}</ErrorBoundary>;
 
-    noticesQueue.push(["GENERIC", notice, buttonText, onOkClick]);
-    if (!currentNotice) nextNotice();
+    const extraButtons = buttons?.slice(1) ?? [];
+    if (!extraButtons.length && !(allowDontShowAgain && id)) return content;
+
+    return (
+        <>
+            {content}
+            {extraButtons.map(button => (
+                <button key={button.text} className="vc-notice-button" onClick={() => onButtonClick(button)}>
+                    {button.text}
+                </button>
+            ))}
+            {allowDontShowAgain && id && (
+                <button
+                    className="vc-notice-button"
+                    onClick={() => {
+                        Settings.dismissedNotices[id] = true;
+                        popNotice();
+                    }}
+                >
+                    Don't show again
+                </button>
+            )}
+        </>
+    );
+}
+
+function show(notice: QueuedNotice) {
+    currentNotice = notice;
+
+    clearTimeout(expiryTimeout);
+    if (notice.expiresAt != null) {
+        expiryTimeout = setTimeout(() => {
+            if (currentNotice === notice) popNotice();
+        }, notice.expiresAt - Date.now());
+    }
+
+    const primaryButton = notice.buttons?.[0];
+    NoticesModule.show(
+        "GENERIC",
+        renderMessage(notice),
+        primaryButton?.text,
+        primaryButton && (() => onButtonClick(primaryButton)),
+        "VencordNotice"
+    );
+}
+
+/** Queues the notice after all notices of the same or higher priority, or before them if `first` is set */
+function enqueue(notice: QueuedNotice, first = false) {
+    const index = noticesQueue.findIndex(n => first ? n.priority <= notice.priority : n.priority < notice.priority);
+    noticesQueue.splice(index === -1 ? noticesQueue.length : index, 0, notice);
+}
+
+const isExpired = (notice: QueuedNotice) => notice.expiresAt != null && notice.expiresAt <= Date.now();
+
+export function nextNotice() {
+    clearTimeout(expiryTimeout);
+    currentNotice = null;
+
+    let notice: QueuedNotice | undefined;
+    do {
+        notice = noticesQueue.shift();
+    } while (notice && isExpired(notice));
+
+    if (notice) show(notice);
+}
+
+export function showNotice(options: NoticeOptions): void;
+export function showNotice(message: ReactNode, buttonText: string, onOkClick: () => void): void;
+export function showNotice(messageOrOptions: ReactNode | NoticeOptions, buttonText?: string, onOkClick?: () => void) {
+    const options: NoticeOptions = buttonText === undefined
+        ? messageOrOptions as NoticeOptions
+        // The callback of the old signature is responsible for dismissing the notice itself
+        : { message: messageOrOptions as ReactNode, buttons: [{ text: buttonText, onClick: onOkClick, dismiss: false }] };
+
+    if (options.id != null && Settings.dismissedNotices[options.id]) return;
+
+    const notice: QueuedNotice = {
+        ...options,
+        priority: options.priority ?? NoticePriority.NORMAL,
+        expiresAt: options.expiresAfter != null ? Date.now() + options.expiresAfter : null
+    };
+
+    if (notice.id != null) {
+        const index = noticesQueue.findIndex(n => n.id === notice.id);
+        if (index !== -1) noticesQueue.splice(index, 1);
+    }
+
+    if (!currentNotice) {
+        enqueue(notice);
+        nextNotice();
+    } else if (notice.id != null && currentNotice.id === notice.id) {
+        show(notice);
+    } else if (notice.priority > currentNotice.priority) {
+        // Show the previous notice again once this one is dismissed
+        enqueue(currentNotice, true);
+        show(notice);
+    } else {
+        enqueue(notice);
+    }
 }
@@ -36,8 +36,10 @@ export default ErrorBoundary.wrap(function NotificationComponent({
     image,
     permanent,
     className,
-    dismissOnClick
-}: NotificationData & { className?: string; }) {
+    dismissOnClick,
+    actions,
+    count = 1
+}: NotificationData & { className?: string; count?: number; }) {
     const { timeout, position } = useSettings(["notifications.timeout", "notifications.position"]).notifications;
     const hasFocus = useStateFromStores([WindowStore], () => WindowStore.isFocused());
 
@@ -83,7 +85,10 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                 {icon && <img className="vc-notification-icon" src={icon} alt="" />}
                 <div className="vc-notification-content">
                     <div className="vc-notification-header">
-                        <h2 className="vc-notification-title">{title}</h2>
+                        <h2 className="vc-notification-title">
+                            {title}
+                            {count > 1 && <span className="vc-notification-count">{count}</span>}
+                        </h2>
                         <button
                             className="vc-notification-close-btn"
                             onClick={e => {
@@ -105,6 +110,25 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                         </button>
                     </div>
                     {richBody ?? <p className="vc-notification-p">{body}</p>}
+                    {!!actions?.length && (
+                        <div className="vc-notification-actions">
+                            {actions.map(action => (
+                                <button
+                                    key={action.label}
+                                    className="vc-notification-action"
+                                    onClick={e => {
+                                        e.preventDefault();
+                                        e.stopPropagation();
+                                        action.onClick();
+                                        if (action.dismiss !== false)
+                                            onClose!();
+                                    }}
+                                >
+                                    {action.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
             {image && <img className="vc-notification-img" src={image} alt="" />}
@@ -40,6 +40,13 @@ function getRoot() {
     return reactRoot;
 }
 
+export interface NotificationAction {
+    label: string;
+    onClick(): void;
+    /** Whether clicking this action should dismiss the notification (defaults to true) */
+    dismiss?: boolean;
+}
+
 export interface NotificationData {
     title: string;
     body: string;
@@ -61,21 +68,76 @@ export interface NotificationData {
     noPersist?: boolean;
     /** Whether this notification should be dismissed when clicked (defaults to true) */
     dismissOnClick?: boolean;
+    /**
+     * Name of the plugin showing this notification. Lets users mute the plugin and filter the Notification Log by it.
+     * Plugins should always set this, notifications without it are attributed to Vencord itself
+     */
+    plugin?: string;
+    /** What kind of notification this is, like "friend-removed" */
+    category?: string;
+    /** Buttons shown below the body. Not supported on desktop notifications */
+    actions?: NotificationAction[];
+    /**
+     * Notifications with the same key are collapsed into one while shown or waiting to be shown,
+     * which displays the latest one and how many there were.
+     * Defaults to collapsing notifications with the same plugin, title and body
+     */
+    groupKey?: string;
+}
+
+interface NotificationGroup {
+    data: NotificationData;
+    count: number;
+    rerender?(): void;
 }
 
-function _showNotification(notification: NotificationData, id: number) {
+/** Groups of notifications that are currently shown or queued */
+const groups = new Map<string, NotificationGroup>();
+
+const getGroupKey = ({ groupKey, plugin, title, body }: NotificationData) =>
+    groupKey ?? JSON.stringify([plugin, title, body]);
+
+function _showNotification(group: NotificationGroup, key: string, id: number) {
     const root = getRoot();
     return new Promise<void>(resolve => {
-        root.render(
-            <NotificationComponent key={id} {...notification} onClose={() => {
-                notification.onClose?.();
+        const render = () => root.render(
+            <NotificationComponent key={id} {...group.data} count={group.count} onClose={() => {
+                groups.delete(key);
+                group.data.onClose?.();
                 root.render(null);
                 resolve();
             }} />,
         );
+
+        group.rerender = render;
+        render();
     });
 }
 
+function isInQuietHours({ start, end }: { start: number; end: number; }) {
+    const hour = new Date().getHours();
+    return start <= end
+        ? hour >= start && hour < end
+        : hour >= start || hour < end;
+}
+
+/**
+ * Whether the user's do-not-disturb rules prevent a notification from being shown.
+ * Such notifications still end up in the Notification Log, so notifications which aren't persisted
+ * or are permanent, like ones asking for a restart, are never suppressed
+ */
+function isSuppressed({ plugin, noPersist, permanent }: NotificationData) {
+    if (noPersist || permanent) return false;
+
+    const { mutedPlugins, onlyWhenUnfocused, quietHours } = Settings.notifications;
+
+    if (plugin && mutedPlugins.includes(plugin)) return true;
+    if (onlyWhenUnfocused && document.hasFocus()) return true;
+    if (quietHours.enabled && isInQuietHours(quietHours)) return true;
+
+    return false;
+}
+
 function shouldBeNative() {
     if (typeof Notification === "undefined") return false;
 
@@ -95,17 +157,34 @@ export async function requestPermission() {
 export async function showNotification(data: NotificationData) {
     persistNotification(data);
 
+    if (isSuppressed(data)) return;
+
+    const key = getGroupKey(data);
+
     if (shouldBeNative() && await requestPermission()) {
         const { title, body, icon, image, onClick = null, onClose = null } = data;
         const n = new Notification(title, {
             body,
             icon,
+            // Desktop notifications with the same tag replace each other
+            tag: key,
             // @ts-expect-error ts is drunk
             image
         });
         n.onclick = onClick;
         n.onclose = onClose;
-    } else {
-        NotificationQueue.push(() => _showNotification(data, id++));
+        return;
     }
+
+    const existing = groups.get(key);
+    if (existing) {
+        existing.data = data;
+        existing.count++;
+        existing.rerender?.();
+        return;
+    }
+
+    const group: NotificationGroup = { data, count: 1 };
+    groups.set(key, group);
+    NotificationQueue.push(() => _showNotification(group, key, id++));
 }
@@ -18,30 +18,74 @@
 
 import * as DataStore from "@api/DataStore";
 import { Settings } from "@api/Settings";
+import { registerBackupDataStoreKeys } from "@api/SettingsSync/dataStore";
 import { classNameFactory } from "@api/Styles";
 import { Flex } from "@components/Flex";
 import { openNotificationSettingsModal } from "@components/settings/tabs/vencord/NotificationSettings";
 import { closeModal, ModalCloseButton, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
 import { useAwaiter } from "@utils/react";
-import { Alerts, Button, Forms, ListScrollerThin, React, Text, Timestamp, useEffect, useReducer, useState } from "@webpack/common";
+import { saveFile } from "@utils/web";
+import { Alerts, Button, Forms, ListScrollerThin, moment, React, Select, Text, TextInput, Timestamp, useEffect, useReducer, useState } from "@webpack/common";
 import { nanoid } from "nanoid";
 import type { DispatchWithoutAction } from "react";
 
 import NotificationComponent from "./NotificationComponent";
 import type { NotificationData } from "./Notifications";
 
-interface PersistentNotificationData extends Pick<NotificationData, "title" | "body" | "image" | "icon" | "color"> {
+export interface PersistentNotificationData extends Pick<NotificationData, "title" | "body" | "image" | "icon" | "color" | "plugin" | "category"> {
     timestamp: number;
     id: string;
+    /** Pinned entries are never removed automatically */
+    pinned?: boolean;
 }
 
 const KEY = "notification-log";
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Log entries without a plugin are from Vencord itself */
+export const CORE_SOURCE = "Vencord";
+
+registerBackupDataStoreKeys("NotificationLog", [KEY]);
+
+export const getNotificationSource = (notification: Pick<PersistentNotificationData, "plugin">) => notification.plugin ?? CORE_SOURCE;
+
+/**
+ * Removes entries which exceed the retention policy of their source or the overall log limit.
+ * Expects the log to be sorted from newest to oldest
+ */
+function applyRetention(log: PersistentNotificationData[]) {
+    const { logLimit, retention } = Settings.notifications;
+    const now = Date.now();
+    const countBySource = new Map<string, number>();
+    let count = 0;
+
+    return log.filter(entry => {
+        if (entry.pinned) return true;
+
+        const source = getNotificationSource(entry);
+        const policy = retention[source];
+        if (policy?.maxAge && now - entry.timestamp > policy.maxAge * DAY) return false;
+
+        const sourceCount = (countBySource.get(source) ?? 0) + 1;
+        if (policy?.maxCount && sourceCount > policy.maxCount) return false;
+        countBySource.set(source, sourceCount);
+
+        // A limit of 0 disables the log, but keeps what is already in it
+        return logLimit === 200 || logLimit === 0 || ++count <= logLimit;
+    });
+}
 
 const getLog = async () => {
     const log = await DataStore.get(KEY) as PersistentNotificationData[] | undefined;
-    return log ?? [];
+    // Entries may have expired since they were last written
+    return applyRetention(log ?? []);
 };
 
+async function updateLog(updater: (log: PersistentNotificationData[]) => PersistentNotificationData[]) {
+    await DataStore.update(KEY, (old: PersistentNotificationData[] | undefined) => applyRetention(updater(old ?? [])));
+    signals.forEach(x => x());
+}
+
 const cl = classNameFactory("vc-notification-log-");
 const signals = new Set<DispatchWithoutAction>();
 
@@ -51,12 +95,10 @@ export async function persistNotification(notification: NotificationData) {
     const limit = Settings.notifications.logLimit;
     if (limit === 0) return;
 
-    await DataStore.update(KEY, (old: PersistentNotificationData[] | undefined) => {
-        const log = old ?? [];
-
+    await updateLog(log => {
         // Omit stuff we don't need
         const {
-            onClick, onClose, richBody, permanent, noPersist, dismissOnClick,
+            onClick, onClose, richBody, permanent, noPersist, dismissOnClick, actions, groupKey,
             ...pureNotification
         } = notification;
 
@@ -66,23 +108,49 @@ export async function persistNotification(notification: NotificationData) {
             id: nanoid()
         });
 
-        if (log.length > limit && limit !== 200)
-            log.length = limit;
-
         return log;
     });
+}
 
-    signals.forEach(x => x());
+export async function deleteNotification(id: string) {
+    await updateLog(log => log.filter(x => x.id !== id));
 }
 
-export async function deleteNotification(timestamp: number) {
-    const log = await getLog();
-    const index = log.findIndex(x => x.timestamp === timestamp);
-    if (index === -1) return;
+export async function setNotificationPinned(id: string, pinned: boolean) {
+    await updateLog(log => log.map(x => x.id === id ? { ...x, pinned } : x));
+}
 
-    log.splice(index, 1);
-    await DataStore.set(KEY, log);
-    signals.forEach(x => x());
+/** Re-applies the retention policies, for example after they were changed */
+export async function pruneNotificationLog() {
+    await updateLog(log => log);
+}
+
+const CSV_COLUMNS = ["timestamp", "source", "category", "title", "body", "pinned"] as const;
+
+function toCsv(log: PersistentNotificationData[]) {
+    const escape = (value: unknown) => `"${String(value ?? "").replaceAll('"', '""')}"`;
+
+    const rows = log.map(entry => [
+        new Date(entry.timestamp).toISOString(),
+        getNotificationSource(entry),
+        entry.category,
+        entry.title,
+        entry.body,
+        !!entry.pinned
+    ].map(escape).join(","));
+
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+export function exportNotificationLog(log: PersistentNotificationData[], format: "json" | "csv") {
+    const filename = `vencord-notification-log-${moment().format("YYYY-MM-DD")}.${format}`;
+    const data = new TextEncoder().encode(format === "json" ? JSON.stringify(log, null, 4) : toCsv(log));
+
+    if (IS_DISCORD_DESKTOP) {
+        DiscordNative.fileManager.saveWithDialog(data, filename);
+    } else {
+        saveFile(new File([data], filename, { type: format === "json" ? "application/json" : "text/csv" }));
+    }
 }
 
 export function useLogs() {
@@ -114,12 +182,23 @@ function NotificationEntry({ data }: { data: PersistentNotificationData; }) {
                     if (removing) return;
                     setRemoving(true);
 
-                    setTimeout(() => deleteNotification(data.timestamp), 200);
+                    setTimeout(() => deleteNotification(data.id), 200);
                 }}
                 richBody={
                     <div className={cl("body-wrapper")}>
                         <div className={cl("body")}>{data.body}</div>
-                        <Timestamp timestamp={new Date(data.timestamp)} className={cl("timestamp")} />
+                        <div className={cl("footer")}>
+                            <button
+                                className={cl("pin", { pinned: data.pinned })}
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    setNotificationPinned(data.id, !data.pinned);
+                                }}
+                            >
+                                {data.pinned ? "Unpin" : "Pin"}
+                            </button>
+                            <Timestamp timestamp={new Date(data.timestamp)} className={cl("timestamp")} />
+                        </div>
                     </div>
                 }
             />
@@ -150,8 +229,43 @@ export function NotificationLog({ log, pending }: { log: PersistentNotificationD
     );
 }
 
+const DateFilterOptions = [
+    { label: "Any Time", value: 0 },
+    { label: "Last 24 Hours", value: DAY },
+    { label: "Last 7 Days", value: 7 * DAY },
+    { label: "Last 30 Days", value: 30 * DAY }
+];
+
+interface LogFilter {
+    query: string;
+    source: string | null;
+    /** Maximum age of entries in milliseconds, or 0 for any */
+    maxAge: number;
+}
+
+function filterLog(log: PersistentNotificationData[], { query, source, maxAge }: LogFilter) {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const now = Date.now();
+
+    return log
+        .filter(entry => {
+            if (source != null && getNotificationSource(entry) !== source) return false;
+            if (maxAge && now - entry.timestamp > maxAge) return false;
+
+            const text = [entry.title, entry.body, entry.plugin, entry.category].join(" ").toLowerCase();
+            return words.every(word => text.includes(word));
+        })
+        // Pinned entries first, keeping the order otherwise
+        .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+}
+
 function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void; }) {
     const [log, pending] = useLogs();
+    const [filter, setFilter] = useState<LogFilter>({ query: "", source: null, maxAge: 0 });
+
+    const sources = [...new Set(log.map(getNotificationSource))].sort();
+    const filteredLog = filterLog(log, filter);
+    const unpinnedCount = log.filter(n => !n.pinned).length;
 
     return (
         <ModalRoot {...modalProps} size={ModalSize.LARGE} className={cl("modal")}>
@@ -161,7 +275,36 @@ function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void
             </ModalHeader>
 
             <div style={{ width: "100%" }}>
-                <NotificationLog log={log} pending={pending} />
+                <Flex className={cl("filter")}>
+                    <TextInput
+                        className={cl("search")}
+                        value={filter.query}
+                        placeholder="Search notifications"
+                        onChange={(query: string) => setFilter({ ...filter, query })}
+                    />
+                    <div className={cl("filter-select")}>
+                        <Select
+                            options={[
+                                { label: "All Sources", value: null },
+                                ...sources.map(source => ({ label: source, value: source }))
+                            ]}
+                            closeOnSelect={true}
+                            select={source => setFilter({ ...filter, source })}
+                            isSelected={v => v === filter.source}
+                            serialize={v => String(v)}
+                        />
+                    </div>
+                    <div className={cl("filter-select")}>
+                        <Select
+                            options={DateFilterOptions}
+                            closeOnSelect={true}
+                            select={maxAge => setFilter({ ...filter, maxAge })}
+                            isSelected={v => v === filter.maxAge}
+                            serialize={String}
+                        />
+                    </div>
+                </Flex>
+                <NotificationLog log={filteredLog} pending={pending} />
             </div>
 
             <ModalFooter>
@@ -170,16 +313,22 @@ function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void
                         Notification Settings
                     </Button>
 
+                    <Button disabled={filteredLog.length === 0} onClick={() => exportNotificationLog(filteredLog, "json")}>
+                        Export JSON
+                    </Button>
+                    <Button disabled={filteredLog.length === 0} onClick={() => exportNotificationLog(filteredLog, "csv")}>
+                        Export CSV
+                    </Button>
+
                     <Button
-                        disabled={log.length === 0}
+                        disabled={unpinnedCount === 0}
                         color={Button.Colors.RED}
                         onClick={() => {
                             Alerts.show({
                                 title: "Are you sure?",
-                                body: `This will permanently remove ${log.length} notification${log.length === 1 ? "" : "s"}. This action cannot be undone.`,
+                                body: `This will permanently remove ${unpinnedCount} notification${unpinnedCount === 1 ? "" : "s"}. Pinned notifications are kept. This action cannot be undone.`,
                                 async onConfirm() {
-                                    await DataStore.set(KEY, []);
-                                    signals.forEach(x => x());
+                                    await updateLog(log => log.filter(n => n.pinned));
                                 },
                                 confirmText: "Do it!",
                                 confirmColor: "vc-notification-log-danger-btn",
@@ -19,21 +19,24 @@
 import { addProfileBadge, removeProfileBadge } from "@api/Badges";
 import { addChatBarButton, removeChatBarButton } from "@api/ChatButtons";
 import { registerCommand, unregisterCommand } from "@api/Commands";
-import { addContextMenuPatch, removeContextMenuPatch } from "@api/ContextMenu";
+import { addContextMenuItem, addContextMenuPatch, removeContextMenuItem, removeContextMenuPatch } from "@api/ContextMenu";
 import { addMemberListDecorator, removeMemberListDecorator } from "@api/MemberListDecorators";
 import { addMessageAccessory, removeMessageAccessory } from "@api/MessageAccessories";
 import { addMessageDecoration, removeMessageDecoration } from "@api/MessageDecorations";
 import { addMessageClickListener, addMessagePreEditListener, addMessagePreSendListener, removeMessageClickListener, removeMessagePreEditListener, removeMessagePreSendListener } from "@api/MessageEvents";
 import { addMessagePopoverButton, removeMessagePopoverButton } from "@api/MessagePopover";
-import { Settings, SettingsStore } from "@api/Settings";
+import { showNotification } from "@api/Notifications";
+import { runPluginSettingsMigrations, Settings, SettingsStore } from "@api/Settings";
+import { registerBackupDataStoreKeys } from "@api/SettingsSync/dataStore";
 import { disableStyle, enableStyle } from "@api/Styles";
 import { Logger } from "@utils/Logger";
+import { relaunch } from "@utils/native";
 import { onlyOnce } from "@utils/onlyOnce";
 import { canonicalizeFind, canonicalizeReplacement } from "@utils/patches";
 import { Patch, Plugin, PluginDef, ReporterTestable, StartAt } from "@utils/types";
 import { FluxEvents } from "@vencord/discord-types";
 import { FluxDispatcher } from "@webpack/common";
-import { patches } from "@webpack/patcher";
+import { hotReloadPatches, patches, registeredPatches } from "@webpack/patcher";
 
 import Plugins from "~plugins";
 export { Plugins as plugins };
@@ -47,6 +50,12 @@ export const PMLogger = logger;
 /** Whether we have subscribed to flux events of all the enabled plugins when FluxDispatcher was ready */
 let enabledPluginsSubscribedFlux = false;
 const subscribedFluxEventsPlugins = new Set<string>();
+/** Async settings migrations which are still running. Plugins are only started once theirs finish */
+const pendingSettingsMigrations = new Map<string, Promise<void>>();
+/** Plugins whose settings migration failed. They are not started, as their settings are only partially migrated */
+const failedSettingsMigrations = new Set<string>();
+/** Errors thrown by the start of plugins, by plugin name. Only recorded in reporter builds */
+export const pluginStartErrors = new Map<string, unknown>();
 
 export function isPluginEnabled(p: string) {
     return (
@@ -56,8 +65,24 @@ export function isPluginEnabled(p: string) {
     ) ?? false;
 }
 
-export function addPatch(newPatch: Omit<Patch, "plugin">, pluginName: string, pluginPath = `Vencord.Plugins.plugins[${JSON.stringify(pluginName)}]`) {
-    const patch = newPatch as Patch;
+/** Results of canonicalizing patches, so hot enabling a plugin again doesn't canonicalize its patches twice */
+const canonicalizedPatches = new WeakMap<object, boolean>();
+
+/**
+ * Canonicalize a patch in place, so it can be registered.
+ * @returns Whether the patch should be registered
+ */
+function canonicalizePatch(newPatch: Omit<Patch, "plugin">, pluginName: string, pluginPath: string) {
+    const cached = canonicalizedPatches.get(newPatch);
+    if (cached != null) return cached;
+
+    const shouldRegister = canonicalizePatchUncached(newPatch as Patch, pluginName, pluginPath);
+    canonicalizedPatches.set(newPatch, shouldRegister);
+
+    return shouldRegister;
+}
+
+function canonicalizePatchUncached(patch: Patch, pluginName: string, pluginPath: string) {
     patch.plugin = pluginName;
 
     if (IS_REPORTER) {
@@ -65,7 +90,7 @@ export function addPatch(newPatch: Omit<Patch, "plugin">, pluginName: string, pl
         delete patch.group;
     }
 
-    if (patch.predicate && !patch.predicate()) return;
+    if (patch.predicate && !patch.predicate()) return false;
 
     canonicalizeFind(patch);
     if (!Array.isArray(patch.replacement)) {
@@ -82,7 +107,34 @@ export function addPatch(newPatch: Omit<Patch, "plugin">, pluginName: string, pl
 
     patch.replacement = patch.replacement.filter(({ predicate }) => !predicate || predicate());
 
-    patches.push(patch);
+    return true;
+}
+
+export function addPatch(newPatch: Omit<Patch, "plugin">, pluginName: string, pluginPath = `Vencord.Plugins.plugins[${JSON.stringify(pluginName)}]`) {
+    if (!canonicalizePatch(newPatch, pluginName, pluginPath)) return;
+
+    patches.push(newPatch as Patch);
+    registeredPatches.push(newPatch as Patch);
+}
+
+/**
+ * Hot register or unregister the patches of a plugin, re-patching the module factories they affect.
+ * This does not start or stop the plugin.
+ * @returns Whether the patches were applied live. If false, a restart is required to apply the change
+ */
+export function hotReloadPluginPatches(p: Plugin, enable: boolean) {
+    if (!p.patches?.length) return true;
+
+    const pluginPath = `Vencord.Plugins.plugins[${JSON.stringify(p.name)}]`;
+    const pluginPatches = p.patches.filter(patch => canonicalizePatch(patch, p.name, pluginPath));
+
+    const failedModules = hotReloadPatches(p.name, pluginPatches, enable);
+    if (failedModules.length) {
+        logger.warn(`Hot ${enable ? "enabling" : "disabling"} ${p.name} requires restart, as ${failedModules.length} modules couldn't be reloaded`);
+        return false;
+    }
+
+    return true;
 }
 
 function isReporterTestable(p: Plugin, part: ReporterTestable) {
@@ -119,7 +171,7 @@ export function startDependenciesRecursive(p: Plugin) {
             settings[d].enabled = true;
             dep.isDependency = true;
 
-            if (dep.patches) {
+            if (dep.patches && !(Settings.hotReloadPatches && hotReloadPluginPatches(dep, true))) {
                 logger.warn(`Enabling dependency ${d} requires restart.`);
                 restartNeeded = true;
                 return;
@@ -175,13 +227,43 @@ export function subscribeAllPluginsFluxEvents(fluxDispatcher: typeof FluxDispatc
     }
 }
 
+function getNetworkCspRules({ network }: Plugin) {
+    const rules = {} as Record<string, string[]>;
+    for (const { host, directives } of network ?? []) {
+        // Hosts without directives are only contacted by native code, which the CSP doesn't apply to
+        if (directives?.length) rules[host] = [...new Set([...rules[host] ?? [], ...directives])];
+    }
+    return rules;
+}
+
 export const startPlugin = traceFunction("startPlugin", function startPlugin(p: Plugin) {
     const {
-        name, commands, contextMenus, managedStyle, userProfileBadge,
+        name, commands, contextMenus, contextMenuItems, managedStyle, userProfileBadge,
         onBeforeMessageEdit, onBeforeMessageSend, onMessageClick,
         renderChatBarButton, chatBarButton, renderMemberListDecorator, renderMessageAccessory, renderMessageDecoration, renderMessagePopoverButton, messagePopoverButton
     } = p;
 
+    if (failedSettingsMigrations.has(name)) {
+        logger.error(`Not starting ${name} because migrating its settings failed`);
+        showNotification({
+            title: `${name} was not started`,
+            body: "Migrating its settings failed, so it is not started until the migration succeeds. Check the console for details.",
+            color: "var(--red-360)",
+            noPersist: true
+        });
+        return false;
+    }
+
+    const pendingMigration = pendingSettingsMigrations.get(name);
+    if (pendingMigration) {
+        logger.info(`Waiting for settings migration of ${name} before starting it`);
+        pendingMigration.then(() => {
+            // The plugin may have been disabled, or started again, while the migration was running
+            if (isPluginEnabled(name) && !p.started) startPlugin(p);
+        });
+        return true;
+    }
+
     if (p.start) {
         logger.info("Starting plugin", name);
         if (p.started) {
@@ -191,6 +273,8 @@ export const startPlugin = traceFunction("startPlugin", function startPlugin(p:
         try {
             p.start();
         } catch (e) {
+            if (IS_REPORTER) pluginStartErrors.set(name, e);
+
             logger.error(`Failed to start ${name}\n`, e);
             return false;
         }
@@ -198,6 +282,20 @@ export const startPlugin = traceFunction("startPlugin", function startPlugin(p:
 
     p.started = true;
 
+    if (!IS_WEB && p.network) {
+        VencordNative.csp.setPluginRules(name, getNetworkCspRules(p)).then(changed => {
+            if (!changed) return;
+
+            showNotification({
+                title: "Restart required",
+                body: `${name} was allowed to connect to new hosts. Click here to restart and apply the changes.`,
+                permanent: true,
+                noPersist: true,
+                onClick: relaunch
+            });
+        });
+    }
+
     if (commands?.length) {
         logger.debug("Registering commands of plugin", name);
         for (const cmd of commands) {
@@ -217,7 +315,16 @@ export const startPlugin = traceFunction("startPlugin", function startPlugin(p:
     if (contextMenus) {
         logger.debug("Adding context menus patches of plugin", name);
         for (const navId in contextMenus) {
-            addContextMenuPatch(navId, contextMenus[navId]);
+            addContextMenuPatch(navId, contextMenus[navId], name);
+        }
+    }
+
+    if (contextMenuItems) {
+        logger.debug("Adding context menu items of plugin", name);
+        for (const navId in contextMenuItems) {
+            for (const item of contextMenuItems[navId]) {
+                addContextMenuItem(navId, item, name);
+            }
         }
     }
 
@@ -229,13 +336,13 @@ export const startPlugin = traceFunction("startPlugin", function startPlugin(p:
     if (onBeforeMessageSend) addMessagePreSendListener(onBeforeMessageSend);
     if (onMessageClick) addMessageClickListener(onMessageClick);
 
-    if (chatBarButton) addChatBarButton(name, chatBarButton.render, chatBarButton.icon);
+    if (chatBarButton) addChatBarButton(name, chatBarButton.render, chatBarButton.icon, chatBarButton);
     // @ts-expect-error: legacy code doesn't have icon
     else if (renderChatBarButton) addChatBarButton(name, renderChatBarButton);
     if (renderMemberListDecorator) addMemberListDecorator(name, renderMemberListDecorator);
     if (renderMessageDecoration) addMessageDecoration(name, renderMessageDecoration);
     if (renderMessageAccessory) addMessageAccessory(name, renderMessageAccessory);
-    if (messagePopoverButton) addMessagePopoverButton(name, messagePopoverButton.render, messagePopoverButton.icon);
+    if (messagePopoverButton) addMessagePopoverButton(name, messagePopoverButton.render, messagePopoverButton.icon, messagePopoverButton);
     // @ts-expect-error: legacy code doesn't have icon
     else if (renderMessagePopoverButton) addMessagePopoverButton(name, renderMessagePopoverButton);
 
@@ -244,7 +351,7 @@ export const startPlugin = traceFunction("startPlugin", function startPlugin(p:
 
 export const stopPlugin = traceFunction("stopPlugin", function stopPlugin(p: Plugin) {
     const {
-        name, commands, contextMenus, managedStyle, userProfileBadge,
+        name, commands, contextMenus, contextMenuItems, managedStyle, userProfileBadge,
         onBeforeMessageEdit, onBeforeMessageSend, onMessageClick,
         renderChatBarButton, chatBarButton, renderMemberListDecorator, renderMessageAccessory, renderMessageDecoration, renderMessagePopoverButton, messagePopoverButton
     } = p;
@@ -265,6 +372,8 @@ export const stopPlugin = traceFunction("stopPlugin", function stopPlugin(p: Plu
 
     p.started = false;
 
+    if (!IS_WEB && p.network) VencordNative.csp.setPluginRules(name, null);
+
     if (commands?.length) {
         logger.debug("Unregistering commands of plugin", name);
         for (const cmd of commands) {
@@ -286,6 +395,15 @@ export const stopPlugin = traceFunction("stopPlugin", function stopPlugin(p: Plu
         }
     }
 
+    if (contextMenuItems) {
+        logger.debug("Removing context menu items of plugin", name);
+        for (const navId in contextMenuItems) {
+            for (const item of contextMenuItems[navId]) {
+                removeContextMenuItem(navId, item.id, name);
+            }
+        }
+    }
+
     if (managedStyle) disableStyle(managedStyle);
 
     if (userProfileBadge) removeProfileBadge(userProfileBadge);
@@ -356,7 +474,37 @@ export const initPluginManager = onlyOnce(function init() {
         settings[p].enabled = true;
     }
 
+    if (!IS_WEB) {
+        // Also revokes the hosts of plugins which were disabled or removed while Vencord wasn't running
+        const networkRules = Object.fromEntries(
+            pluginsValues
+                .filter(p => p.network && isPluginEnabled(p.name))
+                .map(p => [p.name, getNetworkCspRules(p)])
+        );
+        VencordNative.csp.syncPluginRules(networkRules);
+    }
+
     for (const p of pluginsValues) {
+        try {
+            const migration = runPluginSettingsMigrations(p);
+            if (migration) {
+                pendingSettingsMigrations.set(p.name, migration
+                    .catch(e => {
+                        logger.error(`Failed to migrate settings of ${p.name}\n`, e);
+                        failedSettingsMigrations.add(p.name);
+                    })
+                    .finally(() => pendingSettingsMigrations.delete(p.name))
+                );
+            }
+        } catch (e) {
+            logger.error(`Failed to migrate settings of ${p.name}\n`, e);
+            failedSettingsMigrations.add(p.name);
+        }
+
+        if (p.dataStoreKeys) {
+            registerBackupDataStoreKeys(p.name, p.dataStoreKeys);
+        }
+
         if (p.settings) {
             p.options ??= {};
 
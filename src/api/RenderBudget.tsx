@@ -0,0 +1,135 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { showNotification } from "@api/Notifications";
+import { Settings } from "@api/Settings";
+import ErrorBoundary from "@components/ErrorBoundary";
+import { Logger } from "@utils/Logger";
+import { ReactNode } from "react";
+
+export type RenderFactoryKind = "MessageAccessory" | "MessageDecoration" | "MemberListDecorator";
+
+export const RenderFactoryKindNames: Record<RenderFactoryKind, string> = {
+    MessageAccessory: "Message Accessory",
+    MessageDecoration: "Message Decoration",
+    MemberListDecorator: "Member List Decorator"
+};
+
+export interface RenderStats {
+    kind: RenderFactoryKind;
+    /** The identifier the factory was registered with, usually the plugin name */
+    id: string;
+    renders: number;
+    /** Time spent rendering the factory and the components it returns in milliseconds. Doesn't include their effects or later updates */
+    totalTime: number;
+    maxTime: number;
+    /** Renders which took longer than the budget */
+    slowRenders: number;
+    errors: number;
+    /** Why the factory was disabled. Disabled factories aren't rendered until they are enabled again or Discord is restarted */
+    disabledReason?: string;
+}
+
+const logger = new Logger("RenderBudget");
+
+export const renderStats = new Map<string, RenderStats>();
+
+function getStats(kind: RenderFactoryKind, id: string) {
+    const key = `${kind}:${id}`;
+
+    let stats = renderStats.get(key);
+    if (!stats) {
+        stats = { kind, id, renders: 0, totalTime: 0, maxTime: 0, slowRenders: 0, errors: 0 };
+        renderStats.set(key, stats);
+    }
+    return stats;
+}
+
+export function isRenderFactoryDisabled(kind: RenderFactoryKind, id: string) {
+    return renderStats.get(`${kind}:${id}`)?.disabledReason != null;
+}
+
+/** Enables a disabled factory again and resets its stats, so it isn't disabled again right away */
+export function enableRenderFactory(kind: RenderFactoryKind, id: string) {
+    renderStats.delete(`${kind}:${id}`);
+}
+
+export function resetRenderStats() {
+    // Keep disabled factories disabled
+    for (const [key, stats] of renderStats) {
+        if (stats.disabledReason == null) renderStats.delete(key);
+    }
+}
+
+function checkViolations(stats: RenderStats) {
+    const { autoDisable, maxViolations } = Settings.renderBudget;
+    if (!autoDisable || stats.disabledReason != null || stats.slowRenders + stats.errors < maxViolations) return;
+
+    stats.disabledReason = stats.errors >= stats.slowRenders
+        ? `it threw ${stats.errors} errors`
+        : `it exceeded the render budget ${stats.slowRenders} times`;
+
+    const name = `${RenderFactoryKindNames[stats.kind]} of ${stats.id}`;
+    logger.warn(`Disabled ${name} because ${stats.disabledReason}`);
+
+    // Violations are recorded while rendering, which must not render the notification
+    setTimeout(() => showNotification({
+        title: "Disabled slow plugin element",
+        body: `The ${name} was disabled until restart because ${stats.disabledReason}.`,
+        category: "render-budget"
+    }));
+}
+
+function recordRender(stats: RenderStats, time: number) {
+    stats.renders++;
+    stats.totalTime += time;
+    stats.maxTime = Math.max(stats.maxTime, time);
+
+    if (time > Settings.renderBudget.budget) {
+        stats.slowRenders++;
+        checkViolations(stats);
+    }
+}
+
+function recordError(stats: RenderStats) {
+    stats.errors++;
+    checkViolations(stats);
+}
+
+function RenderEnd({ onRender }: { onRender(): void; }) {
+    onRender();
+    return null;
+}
+
+/**
+ * React renders the whole tree returned by the factory before rendering its next sibling,
+ * so the time until {@link RenderEnd} is rendered includes rendering the components the factory returned
+ */
+function MeasuredFactory<P>({ stats, render, props }: { stats: RenderStats; render(props: P): ReactNode; props: P; }) {
+    const start = performance.now();
+
+    return (
+        <>
+            {render(props)}
+            <RenderEnd onRender={() => recordRender(stats, performance.now() - start)} />
+        </>
+    );
+}
+
+/**
+ * Renders the factory while measuring how long it takes, or nothing if it was disabled
+ * @param errorMessage The message to log if the factory throws
+ */
+export function renderMeasured<P>(kind: RenderFactoryKind, id: string, render: (props: P) => ReactNode, props: P, errorMessage: string) {
+    const stats = getStats(kind, id);
+    if (stats.disabledReason != null) return null;
+
+    return (
+        <ErrorBoundary noop message={errorMessage} key={id} onError={() => recordError(stats)}>
+            <MeasuredFactory stats={stats} render={render} props={props} />
+        </ErrorBoundary>
+    );
+}
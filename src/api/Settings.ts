@@ -16,10 +16,12 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import type { UserCommand } from "@api/Commands/userCommands";
+import type { ThemeVariableValue } from "@main/themes";
 import { SettingsStore as SettingsStoreClass } from "@shared/SettingsStore";
 import { Logger } from "@utils/Logger";
 import { mergeDefaults } from "@utils/mergeDefaults";
-import { DefinedSettings, OptionType, SettingsChecks, SettingsDefinition } from "@utils/types";
+import { DefinedSettings, OptionType, PluginDef, SettingsChecks, SettingsDefinition } from "@utils/types";
 import { React, useEffect } from "@webpack/common";
 
 import plugins from "~plugins";
@@ -28,9 +30,10 @@ const logger = new Logger("Settings");
 
 export interface SettingsPluginUiElement {
     enabled: boolean;
-    // TODO
-    /** not implemented for now */
+    /** Position chosen by the user. Elements without one are sorted by their priority after those with one */
     order?: number;
+    /** Whether to show the element in the overflow menu instead of directly */
+    overflow?: boolean;
 }
 export type SettingsPluginUiElements = {
     /** id will be whatever id the element was registered with. Usually, but not always, the plugin name */
@@ -42,7 +45,22 @@ export interface Settings {
     autoUpdateNotification: boolean,
     useQuickCss: boolean;
     eagerPatches: boolean;
+    hotReloadPatches: boolean;
     enabledThemes: string[];
+    /** Values of theme variables changed by the user, by theme file name and variable name */
+    themeVariables: Record<string, Record<string, ThemeVariableValue>>;
+    /** Aliases and macros defined by the user, by command name */
+    userCommands: Record<string, UserCommand>;
+    renderBudget: {
+        /** Whether to disable message accessories and decorations which are repeatedly slow or throw */
+        autoDisable: boolean;
+        /** Time in milliseconds a single render may take */
+        budget: number;
+        /** How many slow renders or errors are allowed before disabling */
+        maxViolations: number;
+    };
+    /** Ids of notices the user chose to never show again */
+    dismissedNotices: Record<string, boolean>;
     enableReactDevtools: boolean;
     themeLinks: string[];
     frameless: boolean;
@@ -70,6 +88,10 @@ export interface Settings {
             [setting: string]: any;
         };
     };
+    /** The settings version each plugin's stored settings were last migrated to */
+    pluginSettingsVersions: {
+        [plugin: string]: number;
+    };
 
     uiElements: {
         messagePopoverButtons: SettingsPluginUiElements;
@@ -81,6 +103,23 @@ export interface Settings {
         position: "top-right" | "bottom-right";
         useNative: "always" | "never" | "not-focused";
         logLimit: number;
+        /**
+         * How long log entries are kept, by plugin name or "Vencord" for core notifications.
+         * A maxAge (in days) or maxCount of 0 keeps entries until the log limit is reached
+         */
+        retention: Record<string, {
+            maxAge: number;
+            maxCount: number;
+        }>;
+        /** Plugins whose notifications are only added to the log */
+        mutedPlugins: string[];
+        onlyWhenUnfocused: boolean;
+        /** Hours of the day during which notifications are only added to the log */
+        quietHours: {
+            enabled: boolean;
+            start: number;
+            end: number;
+        };
     };
 
     cloud: {
@@ -91,13 +130,22 @@ export interface Settings {
     };
 }
 
-const DefaultSettings: Settings = {
+export const DefaultSettings: Settings = {
     autoUpdate: true,
     autoUpdateNotification: true,
     useQuickCss: true,
     themeLinks: [],
     eagerPatches: IS_REPORTER,
+    hotReloadPatches: false,
     enabledThemes: [],
+    themeVariables: {},
+    userCommands: {},
+    renderBudget: {
+        autoDisable: false,
+        budget: 4,
+        maxViolations: 20
+    },
+    dismissedNotices: {},
     enableReactDevtools: false,
     frameless: false,
     transparent: false,
@@ -106,6 +154,7 @@ const DefaultSettings: Settings = {
     disableMinSize: false,
     winNativeTitleBar: false,
     plugins: {},
+    pluginSettingsVersions: {},
 
     uiElements: {
         chatBarButtons: {},
@@ -116,7 +165,15 @@ const DefaultSettings: Settings = {
         timeout: 5000,
         position: "bottom-right",
         useNative: "not-focused",
-        logLimit: 50
+        logLimit: 50,
+        retention: {},
+        mutedPlugins: [],
+        onlyWhenUnfocused: false,
+        quietHours: {
+            enabled: false,
+            start: 22,
+            end: 7
+        }
     },
 
     cloud: {
@@ -140,10 +197,16 @@ export const SettingsStore = new SettingsStoreClass(settings, {
         const v = target[key];
         if (!plugins) return v; // plugins not initialised yet. this means this path was reached by being called on the top level
 
-        if (path === "plugins" && key in plugins)
+        if (path === "plugins" && key in plugins) {
+            // The settings are created in the current shape, so none of the migrations have to run on them.
+            // This has to happen here, as the settings are created by the first access, which is usually before migrating
+            const version = getPluginSettingsVersion(plugins[key]);
+            if (version) settings.pluginSettingsVersions[key] ??= version;
+
             return target[key] = {
                 enabled: IS_REPORTER || plugins[key].required || plugins[key].enabledByDefault || false
             };
+        }
 
         // Since the property is not set, check if this is a plugin's setting and if so, try to resolve
         // the default value.
@@ -255,6 +318,60 @@ export function migratePluginSetting(pluginName: string, oldSetting: string, new
     SettingsStore.markAsChanged();
 }
 
+export function getPluginSettingsVersion({ settingsVersion, migrations }: Pick<PluginDef, "settingsVersion" | "migrations">) {
+    return settingsVersion ?? Math.max(0, ...(migrations?.map(m => m.version) ?? []));
+}
+
+/**
+ * Runs the settings migrations of a plugin which were not applied yet, in version order.
+ * The migrated version is recorded after each step, so a failing migration is retried on the next start without re-running the previous ones.
+ * @returns A promise if any of the migrations is async
+ */
+export function runPluginSettingsMigrations(plugin: Pick<PluginDef, "name" | "settingsVersion" | "migrations">): void | Promise<void> {
+    const { name, migrations = [] } = plugin;
+    const targetVersion = getPluginSettingsVersion(plugin);
+    if (!targetVersion) return;
+
+    const { plugins, pluginSettingsVersions } = SettingsStore.plain;
+
+    const setVersion = (version: number) => {
+        if (pluginSettingsVersions[name] === version) return;
+
+        pluginSettingsVersions[name] = version;
+        SettingsStore.markAsChanged();
+    };
+
+    // Nothing stored yet, so the settings will be created in the current shape.
+    // Settings created by accessing them already record the version, see SettingsStore's getDefaultValue
+    if (!Object.hasOwn(plugins, name)) {
+        return setVersion(targetVersion);
+    }
+
+    const currentVersion = pluginSettingsVersions[name] ?? 0;
+    if (currentVersion >= targetVersion) return;
+
+    const pending = migrations
+        .filter(m => m.version > currentVersion && m.version <= targetVersion)
+        .sort((a, b) => a.version - b.version);
+
+    const runNext = (): void | Promise<void> => {
+        const migration = pending.shift();
+        if (!migration) return setVersion(targetVersion);
+
+        logger.info(`Migrating settings of ${name} to version ${migration.version}`);
+
+        const done = () => {
+            setVersion(migration.version);
+            return runNext();
+        };
+
+        const res = migration.migrate(plugins[name]);
+        return res instanceof Promise ? res.then(done) : done();
+    };
+
+    return runNext();
+}
+
 export function definePluginSettings<
     Def extends SettingsDefinition,
     Checks extends SettingsChecks<Def>,
@@ -6,11 +6,17 @@
 
 import * as DataStore from "@api/DataStore";
 import { showNotification } from "@api/Notifications";
-import { Settings } from "@api/Settings";
+import { PlainSettings, Settings } from "@api/Settings";
+import { Flex } from "@components/Flex";
+import { Paragraph } from "@components/Paragraph";
 import { Logger } from "@utils/Logger";
-import { openModal } from "@utils/modal";
+import { Margins } from "@utils/margins";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
 import { relaunch } from "@utils/native";
-import { Alerts, OAuth2AuthorizeModal, UserStore } from "@webpack/common";
+import { Alerts, Button, Forms, OAuth2AuthorizeModal, Text, TextInput, UserStore, useState } from "@webpack/common";
+
+import { getCloudSettings, putCloudSettings } from "./cloudSync";
+import { CloudEncryptionKey, createEncryptionKey, createEncryptionKeyForPayload, isEncryptedPayload, isKeyForPayload, parseEncryptedPayload } from "./encryption";
 
 export const logger = new Logger("SettingsSync:CloudSetup", "#39b7e0");
 
@@ -94,7 +100,7 @@ export async function authorizeCloud() {
 
     try {
         const oauthConfiguration = await fetch(new URL("/v1/oauth/settings", getCloudUrl()));
-        var { clientId, redirectUri } = await oauthConfiguration.json();
+        var { clientId, redirectUri, secretAuth } = await oauthConfiguration.json();
     } catch {
         showNotification({
             title: "Cloud Integration",
@@ -104,6 +110,29 @@ export async function authorizeCloud() {
         return;
     }
 
+    // Self-hosted servers without Discord OAuth issue the secret of each user, so all devices of a user get the same one
+    if (secretAuth) {
+        try {
+            var issued = await requestCloudSecret();
+        } catch (e) {
+            logger.error("Failed to request secret", e);
+            showNotification({
+                title: "Cloud Integration",
+                body: "Setup failed (couldn't retrieve secret)."
+            });
+            Settings.cloud.authenticated = false;
+            return;
+        }
+
+        if (issued) {
+            onCloudSecretIssued();
+        } else {
+            Settings.cloud.authenticated = false;
+            openModal(props => <CloudAdminTokenModal {...props} />);
+        }
+        return;
+    }
+
     openModal((props: any) => <OAuth2AuthorizeModal
         {...props}
         scopes={["identify"]}
@@ -151,8 +180,270 @@ export async function authorizeCloud() {
     />);
 }
 
+/**
+ * Request the secret of the current user from a self-hosted server without Discord OAuth.
+ * Without the admin token of the server, only users which don't have a secret yet get one, if the server allows registration
+ *
+ * @returns Whether a secret was issued. If false, the admin token is missing or wrong
+ */
+export async function requestCloudSecret(adminToken?: string) {
+    const res = await fetch(new URL("/v1/secret", getCloudUrl()), {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            ...(adminToken && { Authorization: `Bearer ${adminToken}` })
+        },
+        body: JSON.stringify({ userId: getUserId() })
+    });
+
+    if (res.status === 401 || res.status === 409) return false;
+    if (!res.ok) throw new Error(`API returned ${res.status}`);
+
+    const { secret } = await res.json();
+    await setAuthorization(secret);
+    logger.info("Authorized with issued secret");
+
+    return true;
+}
+
+function onCloudSecretIssued() {
+    showNotification({
+        title: "Cloud Integration",
+        body: "Cloud integrations enabled!"
+    });
+    Settings.cloud.authenticated = true;
+}
+
+function CloudAdminTokenModal({ transitionState, onClose }: ModalProps) {
+    const [adminToken, setAdminToken] = useState("");
+    const [error, setError] = useState<string>();
+    const [saving, setSaving] = useState(false);
+
+    async function onSave() {
+        setSaving(true);
+        setError(undefined);
+
+        try {
+            if (await requestCloudSecret(adminToken)) {
+                onCloudSecretIssued();
+                onClose();
+                return;
+            }
+
+            setError("Wrong admin token");
+        } catch (e: any) {
+            logger.error("Failed to request secret", e);
+            setError(String(e.message ?? e));
+        }
+
+        setSaving(false);
+    }
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.SMALL}>
+            <ModalHeader separator={false}>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>
+                    Enter Admin Token
+                </Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <Paragraph className={Margins.bottom16}>
+                    This cloud server needs its admin token to set up your account, for example because you already set it up
+                    on another device. The server prints its admin token when it starts.
+                </Paragraph>
+
+                <Forms.FormTitle tag="h5">Admin Token</Forms.FormTitle>
+                <TextInput
+                    type="password"
+                    value={adminToken}
+                    onChange={setAdminToken}
+                    error={error}
+                    className={Margins.bottom16}
+                />
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex>
+                    <Button color={Button.Colors.PRIMARY} onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button disabled={!adminToken || saving} onClick={onSave}>
+                        Save
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
 export async function getCloudAuth() {
     const secret = await getAuthorization();
 
     return window.btoa(`${secret}:${getUserId()}`);
 }
+
+async function getCloudPayload() {
+    const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
+        headers: {
+            Authorization: await getCloudAuth(),
+            Accept: "application/octet-stream"
+        }
+    });
+
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`API returned ${res.status}`);
+
+    return new Uint8Array(await res.arrayBuffer());
+}
+
+export async function getCloudEncryptionKey() {
+    const keys = await DataStore.get<Record<string, CloudEncryptionKey>>("Vencord_cloudEncryptionKeys");
+    return keys?.[`${getCloudUrlOrigin()}:${getUserId()}`] ?? null;
+}
+
+async function setCloudEncryptionKey(key: CloudEncryptionKey | null) {
+    await DataStore.update<Record<string, CloudEncryptionKey>>("Vencord_cloudEncryptionKeys", keys => {
+        keys ??= {};
+        const id = `${getCloudUrlOrigin()}:${getUserId()}`;
+        if (key) keys[id] = key;
+        else delete keys[id];
+        return keys;
+    });
+}
+
+/**
+ * Start encrypting cloud settings with a passphrase, or rotate the current one.
+ * If the cloud settings are encrypted with a key this device doesn't have, the passphrase has to match theirs
+ */
+export async function setCloudEncryptionPassphrase(passphrase: string) {
+    if (!await checkCloudUrlCsp()) return;
+
+    const payload = await getCloudPayload();
+    const envelope = payload && isEncryptedPayload(payload) ? parseEncryptedPayload(payload) : null;
+    const currentKey = await getCloudEncryptionKey();
+
+    if (envelope && !(currentKey && await isKeyForPayload(currentKey, envelope))) {
+        const key = await createEncryptionKeyForPayload(passphrase, envelope);
+        if (!key) throw new Error("Wrong passphrase. Enter the one you set on your other devices");
+
+        await setCloudEncryptionKey(key);
+        logger.info("Joined encrypted cloud settings");
+
+        await getCloudSettings(true);
+        return;
+    }
+
+    // Merge first, so re-encrypting doesn't upload over changes made on other devices
+    if (payload && await getCloudSettings(false) == null) {
+        throw new Error("Could not merge the cloud settings. Use \"Merge with Cloud\" and try again");
+    }
+
+    await setCloudEncryptionKey(await createEncryptionKey(passphrase));
+    logger.info(currentKey ? "Rotated cloud encryption passphrase" : "Enabled cloud encryption");
+
+    await putCloudSettings(true, payload ? PlainSettings.cloud.settingsSyncVersion : undefined);
+}
+
+/**
+ * Stop encrypting cloud settings uploaded from this device
+ */
+export async function removeCloudEncryption() {
+    if (!await checkCloudUrlCsp()) return;
+
+    const payload = await getCloudPayload();
+    if (payload && await getCloudSettings(false) == null) {
+        showNotification({
+            title: "Cloud Settings",
+            body: "Could not merge the cloud settings, so encryption was not disabled. Use \"Merge with Cloud\" and try again.",
+            color: "var(--red-360)"
+        });
+        return;
+    }
+
+    await setCloudEncryptionKey(null);
+    logger.info("Disabled cloud encryption");
+
+    // Only upload over the version that was just merged, so changes made on other devices in the meantime are kept
+    await putCloudSettings(true, payload ? PlainSettings.cloud.settingsSyncVersion : undefined);
+}
+
+interface CloudEncryptionModalProps extends ModalProps {
+    rotating: boolean;
+    onDone?(): void;
+}
+
+function CloudEncryptionModal({ rotating, onDone, transitionState, onClose }: CloudEncryptionModalProps) {
+    const [passphrase, setPassphrase] = useState("");
+    const [confirmation, setConfirmation] = useState("");
+    const [error, setError] = useState<string>();
+    const [saving, setSaving] = useState(false);
+
+    const mismatch = confirmation && passphrase !== confirmation ? "Passphrases don't match" : undefined;
+
+    async function onSave() {
+        setSaving(true);
+        setError(undefined);
+
+        try {
+            await setCloudEncryptionPassphrase(passphrase);
+            onDone?.();
+            onClose();
+        } catch (e: any) {
+            logger.error("Failed to set encryption passphrase", e);
+            setError(String(e.message ?? e));
+            setSaving(false);
+        }
+    }
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.SMALL}>
+            <ModalHeader separator={false}>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>
+                    {rotating ? "Change Encryption Passphrase" : "Set Encryption Passphrase"}
+                </Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <Paragraph className={Margins.bottom16}>
+                    Your settings will be encrypted on this device before being uploaded, so the cloud can't read them.
+                    Enter the same passphrase on all your devices. If you forget it, your cloud settings can't be recovered.
+                </Paragraph>
+
+                <Forms.FormTitle tag="h5">Passphrase</Forms.FormTitle>
+                <TextInput
+                    type="password"
+                    value={passphrase}
+                    onChange={setPassphrase}
+                    error={error}
+                />
+                <Forms.FormTitle tag="h5" className={Margins.top16}>Confirm Passphrase</Forms.FormTitle>
+                <TextInput
+                    type="password"
+                    value={confirmation}
+                    onChange={setConfirmation}
+                    error={mismatch}
+                    className={Margins.bottom16}
+                />
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex>
+                    <Button color={Button.Colors.PRIMARY} onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button disabled={!passphrase || passphrase !== confirmation || saving} onClick={onSave}>
+                        Save
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export async function openCloudEncryptionModal(onDone?: () => void) {
+    const rotating = await getCloudEncryptionKey() != null;
+    openModal(props => <CloudEncryptionModal {...props} rotating={rotating} onDone={onDone} />);
+}
@@ -4,32 +4,139 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import * as DataStore from "@api/DataStore";
 import { showNotification } from "@api/Notifications";
 import { PlainSettings, Settings } from "@api/Settings";
+import { localStorage } from "@utils/localStorage";
 import { Logger } from "@utils/Logger";
 import { relaunch } from "@utils/native";
 import { deflateSync, inflateSync } from "fflate";
 
-import { checkCloudUrlCsp, deauthorizeCloud, getCloudAuth, getCloudUrl } from "./cloudSetup";
-import { exportSettings, importSettings } from "./offline";
+import { checkCloudUrlCsp, deauthorizeCloud, getCloudAuth, getCloudEncryptionKey, getCloudUrl, openCloudEncryptionModal } from "./cloudSetup";
+import { decryptPayload, encryptPayload, isEncryptedPayload, isKeyForPayload, parseEncryptedPayload } from "./encryption";
+import { mergeSettings, resolveConflicts, SettingsPath, SyncConflict } from "./merge";
+import { applySettingsBackup, exportSettings, importSettings, parseSettingsBackup, SettingsBackup } from "./offline";
 
 const logger = new Logger("SettingsSync:Cloud", "#39b7e0");
 
-export async function putCloudSettings(manual?: boolean) {
+/** DataStore key of the settings as they were when last synced, the base of three-way merges */
+const SYNC_BASE_KEY = "Vencord_cloudSyncBase";
+/** localStorage key of the settings paths changed since the last sync, used to merge when there is no base yet */
+const CHANGED_PATHS_KEY = "Vencord_cloudSyncChangedPaths";
+
+let isMerging = false;
+let notifiedDeferredConflicts = false;
+/** Set while the cloud settings can't be decrypted on this device, until the passphrase is entered */
+let awaitingPassphrase = false;
+
+/** Whether background syncs should be skipped because the passphrase of the cloud settings is missing */
+export const isCloudSyncAwaitingPassphrase = () => awaitingPassphrase;
+
+/**
+ * Lets the user choose between the local and cloud value of conflicting settings
+ * @returns The chosen side for each conflict, or null if the user cancelled
+ */
+export type SyncConflictResolver = (conflicts: SyncConflict[]) => Promise<Array<[SyncConflict, "local" | "remote"]> | null>;
+
+function getLocallyChangedPaths(): string[] {
+    try {
+        return JSON.parse(localStorage.getItem(CHANGED_PATHS_KEY) ?? "[]");
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Record that a setting was changed locally since the last sync
+ * @param path The path of the setting, as passed to SettingsStore change listeners
+ */
+export function trackLocalSettingsChange(path: string) {
+    // Device specific, never synced. An empty path means everything was replaced, which can't be tracked per path
+    if (!path || path === "cloud" || path.startsWith("cloud.")) return;
+
+    const paths = getLocallyChangedPaths();
+    if (paths.includes(path)) return;
+
+    paths.push(path);
+    localStorage.setItem(CHANGED_PATHS_KEY, JSON.stringify(paths));
+}
+
+function isLocallyChanged(path: SettingsPath) {
+    if (path[0] !== "settings") return false;
+
+    const settingPath = path.slice(1).join(".");
+    return getLocallyChangedPaths().some(p => settingPath === p || settingPath.startsWith(p + ".") || p.startsWith(settingPath + "."));
+}
+
+async function setSyncBase(backup: SettingsBackup) {
+    await DataStore.set(SYNC_BASE_KEY, backup);
+    localStorage.removeItem(CHANGED_PATHS_KEY);
+}
+
+async function clearSyncBase() {
+    await DataStore.del(SYNC_BASE_KEY);
+}
+
+/**
+ * @returns The decrypted payload, or null if this device doesn't have the key it was encrypted with
+ */
+async function decryptCloudPayload(data: Uint8Array) {
+    const envelope = parseEncryptedPayload(data);
+    const key = await getCloudEncryptionKey();
+
+    if (!key || !await isKeyForPayload(key, envelope)) {
+        logger.warn("Cloud settings are encrypted with a key this device doesn't have");
+
+        // Only notify once per session, instead of on every background sync
+        if (awaitingPassphrase) return null;
+        awaitingPassphrase = true;
+
+        showNotification({
+            title: "Cloud Settings",
+            body: key
+                ? "Your cloud settings are encrypted with a different passphrase, likely changed on another device. Click here to enter it."
+                : "Your cloud settings are encrypted. Click here to enter your passphrase.",
+            color: "var(--yellow-360)",
+            onClick: () => openCloudEncryptionModal()
+        });
+        return null;
+    }
+
+    awaitingPassphrase = false;
+    return decryptPayload(key, envelope);
+}
+
+/**
+ * @param manual Whether to notify on success
+ * @param expectedVersion Only upload if the cloud settings are still at this version, so changes made in the meantime
+ *                        by other devices are not overwritten
+ */
+export async function putCloudSettings(manual?: boolean, expectedVersion?: number) {
     const settings = await exportSettings({ minify: true });
 
     if (!await checkCloudUrlCsp()) return;
 
     try {
+        const encryptionKey = await getCloudEncryptionKey();
+
+        let body = deflateSync(new TextEncoder().encode(settings));
+        if (encryptionKey) body = await encryptPayload(encryptionKey, body);
+
         const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
             method: "PUT",
             headers: {
                 Authorization: await getCloudAuth(),
-                "Content-Type": "application/octet-stream"
+                "Content-Type": "application/octet-stream",
+                ...(expectedVersion != null && { "If-Match": expectedVersion.toString() })
             },
-            body: deflateSync(new TextEncoder().encode(settings)) as Uint8Array<ArrayBuffer>
+            body: body as Uint8Array<ArrayBuffer>
         });
 
+        if (res.status === 412) {
+            logger.warn("Cloud settings were changed by another device while syncing, they will be merged on the next sync");
+            return;
+        }
+
         if (!res.ok) {
             logger.error(`Failed to sync up, API returned ${res.status}`);
             showNotification({
@@ -43,6 +150,7 @@ export async function putCloudSettings(manual?: boolean) {
         const { written } = await res.json();
         PlainSettings.cloud.settingsSyncVersion = written;
         VencordNative.settings.set(PlainSettings);
+        await setSyncBase(JSON.parse(settings));
 
         logger.info("Settings uploaded to cloud successfully");
 
@@ -63,8 +171,16 @@ export async function putCloudSettings(manual?: boolean) {
     }
 }
 
-export async function getCloudSettings(shouldNotify = true, force = false) {
-    if (!await checkCloudUrlCsp()) return;
+/**
+ * @param shouldNotify Whether to notify if nothing changed or the settings were updated
+ * @param force Whether to overwrite the local settings instead of merging
+ * @param resolveConflicts Used to resolve settings changed both locally and on the cloud. Without it, syncing is deferred
+ *                         if there are conflicts, so background syncs never interrupt the user
+ * @returns Whether local settings were changed, or null if the cloud settings could not be merged, for example because
+ *          syncing failed or conflicts were deferred
+ */
+export async function getCloudSettings(shouldNotify = true, force = false, resolveConflicts?: SyncConflictResolver) {
+    if (!await checkCloudUrlCsp()) return null;
 
     try {
         const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
@@ -105,31 +221,41 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
                 body: `Could not synchronize settings from the cloud (API returned ${res.status}).`,
                 color: "var(--red-360)"
             });
-            return false;
+            return null;
         }
 
         const written = Number(res.headers.get("etag")!);
-        const localWritten = Settings.cloud.settingsSyncVersion;
 
-        // don't need to check for written > localWritten because the server will return 304 due to if-none-match
-        if (!force && written < localWritten) {
-            if (shouldNotify)
-                showNotification({
-                    title: "Cloud Settings",
-                    body: "Your local settings are newer than the cloud ones.",
-                    noPersist: true,
-                });
-            return;
+        let data: Uint8Array | null = new Uint8Array(await res.arrayBuffer());
+        if (isEncryptedPayload(data)) {
+            data = await decryptCloudPayload(data);
+            if (!data) return null;
         }
 
-        const data = await res.arrayBuffer();
-
-        const settings = new TextDecoder().decode(inflateSync(new Uint8Array(data)));
-        await importSettings(settings);
-
-        // sync with server timestamp instead of local one
-        PlainSettings.cloud.settingsSyncVersion = written;
-        VencordNative.settings.set(PlainSettings);
+        const settings = new TextDecoder().decode(inflateSync(data));
+
+        if (force) {
+            await importSettings(settings);
+            await setSyncBase(parseSettingsBackup(settings));
+
+            // sync with server timestamp instead of local one
+            PlainSettings.cloud.settingsSyncVersion = written;
+            VencordNative.settings.set(PlainSettings);
+        } else {
+            const localChanged = await mergeCloudSettings(parseSettingsBackup(settings), written, resolveConflicts);
+            if (localChanged == null) return null;
+
+            if (!localChanged) {
+                logger.info("Cloud settings merged, no local changes");
+                if (shouldNotify)
+                    showNotification({
+                        title: "Cloud Settings",
+                        body: "Your settings are up to date.",
+                        noPersist: true
+                    });
+                return false;
+            }
+        }
 
         logger.info("Settings loaded from cloud successfully");
         if (shouldNotify)
@@ -150,10 +276,85 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
             color: "var(--red-360)"
         });
 
-        return false;
+        return null;
+    }
+}
+
+/**
+ * Three-way merge cloud settings into the local ones, uploading the result if the cloud is missing local changes.
+ * Settings changed on both sides are resolved by the user if a resolver is given
+ *
+ * @returns Whether local settings were changed, or null if nothing was merged because conflicts were not resolved
+ *          or another merge is in progress
+ */
+async function mergeCloudSettings(remote: SettingsBackup, written: number, resolveConflicts?: SyncConflictResolver) {
+    if (isMerging) return null;
+
+    isMerging = true;
+    try {
+        return await mergeCloudSettingsUnguarded(remote, written, resolveConflicts);
+    } finally {
+        isMerging = false;
     }
 }
 
+async function mergeCloudSettingsUnguarded(remote: SettingsBackup, written: number, resolveConflictsWith?: SyncConflictResolver) {
+    const base = await DataStore.get<SettingsBackup>(SYNC_BASE_KEY) ?? null;
+    const local = parseSettingsBackup(await exportSettings({ minify: true }));
+
+    const { merged, conflicts, localChanged, remoteChanged } = mergeSettings(base, local, remote, isLocallyChanged);
+
+    let changesLocal = localChanged;
+    if (conflicts.length) {
+        logger.info(`${conflicts.length} settings were changed both locally and on the cloud`);
+
+        // Keep the local settings as they are and leave the cloud version unmerged, so the next sync finds the same conflicts
+        if (!resolveConflictsWith) {
+            logger.info("Sync deferred until the conflicts are resolved manually");
+            if (!notifiedDeferredConflicts) {
+                notifiedDeferredConflicts = true;
+                showNotification({
+                    title: "Cloud Settings",
+                    body: "Some settings were changed both on this device and on another one. Use \"Merge with Cloud\" in the Cloud tab to choose which to keep.",
+                    color: "var(--yellow-360)"
+                });
+            }
+            return null;
+        }
+
+        const resolutions = await resolveConflictsWith(conflicts);
+        if (!resolutions) {
+            logger.info("Sync cancelled while resolving conflicts");
+            return null;
+        }
+
+        resolveConflicts(merged, resolutions);
+        notifiedDeferredConflicts = false;
+        changesLocal ||= resolutions.some(([, side]) => side === "remote");
+    }
+
+    if (changesLocal) {
+        await applySettingsBackup(merged, {
+            general: true,
+            quickCss: true,
+            plugins: Object.keys(merged.settings.plugins ?? {}),
+            dataStore: Object.keys(merged.dataStore ?? {})
+        });
+    }
+
+    // sync with server timestamp instead of local one
+    PlainSettings.cloud.settingsSyncVersion = written;
+    VencordNative.settings.set(PlainSettings);
+
+    if (remoteChanged) {
+        await putCloudSettings(false, written);
+    } else {
+        await setSyncBase(remote);
+    }
+
+    return changesLocal;
+}
+
 export async function deleteCloudSettings() {
     if (!await checkCloudUrlCsp()) return;
 
@@ -173,6 +374,8 @@ export async function deleteCloudSettings() {
             return;
         }
 
+        await clearSyncBase();
+
         logger.info("Settings deleted from cloud successfully");
         showNotification({
             title: "Cloud Settings",
@@ -209,6 +412,7 @@ export async function eraseAllCloudData() {
 
     Settings.cloud.authenticated = false;
     await deauthorizeCloud();
+    await clearSyncBase();
 
     showNotification({
         title: "Cloud Integrations",
@@ -0,0 +1,219 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { Logger } from "@utils/Logger";
+
+const logger = new Logger("SettingsSync:DataStore", "#39b7e0");
+
+export type DataStoreKeyMatcher = string | RegExp;
+
+/** DataStore values encoded so they survive JSON serialization */
+export type EncodedDataStore = Record<string, unknown>;
+
+export interface DataStoreBackupEntry {
+    key: string;
+    /** The plugin or API which registered this key */
+    owner: string;
+    /** Size of the encoded value in bytes */
+    size: number;
+}
+
+const backupKeys = new Map<string, DataStoreKeyMatcher[]>();
+
+/**
+ * Register DataStore keys which hold user data, so they are included in settings backups and cloud sync.
+ * Use a RegExp for keys which are generated at runtime, like ones including the current user id.
+ *
+ * @param owner The plugin or API the keys belong to
+ * @param keys The keys, or patterns matching them
+ */
+export function registerBackupDataStoreKeys(owner: string, keys: DataStoreKeyMatcher[]) {
+    backupKeys.set(owner, [...backupKeys.get(owner) ?? [], ...keys]);
+}
+
+/**
+ * @returns The owner which registered a key for backups, or null if it should not be backed up
+ */
+export function getDataStoreKeyOwner(key: string) {
+    for (const [owner, matchers] of backupKeys) {
+        if (matchers.some(m => typeof m === "string" ? m === key : (m.global && (m.lastIndex = 0), m.test(key)))) {
+            return owner;
+        }
+    }
+
+    return null;
+}
+
+const TYPE_KEY = "$vcType";
+
+/** Binary views which are encoded as their bytes, tagged with their name */
+const BINARY_VIEWS = {
+    DataView,
+    Int8Array,
+    Uint8Array,
+    Uint8ClampedArray,
+    Int16Array,
+    Uint16Array,
+    Int32Array,
+    Uint32Array,
+    Float32Array,
+    Float64Array,
+    BigInt64Array,
+    BigUint64Array
+};
+
+export function bytesToBase64(bytes: Uint8Array) {
+    let binary = "";
+    // Chunked to avoid exceeding the maximum amount of arguments
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+export function base64ToBytes(base64: string) {
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+/**
+ * Encode a structured clonable value, like the ones IndexedDB stores, into a JSON safe value.
+ * Maps, Sets, Dates, BigInts, undefined and binary data are tagged so {@link decodeValue} can restore them.
+ */
+export function encodeValue(value: unknown): unknown {
+    if (value === undefined) return { [TYPE_KEY]: "undefined" };
+    if (typeof value === "bigint") return { [TYPE_KEY]: "BigInt", value: value.toString() };
+    if (value === null || typeof value !== "object") return value;
+
+    if (Array.isArray(value)) return value.map(encodeValue);
+    if (value instanceof Map) return { [TYPE_KEY]: "Map", value: Array.from(value, ([k, v]) => [encodeValue(k), encodeValue(v)]) };
+    if (value instanceof Set) return { [TYPE_KEY]: "Set", value: Array.from(value, encodeValue) };
+    if (value instanceof Date) return { [TYPE_KEY]: "Date", value: value.getTime() };
+    if (value instanceof RegExp) return { [TYPE_KEY]: "RegExp", value: [value.source, value.flags] };
+    if (value instanceof ArrayBuffer) return { [TYPE_KEY]: "ArrayBuffer", value: bytesToBase64(new Uint8Array(value)) };
+    if (ArrayBuffer.isView(value)) {
+        const type = Object.keys(BINARY_VIEWS).find(name => value.constructor === BINARY_VIEWS[name]);
+        if (!type) throw new Error(`Can't encode binary data of type ${value.constructor.name}`);
+
+        return {
+            [TYPE_KEY]: type,
+            value: bytesToBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+        };
+    }
+
+    const encoded = {} as Record<string, unknown>;
+    for (const key in value) {
+        encoded[key] = encodeValue(value[key]);
+    }
+
+    // Escape objects which would otherwise be mistaken for tagged values
+    return Object.hasOwn(encoded, TYPE_KEY)
+        ? { [TYPE_KEY]: "Object", value: encoded }
+        : encoded;
+}
+
+/**
+ * Decode a value encoded with {@link encodeValue}
+ */
+export function decodeValue(value: unknown): unknown {
+    if (value === null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map(decodeValue);
+
+    if (!Object.hasOwn(value, TYPE_KEY)) {
+        const decoded = {} as Record<string, unknown>;
+        for (const key in value) {
+            decoded[key] = decodeValue(value[key]);
+        }
+        return decoded;
+    }
+
+    const { [TYPE_KEY]: type, value: inner } = value as { [TYPE_KEY]: string; value: any; };
+    switch (type) {
+        case "undefined": return undefined;
+        case "BigInt": return BigInt(inner);
+        case "Map": return new Map(inner.map(([k, v]) => [decodeValue(k), decodeValue(v)]));
+        case "Set": return new Set(inner.map(decodeValue));
+        case "Date": return new Date(inner);
+        case "RegExp": return new RegExp(inner[0], inner[1]);
+        case "ArrayBuffer": return base64ToBytes(inner).buffer;
+        case "Object": {
+            const decoded = {} as Record<string, unknown>;
+            for (const key in inner) {
+                decoded[key] = decodeValue(inner[key]);
+            }
+            return decoded;
+        }
+    }
+
+    if (Object.hasOwn(BINARY_VIEWS, type)) {
+        return new BINARY_VIEWS[type](base64ToBytes(inner).buffer);
+    }
+
+    throw new Error(`Unknown encoded DataStore value type ${type}`);
+}
+
+/**
+ * Export all DataStore values registered for backups, encoded so they can be serialized as JSON
+ */
+export async function exportDataStore(): Promise<EncodedDataStore> {
+    const data = {} as EncodedDataStore;
+
+    for (const [key, value] of await DataStore.entries()) {
+        if (typeof key !== "string" || !getDataStoreKeyOwner(key)) continue;
+
+        try {
+            data[key] = encodeValue(value);
+        } catch (err) {
+            logger.error(`Failed to encode DataStore key ${key}, not including it in the backup\n`, err);
+        }
+    }
+
+    return data;
+}
+
+/**
+ * List the registered DataStore values in an encoded DataStore, with their owner and size
+ */
+export function getDataStoreBackupEntries(data: EncodedDataStore): DataStoreBackupEntry[] {
+    const encoder = new TextEncoder();
+
+    return Object.keys(data)
+        .map(key => ({
+            key,
+            owner: getDataStoreKeyOwner(key)!,
+            size: encoder.encode(JSON.stringify(data[key]) ?? "").length
+        }))
+        .filter(entry => entry.owner != null);
+}
+
+/**
+ * Restore values from an encoded DataStore. Keys which are not registered for backups are ignored
+ *
+ * @param data The encoded DataStore
+ * @param keys The keys to restore. Defaults to all of them
+ */
+export async function importDataStore(data: EncodedDataStore, keys = Object.keys(data)) {
+    const entries = [] as [string, unknown][];
+
+    for (const key of keys) {
+        if (!Object.hasOwn(data, key)) continue;
+
+        if (!getDataStoreKeyOwner(key)) {
+            logger.warn(`Not importing DataStore key ${key}, as it is not registered for backups`);
+            continue;
+        }
+
+        try {
+            entries.push([key, decodeValue(data[key])]);
+        } catch (err) {
+            logger.error(`Failed to decode DataStore key ${key}, not importing it\n`, err);
+        }
+    }
+
+    if (entries.length) {
+        await DataStore.setMany(entries);
+    }
+}
@@ -0,0 +1,142 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { base64ToBytes, bytesToBase64 } from "./dataStore";
+
+/**
+ * Prefix of encrypted payloads. Unencrypted payloads are raw deflate streams, which can never start with "V"
+ * since that would be a block of the reserved type 3
+ */
+const MAGIC = new TextEncoder().encode("VCE1");
+const KEY_CHECK_PLAINTEXT = "Vencord Cloud Settings Key Check";
+const PBKDF2_ITERATIONS = 600_000;
+
+interface EncryptedBlob {
+    iv: string;
+    data: string;
+}
+
+interface EncryptedEnvelope {
+    version: 1;
+    kdf: {
+        name: "PBKDF2";
+        hash: "SHA-256";
+        iterations: number;
+        salt: string;
+    };
+    /** A known plaintext encrypted with the key, to detect wrong passphrases before decrypting anything else */
+    keyCheck: EncryptedBlob;
+    payload: EncryptedBlob;
+}
+
+export interface CloudEncryptionKey {
+    /** Non extractable AES-GCM key derived from the passphrase */
+    key: CryptoKey;
+    salt: string;
+    iterations: number;
+    keyCheck: EncryptedBlob;
+}
+
+async function encrypt(key: CryptoKey, data: Uint8Array): Promise<EncryptedBlob> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, data as Uint8Array<ArrayBuffer>);
+
+    return {
+        iv: bytesToBase64(iv),
+        data: bytesToBase64(new Uint8Array(encrypted))
+    };
+}
+
+async function decrypt(key: CryptoKey, { iv, data }: EncryptedBlob) {
+    const decrypted = await crypto.subtle.decrypt({ name: "AES-GCM", iv: base64ToBytes(iv) }, key, base64ToBytes(data));
+    return new Uint8Array(decrypted);
+}
+
+/**
+ * Derive an encryption key from a passphrase
+ *
+ * @param passphrase The passphrase
+ * @param salt The salt to derive the key with, in base64. Omit to generate a new one, like when setting or rotating a passphrase
+ * @param iterations The PBKDF2 iterations to use
+ */
+export async function createEncryptionKey(passphrase: string, salt?: string, iterations = PBKDF2_ITERATIONS): Promise<CloudEncryptionKey> {
+    salt ??= bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+    const baseKey = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+    const key = await crypto.subtle.deriveKey(
+        { name: "PBKDF2", hash: "SHA-256", salt: base64ToBytes(salt), iterations },
+        baseKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    );
+
+    return {
+        key,
+        salt,
+        iterations,
+        keyCheck: await encrypt(key, new TextEncoder().encode(KEY_CHECK_PLAINTEXT))
+    };
+}
+
+export function isEncryptedPayload(data: Uint8Array) {
+    return data.length >= MAGIC.length && MAGIC.every((byte, i) => data[i] === byte);
+}
+
+export function parseEncryptedPayload(data: Uint8Array): EncryptedEnvelope {
+    const envelope = JSON.parse(new TextDecoder().decode(data.subarray(MAGIC.length)));
+    if (envelope?.version !== 1 || envelope.kdf?.name !== "PBKDF2")
+        throw new Error("Unsupported encrypted settings format. Update Vencord to decrypt them");
+
+    return envelope;
+}
+
+/**
+ * Derive the key an encrypted payload was encrypted with
+ * @returns The key, or null if the passphrase is wrong
+ */
+export async function createEncryptionKeyForPayload(passphrase: string, envelope: EncryptedEnvelope) {
+    const key = await createEncryptionKey(passphrase, envelope.kdf.salt, envelope.kdf.iterations);
+    return await isKeyForPayload(key, envelope) ? key : null;
+}
+
+/**
+ * Check whether a key can decrypt a payload, using its key check instead of the actual payload
+ */
+export async function isKeyForPayload({ key, salt, iterations }: CloudEncryptionKey, envelope: EncryptedEnvelope) {
+    if (salt !== envelope.kdf.salt || iterations !== envelope.kdf.iterations) return false;
+
+    try {
+        return new TextDecoder().decode(await decrypt(key, envelope.keyCheck)) === KEY_CHECK_PLAINTEXT;
+    } catch {
+        // AES-GCM fails to authenticate data encrypted with another key
+        return false;
+    }
+}
+
+export async function encryptPayload(encryptionKey: CloudEncryptionKey, data: Uint8Array) {
+    const envelope: EncryptedEnvelope = {
+        version: 1,
+        kdf: {
+            name: "PBKDF2",
+            hash: "SHA-256",
+            iterations: encryptionKey.iterations,
+            salt: encryptionKey.salt
+        },
+        keyCheck: encryptionKey.keyCheck,
+        payload: await encrypt(encryptionKey.key, data)
+    };
+
+    const json = new TextEncoder().encode(JSON.stringify(envelope));
+    const result = new Uint8Array(MAGIC.length + json.length);
+    result.set(MAGIC);
+    result.set(json, MAGIC.length);
+    return result;
+}
+
+export function decryptPayload({ key }: CloudEncryptionKey, envelope: EncryptedEnvelope) {
+    return decrypt(key, envelope.payload);
+}
@@ -0,0 +1,157 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { lodash } from "@webpack/common";
+
+import type { SettingsBackup } from "./offline";
+
+export type SettingsPath = string[];
+
+export interface SyncConflict {
+    path: SettingsPath;
+    base: unknown;
+    local: unknown;
+    remote: unknown;
+}
+
+export interface SettingsMergeResult {
+    /** The merged settings. Conflicting paths keep their local value until resolved */
+    merged: SettingsBackup;
+    conflicts: SyncConflict[];
+    /** Whether the merged settings differ from the local ones */
+    localChanged: boolean;
+    /** Whether the merged settings differ from the remote ones */
+    remoteChanged: boolean;
+}
+
+/** Paths which are specific to each device and never merged */
+const EXCLUDED_PATHS = [["settings", "cloud"]];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return value != null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Whether values at this path are compared as a whole. Plugin settings and DataStore values are,
+ * since they are often objects which only make sense together (rule lists, tag maps...)
+ */
+function isAtomicPath(path: SettingsPath) {
+    if (path[0] === "dataStore") return path.length >= 2;
+    if (path[0] === "settings" && path[1] === "plugins") return path.length >= 4;
+    return false;
+}
+
+const isExcluded = (path: SettingsPath) => EXCLUDED_PATHS.some(excluded => lodash.isEqual(excluded, path));
+
+/**
+ * Flatten settings into the paths which are merged independently of each other
+ */
+export function flattenSettings(value: unknown, path: SettingsPath = [], out = new Map<string, [SettingsPath, unknown]>()) {
+    if (isExcluded(path)) return out;
+
+    if (!isAtomicPath(path) && isPlainObject(value) && Object.keys(value).length) {
+        for (const key in value) {
+            flattenSettings(value[key], [...path, key], out);
+        }
+    } else {
+        out.set(JSON.stringify(path), [path, value]);
+    }
+
+    return out;
+}
+
+function setPath(target: Record<string, any>, path: SettingsPath, value: unknown) {
+    let current = target;
+    for (const key of path.slice(0, -1)) {
+        if (!isPlainObject(current[key])) current[key] = {};
+        current = current[key];
+    }
+
+    current[path[path.length - 1]] = value;
+}
+
+/**
+ * Three-way merge local and remote settings, using the settings both sides had when they were last synced.
+ * Paths only changed on one side take that side's value. Paths changed on both sides to different values are conflicts.
+ *
+ * @param base The settings when they were last synced, or null if unknown
+ * @param local The current local settings
+ * @param remote The current remote settings
+ * @param isLocallyChanged Fallback used without a base, to know whether a path was changed locally since the last sync
+ */
+export function mergeSettings(
+    base: SettingsBackup | null,
+    local: SettingsBackup,
+    remote: SettingsBackup,
+    isLocallyChanged: (path: SettingsPath) => boolean
+): SettingsMergeResult {
+    const baseFlat = base && flattenSettings(base);
+    const localFlat = flattenSettings(local);
+    const remoteFlat = flattenSettings(remote);
+
+    const merged = {} as Record<string, any>;
+    const conflicts = [] as SyncConflict[];
+
+    for (const key of new Set([...baseFlat?.keys() ?? [], ...localFlat.keys(), ...remoteFlat.keys()])) {
+        const path = (localFlat.get(key) ?? remoteFlat.get(key) ?? baseFlat!.get(key))![0];
+        const baseValue = baseFlat?.get(key)?.[1];
+        const localValue = localFlat.get(key)?.[1];
+        const remoteValue = remoteFlat.get(key)?.[1];
+
+        let value: unknown;
+        if (lodash.isEqual(localValue, remoteValue)) {
+            value = localValue;
+        } else {
+            const localChanged = baseFlat ? !lodash.isEqual(localValue, baseValue) : isLocallyChanged(path);
+            const remoteChanged = baseFlat ? !lodash.isEqual(remoteValue, baseValue) : !localChanged;
+
+            if (!remoteChanged) {
+                value = localValue;
+            } else if (!localChanged) {
+                value = remoteValue;
+            } else {
+                conflicts.push({ path, base: baseValue, local: localValue, remote: remoteValue });
+                value = localValue;
+            }
+        }
+
+        if (value !== undefined) setPath(merged, path, value);
+    }
+
+    merged.settings ??= {};
+    merged.settings.cloud = local.settings.cloud;
+    merged.quickCss ??= "";
+
+    const mergedFlat = flattenSettings(merged);
+    const differs = (flat: Map<string, [SettingsPath, unknown]>) =>
+        flat.size !== mergedFlat.size || [...mergedFlat].some(([key, [, value]]) => !lodash.isEqual(flat.get(key)?.[1], value));
+
+    return {
+        merged: merged as SettingsBackup,
+        conflicts,
+        localChanged: differs(localFlat),
+        remoteChanged: differs(remoteFlat)
+    };
+}
+
+/**
+ * Apply the chosen side of conflicts to merged settings
+ *
+ * @param merged The merged settings
+ * @param resolutions Whether to use the remote value, for each conflict
+ */
+export function resolveConflicts(merged: SettingsBackup, resolutions: Array<[SyncConflict, "local" | "remote"]>) {
+    for (const [conflict, side] of resolutions) {
+        const value = side === "remote" ? conflict.remote : conflict.local;
+
+        if (value === undefined) {
+            const parent = lodash.get(merged, conflict.path.slice(0, -1));
+            if (parent) delete parent[conflict.path[conflict.path.length - 1]];
+        } else {
+            setPath(merged, conflict.path, value);
+        }
+    }
+}
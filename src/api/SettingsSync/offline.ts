@@ -4,10 +4,53 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { PlainSettings } from "@api/Settings";
+import { DefaultSettings, PlainSettings, Settings } from "@api/Settings";
 import { Logger } from "@utils/Logger";
+import { OptionType, Plugin } from "@utils/types";
 import { chooseFile, saveFile } from "@utils/web";
-import { moment, Toasts } from "@webpack/common";
+import { lodash, moment, Toasts } from "@webpack/common";
+
+import plugins from "~plugins";
+
+import { DataStoreBackupEntry, EncodedDataStore, exportDataStore, getDataStoreBackupEntries, importDataStore } from "./dataStore";
+
+export interface SettingsBackup {
+    settings: Settings;
+    quickCss: string;
+    /** Missing in backups made before DataStore values were included */
+    dataStore?: EncodedDataStore;
+}
+
+export interface SettingsImportChange {
+    key: string;
+    oldValue: unknown;
+    /** undefined if the setting will be reset to its default */
+    newValue: unknown;
+    /** Why the new value is invalid. Invalid values are not imported */
+    error?: string;
+}
+
+export interface SettingsImportPreview {
+    /** Changes to Vencord settings which don't belong to a plugin */
+    general: SettingsImportChange[];
+    /** Changes to the settings of each plugin. Only plugins with changes are included */
+    plugins: Record<string, SettingsImportChange[]>;
+    quickCssChanged: boolean;
+    /** DataStore values in the backup which differ from the current ones */
+    dataStore: DataStoreBackupEntry[];
+}
+
+export interface SettingsImportSelection {
+    general: boolean;
+    quickCss: boolean;
+    /** Names of the plugins whose settings should be restored */
+    plugins: string[];
+    /** DataStore keys which should be restored */
+    dataStore: string[];
+}
+
+/** Top level keys which are not restored as part of the general settings */
+const NON_GENERAL_KEYS = ["plugins", "pluginSettingsVersions"];
 
 const toast = (type: string, message: string) =>
     Toasts.show({
@@ -16,10 +59,10 @@ const toast = (type: string, message: string) =>
         id: Toasts.genId()
     });
 
-const toastSuccess = () =>
+export const toastSuccess = () =>
     toast(Toasts.Type.SUCCESS, "Settings successfully imported. Restart to apply changes!");
 
-const toastFailure = (err: any) =>
+export const toastFailure = (err: any) =>
     toast(Toasts.Type.FAILURE, `Failed to import settings: ${String(err)}`);
 
 const logger = new Logger("SettingsSync:Offline", "#39b7e0");
@@ -39,7 +82,11 @@ function isSafeObject(obj: any) {
     return true;
 }
 
-export async function importSettings(data: string) {
+// Not isObject from @utils/misc, as its module needs a browser, which the cloud sync tests don't have
+const isJsonObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function parseSettingsBackup(data: string): SettingsBackup {
     try {
         var parsed = JSON.parse(data);
     } catch (err) {
@@ -50,18 +97,204 @@ export async function importSettings(data: string) {
     if (!isSafeObject(parsed))
         throw new Error("Unsafe Settings");
 
-    if ("settings" in parsed && "quickCss" in parsed) {
-        Object.assign(PlainSettings, parsed.settings);
-        await VencordNative.settings.set(parsed.settings);
-        await VencordNative.quickCss.set(parsed.quickCss);
-    } else
+    if (parsed == null || !isJsonObject(parsed.settings) || typeof parsed.quickCss !== "string")
         throw new Error("Invalid Settings. Is this even a Vencord Settings file?");
+
+    if (parsed.settings.plugins != null && !isJsonObject(parsed.settings.plugins))
+        throw new Error("Invalid plugin settings");
+
+    if (parsed.dataStore != null && !isJsonObject(parsed.dataStore))
+        throw new Error("Invalid DataStore data");
+
+    return parsed;
+}
+
+/**
+ * Validate a value against the settings definition of a plugin.
+ * @returns Why the value is invalid, or null if it is valid
+ */
+export function validatePluginSetting(plugin: Plugin, key: string, value: unknown): string | null {
+    if (key === "enabled") {
+        return typeof value === "boolean" ? null : "Expected a boolean";
+    }
+
+    const option = plugin.options?.[key];
+    // Private settings, or settings of another version of the plugin. Nothing to validate them against
+    if (!option) return null;
+
+    switch (option.type) {
+        case OptionType.STRING:
+            if (typeof value !== "string") return "Expected a string";
+            break;
+        case OptionType.NUMBER:
+        case OptionType.SLIDER:
+            if (typeof value !== "number" || Number.isNaN(value)) return "Expected a number";
+            break;
+        case OptionType.BIGINT:
+            if (!["bigint", "number", "string"].includes(typeof value) || !/^-?\d+$/.test(String(value))) return "Expected an integer";
+            break;
+        case OptionType.BOOLEAN:
+            if (typeof value !== "boolean") return "Expected a boolean";
+            break;
+        case OptionType.SELECT:
+            if (!option.options.some(o => o.value === value)) return `Expected one of ${option.options.map(o => JSON.stringify(o.value)).join(", ")}`;
+            break;
+        default:
+            return null;
+    }
+
+    if ("isValid" in option && option.isValid) {
+        try {
+            const result = option.isValid.call(plugin.settings, value as never);
+            if (result !== true) return typeof result === "string" ? result : "Invalid value";
+        } catch (err) {
+            return `Failed to validate: ${String(err)}`;
+        }
+    }
+
+    return null;
+}
+
+function diffObjects(oldObject: Record<string, any> = {}, newObject: Record<string, any> = {}, validate?: (key: string, value: unknown) => string | null) {
+    const changes = [] as SettingsImportChange[];
+
+    for (const key of new Set([...Object.keys(oldObject), ...Object.keys(newObject)])) {
+        const oldValue = oldObject[key];
+        const newValue = newObject[key];
+        if (lodash.isEqual(oldValue, newValue)) continue;
+
+        const error = newValue !== undefined ? validate?.(key, newValue) : null;
+        changes.push(error ? { key, oldValue, newValue, error } : { key, oldValue, newValue });
+    }
+
+    return changes;
 }
 
-export async function exportSettings({ minify }: { minify?: boolean; } = {}) {
+/**
+ * Compare a backup against the current settings, validating the plugin settings it contains
+ */
+export async function getSettingsImportPreview(backup: SettingsBackup): Promise<SettingsImportPreview> {
+    const general = diffObjects(
+        lodash.omit(PlainSettings, NON_GENERAL_KEYS),
+        lodash.omit(backup.settings, NON_GENERAL_KEYS)
+    );
+
+    const pluginChanges = {} as SettingsImportPreview["plugins"];
+    for (const name in backup.settings.plugins) {
+        const plugin = plugins[name] as Plugin | undefined;
+
+        const changes = diffObjects(
+            PlainSettings.plugins[name],
+            backup.settings.plugins[name],
+            plugin && ((key, value) => validatePluginSetting(plugin, key, value))
+        );
+
+        if (changes.length) pluginChanges[name] = changes;
+    }
+
+    let dataStore = [] as DataStoreBackupEntry[];
+    if (backup.dataStore) {
+        const currentDataStore = await exportDataStore();
+        dataStore = getDataStoreBackupEntries(backup.dataStore)
+            .filter(({ key }) => !lodash.isEqual(currentDataStore[key], backup.dataStore![key]));
+    }
+
+    return {
+        general,
+        plugins: pluginChanges,
+        quickCssChanged: backup.quickCss !== await VencordNative.quickCss.get(),
+        dataStore
+    };
+}
+
+/**
+ * Restore the selected parts of a backup. Invalid plugin settings are skipped, keeping their current value
+ */
+export async function applySettingsBackup(backup: SettingsBackup, selection: SettingsImportSelection) {
+    const newSettings: Settings = {
+        ...PlainSettings,
+        plugins: { ...PlainSettings.plugins },
+        pluginSettingsVersions: { ...PlainSettings.pluginSettingsVersions }
+    };
+
+    if (selection.general) {
+        const generalSettings = lodash.omit(backup.settings, NON_GENERAL_KEYS);
+
+        // Like when restoring the whole backup, settings it doesn't have go back to their default
+        for (const key of Object.keys(lodash.omit(newSettings, NON_GENERAL_KEYS))) {
+            if (Object.hasOwn(generalSettings, key)) continue;
+
+            if (Object.hasOwn(DefaultSettings, key)) generalSettings[key] = structuredClone(DefaultSettings[key]);
+            else delete newSettings[key];
+        }
+
+        Object.assign(newSettings, generalSettings);
+    }
+
+    for (const name of selection.plugins) {
+        const values = backup.settings.plugins?.[name];
+        if (!values) continue;
+
+        const plugin = plugins[name] as Plugin | undefined;
+        const currentValues = PlainSettings.plugins[name] ?? {};
+        const restoredValues = { ...values };
+
+        if (plugin) {
+            for (const key in restoredValues) {
+                const error = validatePluginSetting(plugin, key, restoredValues[key]);
+                if (!error) continue;
+
+                logger.warn(`Not importing invalid setting ${name}.${key}: ${error}`);
+                if (Object.hasOwn(currentValues, key)) {
+                    restoredValues[key] = currentValues[key];
+                } else {
+                    delete restoredValues[key];
+                }
+            }
+        }
+
+        newSettings.plugins[name] = restoredValues;
+
+        // Restored settings have the shape of the version they were backed up at, so migrations need to run again from there
+        const version = backup.settings.pluginSettingsVersions?.[name];
+        if (version != null) {
+            newSettings.pluginSettingsVersions[name] = version;
+        } else {
+            delete newSettings.pluginSettingsVersions[name];
+        }
+    }
+
+    Object.assign(PlainSettings, newSettings);
+    await VencordNative.settings.set(newSettings);
+
+    if (selection.quickCss) {
+        await VencordNative.quickCss.set(backup.quickCss);
+    }
+
+    if (backup.dataStore && selection.dataStore.length) {
+        await importDataStore(backup.dataStore, selection.dataStore);
+    }
+}
+
+/**
+ * Restore everything in a backup
+ */
+export async function importSettings(data: string) {
+    const backup = parseSettingsBackup(data);
+
+    await applySettingsBackup(backup, {
+        general: true,
+        quickCss: true,
+        plugins: Object.keys(backup.settings.plugins ?? {}),
+        dataStore: Object.keys(backup.dataStore ?? {})
+    });
+}
+
+export async function exportSettings({ minify, includeDataStore = true }: { minify?: boolean; includeDataStore?: boolean; } = {}) {
     const settings = VencordNative.settings.get();
     const quickCss = await VencordNative.quickCss.get();
-    return JSON.stringify({ settings, quickCss }, null, minify ? undefined : 4);
+    const dataStore = includeDataStore ? await exportDataStore() : undefined;
+    return JSON.stringify({ settings, quickCss, dataStore } satisfies SettingsBackup, null, minify ? undefined : 4);
 }
 
 export async function downloadSettingsBackup() {
@@ -76,7 +309,11 @@ export async function downloadSettingsBackup() {
     }
 }
 
-export async function uploadSettingsBackup(showToast = true): Promise<void> {
+/**
+ * Let the user pick a settings backup file
+ * @returns The contents of the file, or null if none was chosen
+ */
+export async function chooseSettingsBackup(): Promise<string | null> {
     if (IS_DISCORD_DESKTOP) {
         const [file] = await DiscordNative.fileManager.openFiles({
             filters: [
@@ -85,29 +322,22 @@ export async function uploadSettingsBackup(showToast = true): Promise<void> {
             ]
         });
 
-        if (file) {
-            try {
-                await importSettings(new TextDecoder().decode(file.data));
-                if (showToast) toastSuccess();
-            } catch (err) {
-                logger.error(err);
-                if (showToast) toastFailure(err);
-            }
-        }
-    } else {
-        const file = await chooseFile("application/json");
-        if (!file) return;
-
-        const reader = new FileReader();
-        reader.onload = async () => {
-            try {
-                await importSettings(reader.result as string);
-                if (showToast) toastSuccess();
-            } catch (err) {
-                logger.error(err);
-                if (showToast) toastFailure(err);
-            }
-        };
-        reader.readAsText(file);
+        return file ? new TextDecoder().decode(file.data) : null;
+    }
+
+    const file = await chooseFile("application/json");
+    return file ? file.text() : null;
+}
+
+export async function uploadSettingsBackup(showToast = true): Promise<void> {
+    const data = await chooseSettingsBackup();
+    if (data == null) return;
+
+    try {
+        await importSettings(data);
+        if (showToast) toastSuccess();
+    } catch (err) {
+        logger.error(err);
+        if (showToast) toastFailure(err);
     }
 }
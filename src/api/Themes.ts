@@ -17,11 +17,59 @@
 */
 
 import { Settings, SettingsStore } from "@api/Settings";
+import type { ThemeVariable, ThemeVariableValue, UserThemeHeader } from "@main/themes";
 import { createAndAppendStyle } from "@utils/css";
 import { ThemeStore } from "@vencord/discord-types";
 
 let style: HTMLStyleElement;
 let themesStyle: HTMLStyleElement;
+let themeVariablesStyle: HTMLStyleElement;
+
+let enabledThemeHeaders = [] as UserThemeHeader[];
+
+const variableNameRegex = /^[\w-]+$/;
+const unsafeValueRegex = /[;{}]|\/\*/;
+
+/**
+ * Whether a value can be used as the value of a theme variable. Values come from settings, which can be imported or synced,
+ * so they must not be able to end the declaration or rule they are in
+ */
+export function isSafeThemeVariableValue(value: string) {
+    return !unsafeValueRegex.test(value);
+}
+
+export function getThemeVariableValue(fileName: string, variable: ThemeVariable): ThemeVariableValue {
+    return Settings.themeVariables[fileName]?.[variable.name] ?? variable.default;
+}
+
+function formatThemeVariable(variable: ThemeVariable, value: ThemeVariableValue) {
+    switch (variable.type) {
+        case "checkbox":
+            return value ? "1" : "0";
+        case "range":
+            return `${value}${variable.unit}`;
+        case "select":
+            return variable.options[value as string] ?? variable.options[variable.default];
+        default:
+            return String(value);
+    }
+}
+
+function updateThemeVariables() {
+    if (!themeVariablesStyle) return;
+
+    const declarations = enabledThemeHeaders.flatMap(({ fileName, variables }) =>
+        variables.flatMap(v => {
+            if (!variableNameRegex.test(v.name)) return [];
+
+            // Unsafe values are left out, so the default the theme declares applies
+            const value = formatThemeVariable(v, getThemeVariableValue(fileName, v));
+            return isSafeThemeVariableValue(value) ? [`--${v.name}: ${value};`] : [];
+        })
+    );
+
+    themeVariablesStyle.textContent = declarations.length ? `:root{${declarations.join("")}}` : "";
+}
 
 async function initSystemValues() {
     const values = await VencordNative.themes.getSystemValues();
@@ -50,6 +98,8 @@ async function toggle(isEnabled: boolean) {
 
 async function initThemes() {
     themesStyle ??= createAndAppendStyle("vencord-themes");
+    // Has to come after the themes, so the values override the defaults they declare
+    themeVariablesStyle ??= createAndAppendStyle("vencord-theme-variables");
 
     const { themeLinks, enabledThemes } = Settings;
 
@@ -71,19 +121,26 @@ async function initThemes() {
         })
         .filter(link => link !== null);
 
-    if (IS_WEB) {
-        for (const theme of enabledThemes) {
+    const headers = enabledThemes.length ? await VencordNative.themes.getThemesList() : [];
+    enabledThemeHeaders = headers.filter(h => enabledThemes.includes(h.fileName));
+
+    for (const theme of enabledThemes) {
+        const header = enabledThemeHeaders.find(h => h.fileName === theme);
+        // Dependencies have to be loaded first, so the theme can override them
+        if (header) links.push(...header.imports);
+
+        if (IS_WEB) {
             const themeData = await VencordNative.themes.getThemeData(theme);
             if (!themeData) continue;
             const blob = new Blob([themeData], { type: "text/css" });
             links.push(URL.createObjectURL(blob));
+        } else {
+            links.push(`vencord:///themes/${theme}?v=${Date.now()}`);
         }
-    } else {
-        const localThemes = enabledThemes.map(theme => `vencord:///themes/${theme}?v=${Date.now()}`);
-        links.push(...localThemes);
     }
 
     themesStyle.textContent = links.map(link => `@import url("${link.trim()}");`).join("\n");
+    updateThemeVariables();
 }
 
 document.addEventListener("DOMContentLoaded", () => {
@@ -97,6 +154,7 @@ document.addEventListener("DOMContentLoaded", () => {
 
     SettingsStore.addChangeListener("themeLinks", initThemes);
     SettingsStore.addChangeListener("enabledThemes", initThemes);
+    SettingsStore.addPrefixChangeListener("themeVariables", updateThemeVariables);
 
     if (!IS_WEB) {
         VencordNative.quickCss.addThemeChangeListener(initThemes);
@@ -0,0 +1,46 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { SettingsPluginUiElements } from "./Settings";
+
+export interface UIElementData {
+    /** Name shown in the Settings UI. Defaults to the id the element was registered with */
+    label?: string;
+    /** Elements with a higher priority are shown first, unless the user changed the order. Defaults to 0 */
+    priority?: number;
+}
+
+/**
+ * Sorts the elements in the order they should be shown in. Elements the user ordered come first,
+ * followed by the others sorted by their priority and then the order they were added in
+ */
+export function sortUIElements<T extends UIElementData>(elements: Map<string, T>, settings: SettingsPluginUiElements) {
+    return Array.from(elements).sort(([a, aData], [b, bData]) => {
+        const aOrder = settings[a]?.order;
+        const bOrder = settings[b]?.order;
+
+        if (aOrder != null && bOrder != null) return aOrder - bOrder;
+        if (aOrder != null) return -1;
+        if (bOrder != null) return 1;
+
+        return (bData.priority ?? 0) - (aData.priority ?? 0);
+    });
+}
+
+/** Splits sorted elements into the ones to show directly and the ones to show in the overflow menu, leaving out disabled ones */
+export function splitUIElements<T>(elements: Array<[string, T]>, settings: SettingsPluginUiElements) {
+    const shown = [] as Array<[string, T]>;
+    const overflow = [] as Array<[string, T]>;
+
+    for (const element of elements) {
+        const elementSettings = settings[element[0]];
+        if (elementSettings?.enabled === false) continue;
+
+        (elementSettings?.overflow ? overflow : shown).push(element);
+    }
+
+    return { shown, overflow };
+}
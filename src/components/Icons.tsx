@@ -445,6 +445,17 @@ export function PlaceholderIcon(props: IconProps) {
     );
 }
 
+export function MoreHorizontalIcon(props: IconProps) {
+    return (
+        <Icon
+            {...props}
+            viewBox="0 0 24 24"
+        >
+            <path fill={props.fill || "currentColor"} d="M4 14a2 2 0 1 0 0-4 2 2 0 0 0 0 4Zm8 0a2 2 0 1 0 0-4 2 2 0 0 0 0 4Zm8 0a2 2 0 1 0 0-4 2 2 0 0 0 0 4Z" />
+        </Icon>
+    );
+}
+
 export function MainSettingsIcon(props: IconProps) {
     return (
         <Icon
@@ -0,0 +1,62 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { canonicalizeMatch } from "@utils/patches";
+import { makeCodeblock } from "@utils/text";
+import { Forms, Parser, useMemo } from "@webpack/common";
+
+import { parseMatch, PatchDraft, stringifyMatch } from "./draft";
+
+const CANONICALIZED_SYNTAX = /\\i|#{intl::/;
+
+/**
+ * @returns The source of the canonicalized match, or null if canonicalizing doesn't change it
+ */
+function getCanonicalSource(match: string | RegExp) {
+    const source = typeof match === "string" ? match : match.source;
+    if (!CANONICALIZED_SYNTAX.test(source)) return null;
+
+    return stringifyMatch(canonicalizeMatch(match));
+}
+
+/**
+ * Shows what the `\i` and `#{intl::}` placeholders of the find and matches are turned into,
+ * which is the code the patch is actually tested against
+ */
+export function CanonicalizationPreview({ draft }: { draft: PatchDraft; }) {
+    const entries = useMemo(() => {
+        const entries = [] as Array<[title: string, source: string]>;
+
+        try {
+            const find = getCanonicalSource(parseMatch(draft.find));
+            if (find) entries.push(["Find", find]);
+        } catch { }
+
+        draft.replacements.forEach((r, i) => {
+            try {
+                const match = getCanonicalSource(parseMatch(r.match));
+                if (match) entries.push([`Match ${i + 1}`, match]);
+            } catch { }
+        });
+
+        return entries;
+    }, [draft.find, draft.replacements]);
+
+    if (!entries.length) {
+        return <Forms.FormText>The find and matches don't use any placeholders</Forms.FormText>;
+    }
+
+    return (
+        <>
+            {entries.map(([title, source]) => (
+                <div key={title} style={{ userSelect: "text" }}>
+                    <Forms.FormTitle>{title}</Forms.FormTitle>
+                    {Parser.parse(makeCodeblock(source, "js"))}
+                </div>
+            ))}
+        </>
+    );
+}
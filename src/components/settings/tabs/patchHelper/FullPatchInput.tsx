@@ -5,17 +5,18 @@
  */
 
 import { Margins } from "@utils/margins";
-import { Patch, ReplaceFn } from "@utils/types";
+import { Patch, PatchReplacement } from "@utils/types";
 import { Forms, TextArea, useEffect, useRef, useState } from "@webpack/common";
 
+import { makePatchDraft, makeReplacementDraft, PatchDraft, stringifyMatch } from "./draft";
+
 export interface FullPatchInputProps {
-    setFind(v: string): void;
-    setParsedFind(v: string | RegExp): void;
-    setMatch(v: string): void;
-    setReplacement(v: string | ReplaceFn): void;
+    setDraft(v: PatchDraft): void;
 }
 
-export function FullPatchInput({ setFind, setParsedFind, setMatch, setReplacement }: FullPatchInputProps) {
+const buildToString = (build: number | undefined) => build != null ? String(build) : "";
+
+export function FullPatchInput({ setDraft }: FullPatchInputProps) {
     const [patch, setPatch] = useState<string>("");
     const [error, setError] = useState<string>("");
 
@@ -24,34 +25,41 @@ export function FullPatchInput({ setFind, setParsedFind, setMatch, setReplacemen
     function update() {
         if (patch === "") {
             setError("");
-
-            setFind("");
-            setParsedFind("");
-            setMatch("");
-            setReplacement("");
+            setDraft(makePatchDraft());
             return;
         }
 
         try {
-            let { find, replacement } = (0, eval)(`([${patch}][0])`) as Patch;
+            const { find, replacement, all, noWarn, group, predicate, fromBuild, toBuild } = (0, eval)(`([${patch}][0])`) as Patch;
 
             if (!find) throw new Error("No 'find' field");
             if (!replacement) throw new Error("No 'replacement' field");
 
-            if (replacement instanceof Array) {
-                if (replacement.length === 0) throw new Error("Invalid replacement");
-
-                // Only test the first replacement
-                replacement = replacement[0];
-            }
+            const replacements = Array.isArray(replacement) ? replacement : [replacement];
+            if (replacements.length === 0) throw new Error("Invalid replacement");
 
-            if (!replacement.match) throw new Error("No 'replacement.match' field");
-            if (replacement.replace == null) throw new Error("No 'replacement.replace' field");
+            replacements.forEach((r: PatchReplacement, i) => {
+                if (!r.match) throw new Error(`No 'match' field in replacement ${i + 1}`);
+                if (r.replace == null) throw new Error(`No 'replace' field in replacement ${i + 1}`);
+            });
 
-            setFind(find instanceof RegExp ? `/${find.source}/` : find);
-            setParsedFind(find);
-            setMatch(replacement.match instanceof RegExp ? replacement.match.source : replacement.match);
-            setReplacement(replacement.replace);
+            setDraft({
+                find: stringifyMatch(find),
+                replacements: replacements.map(r => makeReplacementDraft({
+                    match: stringifyMatch(r.match),
+                    replace: r.replace,
+                    noWarn: !!r.noWarn,
+                    fromBuild: buildToString(r.fromBuild),
+                    toBuild: buildToString(r.toBuild)
+                })),
+                all: !!all,
+                noWarn: !!noWarn,
+                group: !!group,
+                // Method shorthand can't be evaluated on its own
+                predicate: predicate ? predicate.toString().replace(/^predicate\(/, "function (") : "",
+                fromBuild: buildToString(fromBuild),
+                toBuild: buildToString(toBuild)
+            });
             setError("");
         } catch (e) {
             setError((e as Error).message);
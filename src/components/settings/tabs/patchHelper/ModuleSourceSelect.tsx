@@ -0,0 +1,89 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Flex } from "@components/Flex";
+import type { ModuleDump } from "@main/moduleDumps";
+import { Margins } from "@utils/margins";
+import { useAwaiter } from "@utils/react";
+import { Button, Forms, Select, showToast, Toasts, useState } from "@webpack/common";
+import { captureModules } from "debug/moduleDumps";
+
+export interface ModuleSourceSelectProps {
+    dump: ModuleDump | null;
+    setDump(dump: ModuleDump | null): void;
+}
+
+export function ModuleSourceSelect({ dump, setDump }: ModuleSourceSelectProps) {
+    const [selected, setSelected] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [signal, setSignal] = useState(0);
+
+    const [dumps] = useAwaiter(() => VencordNative.debug.getModuleDumps(), { fallbackValue: [], deps: [signal] });
+
+    async function select(fileName: string) {
+        setSelected(fileName);
+        if (!fileName) return setDump(null);
+
+        setBusy(true);
+        try {
+            setDump(await VencordNative.debug.readModuleDump(fileName));
+        } catch (e) {
+            showToast(`Failed to load ${fileName}: ${e}`, Toasts.Type.FAILURE);
+            setSelected("");
+            setDump(null);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    async function capture() {
+        setBusy(true);
+        showToast("Loading all chunks, this may take a while...");
+        try {
+            const fileName = await captureModules();
+            showToast(`Saved modules as ${fileName}`, Toasts.Type.SUCCESS);
+            setSignal(s => s + 1);
+        } catch (e) {
+            showToast(`Failed to capture modules: ${e}`, Toasts.Type.FAILURE);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    return (
+        <>
+            <Forms.FormText className={Margins.bottom8}>
+                Test patches against the modules of the running client or a saved module dump, for example of an older Discord build
+            </Forms.FormText>
+            <Select
+                options={[
+                    { label: "Running Discord client", value: "" },
+                    ...dumps.map(fileName => ({ label: fileName, value: fileName }))
+                ]}
+                closeOnSelect={true}
+                select={select}
+                isSelected={v => v === selected}
+                serialize={String}
+                isDisabled={busy}
+            />
+            {dump && (
+                <Forms.FormText className={Margins.top8}>
+                    Build {dump.buildNumber === -1 ? "unknown" : dump.buildNumber}
+                    {dump.buildHash && ` (${dump.buildHash})`}, {Object.keys(dump.modules).length} modules,
+                    captured {new Date(dump.capturedAt).toLocaleString()}
+                </Forms.FormText>
+            )}
+            <Flex className={Margins.top8}>
+                <Button size={Button.Sizes.SMALL} disabled={busy} onClick={capture}>
+                    Capture Modules
+                </Button>
+                <Button size={Button.Sizes.SMALL} onClick={() => VencordNative.debug.openModuleDumpsFolder()}>
+                    Open Dumps Folder
+                </Button>
+            </Flex>
+        </>
+    );
+}
@@ -0,0 +1,120 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Flex } from "@components/Flex";
+import { FormSwitch } from "@components/FormSwitch";
+import { Margins } from "@utils/margins";
+import { Forms, TextInput, useMemo } from "@webpack/common";
+
+import { parseBuild, parsePredicate, PatchDraft } from "./draft";
+
+function getParseError(parse: () => unknown) {
+    try {
+        parse();
+        return undefined;
+    } catch (e) {
+        return (e as Error).message;
+    }
+}
+
+export interface BuildRangeInputProps {
+    fromBuild: string;
+    toBuild: string;
+    setRange(range: { fromBuild: string; toBuild: string; }): void;
+}
+
+export function BuildRangeInput({ fromBuild, toBuild, setRange }: BuildRangeInputProps) {
+    return (
+        <Flex className={Margins.top8}>
+            <div style={{ flex: 1 }}>
+                <Forms.FormTitle>From Build</Forms.FormTitle>
+                <TextInput
+                    placeholder="Any"
+                    value={fromBuild}
+                    onChange={v => setRange({ fromBuild: v, toBuild })}
+                    error={getParseError(() => parseBuild(fromBuild))}
+                />
+            </div>
+            <div style={{ flex: 1 }}>
+                <Forms.FormTitle>To Build</Forms.FormTitle>
+                <TextInput
+                    placeholder="Any"
+                    value={toBuild}
+                    onChange={v => setRange({ fromBuild, toBuild: v })}
+                    error={getParseError(() => parseBuild(toBuild))}
+                />
+            </div>
+        </Flex>
+    );
+}
+
+export interface PatchOptionsInputProps {
+    draft: PatchDraft;
+    setDraft(draft: PatchDraft): void;
+}
+
+export function PatchOptionsInput({ draft, setDraft }: PatchOptionsInputProps) {
+    const predicateResult = useMemo(() => {
+        try {
+            var predicate = parsePredicate(draft.predicate);
+            if (!predicate) return null;
+        } catch (e) {
+            return [false, (e as Error).message] as const;
+        }
+
+        // The predicate usually uses variables of the plugin, which are not defined here
+        try {
+            return [true, `Currently returns ${predicate()}`] as const;
+        } catch (e) {
+            return [true, `Could not be called outside of the plugin: ${(e as Error).message}`] as const;
+        }
+    }, [draft.predicate]);
+
+    return (
+        <>
+            <FormSwitch
+                value={draft.all}
+                onChange={all => setDraft({ ...draft, all })}
+                title="All"
+                description="Apply the patch to every module the find matches instead of only the first one"
+                hideBorder
+            />
+            <FormSwitch
+                value={draft.group}
+                onChange={group => setDraft({ ...draft, group })}
+                title="Group"
+                description="Only apply the replacements if all of them succeed"
+                hideBorder
+            />
+            <FormSwitch
+                value={draft.noWarn}
+                onChange={noWarn => setDraft({ ...draft, noWarn })}
+                title="No Warn"
+                description="Do not warn if the patch had no effect"
+                hideBorder
+            />
+
+            <Forms.FormTitle className={Margins.top8}>Predicate</Forms.FormTitle>
+            <TextInput
+                placeholder="() => settings.store.someSetting"
+                value={draft.predicate}
+                onChange={predicate => setDraft({ ...draft, predicate })}
+                error={predicateResult?.[0] === false ? predicateResult[1] : undefined}
+            />
+            {predicateResult?.[0] && (
+                <Forms.FormText className={Margins.top8}>
+                    {predicateResult[1]}. The preview applies the patch regardless
+                </Forms.FormText>
+            )}
+
+            <BuildRangeInput
+                fromBuild={draft.fromBuild}
+                toBuild={draft.toBuild}
+                setRange={range => setDraft({ ...draft, ...range })}
+            />
+        </>
+    );
+}
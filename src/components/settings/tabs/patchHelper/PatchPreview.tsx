@@ -4,11 +4,12 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { classNameFactory } from "@api/Styles";
 import { Margins } from "@utils/margins";
-import { canonicalizeMatch, canonicalizeReplace } from "@utils/patches";
+import { applyPatch, isInBuildRange, PatchChange, PatchReplacementResult } from "@utils/patches";
 import { makeCodeblock } from "@utils/text";
-import { ReplaceFn } from "@utils/types";
-import { Button, Forms, Parser, useMemo, useState } from "@webpack/common";
+import { Patch, PatchReplacement } from "@utils/types";
+import { Forms, Parser, useMemo } from "@webpack/common";
 import type { Change } from "diff";
 
 // Do not include diff in non dev builds (side effects import)
@@ -16,52 +17,87 @@ if (IS_DEV) {
     var differ = require("diff") as typeof import("diff");
 }
 
+const cl = classNameFactory("vc-patch-helper-");
+
+/** Previewing every module an `all` patch matches can freeze the client, so only the first ones are shown */
+const MAX_PREVIEWED_MODULES = 10;
+
 interface PatchPreviewProps {
-    module: [id: number, factory: Function];
-    match: string;
-    replacement: string | ReplaceFn;
-    setReplacementError(error: any): void;
+    /** The canonicalized patch */
+    patch: Patch;
+    modules: Array<[id: string, source: string]>;
+    /** The build number of the modules, or -1 if it is unknown */
+    buildNumber: number;
 }
 
-function makeDiff(original: string, patched: string, match: RegExpMatchArray | null) {
-    if (!match || original === patched) return null;
+interface MatchResult {
+    text: string;
+    groups: Array<string | undefined>;
+}
+
+/**
+ * Find the matches a replacement replaces. Strings only replace their first occurrence, and RegExps every match if they are global
+ */
+function findMatches(code: string, match: string | RegExp): MatchResult[] {
+    if (typeof match === "string") {
+        return code.includes(match) ? [{ text: match, groups: [] }] : [];
+    }
 
-    const changeSize = patched.length - original.length;
+    const matches = [] as MatchResult[];
 
-    // Use 200 surrounding characters of context
-    const start = Math.max(0, match.index! - 200);
-    const end = Math.min(original.length, match.index! + match[0].length + 200);
-    // (changeSize may be negative)
-    const endPatched = end + changeSize;
+    match.lastIndex = 0;
+    let result: RegExpExecArray | null;
+    while ((result = match.exec(code)) != null) {
+        matches.push({ text: result[0], groups: result.slice(1) });
+        if (!match.global) break;
 
-    const context = original.slice(start, end);
-    const patchedContext = patched.slice(start, endPatched);
+        // Avoid looping forever on empty matches
+        if (result[0] === "") match.lastIndex++;
+    }
+    match.lastIndex = 0;
 
-    return differ.diffWordsWithSpace(context, patchedContext);
+    return matches;
 }
 
-function Match({ matchResult }: { matchResult: RegExpMatchArray | null; }) {
-    if (!matchResult)
-        return null;
+/**
+ * Diff the code around each change of a replacement
+ */
+function makeDiffs(original: string, patched: string, changes: PatchChange[]) {
+    // Changes are positioned in the code with the changes before them applied, which is how they are positioned in the patched code
+    let delta = 0;
+
+    return changes.map(({ start, previousEnd, end }) => {
+        const originalStart = start - delta;
+        const originalEnd = previousEnd - delta;
+        delta += end - previousEnd;
+
+        // Use 200 surrounding characters of context
+        const context = original.slice(Math.max(0, originalStart - 200), Math.min(original.length, originalEnd + 200));
+        const patchedContext = patched.slice(Math.max(0, start - 200), Math.min(patched.length, end + 200));
+
+        return differ.diffWordsWithSpace(context, patchedContext);
+    });
+}
 
-    const fullMatch = matchResult[0]
-        ? makeCodeblock(matchResult[0], "js")
+function Match({ matchResult, index, total }: { matchResult: MatchResult; index: number; total: number; }) {
+    const fullMatch = matchResult.text
+        ? makeCodeblock(matchResult.text, "js")
         : "";
-    const groups = matchResult.length > 1
-        ? makeCodeblock(matchResult.slice(1).map((g, i) => `Group ${i + 1}: ${g}`).join("\n"), "yml")
+    const groups = matchResult.groups.length
+        ? makeCodeblock(matchResult.groups.map((g, i) => `Group ${i + 1}: ${g}`).join("\n"), "yml")
         : "";
 
     return (
         <>
-            <Forms.FormTitle>Match</Forms.FormTitle>
+            <Forms.FormTitle>{total > 1 ? `Match ${index + 1}` : "Match"}</Forms.FormTitle>
             <div style={{ userSelect: "text" }}>{Parser.parse(fullMatch)}</div>
             <div style={{ userSelect: "text" }}>{Parser.parse(groups)}</div>
         </>
     );
 }
 
-function Diff({ diff }: { diff: Change[] | null; }) {
-    if (!diff?.length)
+function Diff({ diff, index, total }: { diff: Change[]; index: number; total: number; }) {
+    if (!diff.length)
         return null;
 
     const diffLines = diff.map((p, idx) => {
@@ -83,65 +119,103 @@ function Diff({ diff }: { diff: Change[] | null; }) {
 
     return (
         <>
-            <Forms.FormTitle>Diff</Forms.FormTitle>
+            <Forms.FormTitle>{total > 1 ? `Diff ${index + 1}` : "Diff"}</Forms.FormTitle>
             {diffLines}
         </>
     );
 }
 
-export function PatchPreview({ module, match, replacement, setReplacementError }: PatchPreviewProps) {
-    const [id, fact] = module;
-    const [compileResult, setCompileResult] = useState<[boolean, string]>();
-
-    const [patchedCode, matchResult, diff] = useMemo<[string, RegExpMatchArray | null, Change[] | null]>(() => {
-        const src: string = fact.toString().replaceAll("\n", "");
-
-        try {
-            new RegExp(match);
-        } catch (e) {
-            return ["", null, null];
-        }
-
-        const canonicalMatch = canonicalizeMatch(new RegExp(match));
-        try {
-            const canonicalReplace = canonicalizeReplace(replacement, 'Vencord.Plugins.plugins["YourPlugin"]');
-            var patched = src.replace(canonicalMatch, canonicalReplace as string);
-            setReplacementError(void 0);
-        } catch (e) {
-            setReplacementError((e as Error).message);
-            return ["", null, null];
-        }
-
-        const m = src.match(canonicalMatch);
-        return [patched, m, makeDiff(src, patched, m)];
-    }, [id, match, replacement]);
+interface ReplacementResultProps {
+    index: number;
+    result: PatchReplacementResult | undefined;
+    /** Whether the replacement was not tried because the patch group was undone before it */
+    skipped: boolean;
+}
+
+function ReplacementResult({ index, result, skipped }: ReplacementResultProps) {
+    if (!result) {
+        return (
+            <Forms.FormText className={Margins.top8}>
+                Replacement {index + 1} {skipped ? "was skipped because the patch group was undone" : "is not applied on this build"}
+            </Forms.FormText>
+        );
+    }
+
+    const { replacement, status, previousCode, newCode, error, changes } = result;
+
+    const matches = findMatches(previousCode, replacement.match);
+    const diffs = newCode != null && changes ? makeDiffs(previousCode, newCode, changes) : [];
 
     return (
-        <>
-            <Forms.FormTitle>Module {id}</Forms.FormTitle>
-
-            <Match matchResult={matchResult} />
-            <Diff diff={diff} />
-
-            {!!diff?.length && (
-                <Button
-                    className={Margins.top20}
-                    onClick={() => {
-                        try {
-                            Function(patchedCode.replace(/^(?=function\()/, "0,"));
-                            setCompileResult([true, "Compiled successfully"]);
-                        } catch (err) {
-                            setCompileResult([false, (err as Error).message]);
-                        }
-                    }}
-                >
-                    Compile
-                </Button>
+        <div className={Margins.top8}>
+            <Forms.FormTitle tag="h5" className="">
+                Replacement {index + 1}: <span className={cl("status", `status-${status}`)}>{status === "no-effect" ? "had no effect" : status}</span>
+            </Forms.FormTitle>
+
+            {status === "errored" && (
+                <Forms.FormText className={cl("status-errored")}>{String(error)}</Forms.FormText>
             )}
 
-            {compileResult && (
-                <Forms.FormText style={{ color: compileResult[0] ? "var(--status-positive)" : "var(--text-feedback-critical, var(--text-danger))" }}>
-                    {compileResult[1]}
+            {matches.map((matchResult, i) => (
+                <Match key={i} matchResult={matchResult} index={i} total={matches.length} />
+            ))}
+            {diffs.map((diff, i) => (
+                <Diff key={i} diff={diff} index={i} total={diffs.length} />
+            ))}
+        </div>
+    );
+}
+
+function ModulePreview({ id, source, patch, buildNumber }: { id: string; source: string; patch: Patch; buildNumber: number; }) {
+    const result = useMemo(() => {
+        // 0, prefix to turn it into an expression, same as in patchFactory.
+        // The patched code is only compiled, not ran
+        return applyPatch("0," + source, patch, buildNumber, code => Function(code), true);
+    }, [source, patch, buildNumber]);
+
+    const replacements = patch.replacement as PatchReplacement[];
+    const undoneIndex = result.undoneBy && replacements.indexOf(result.undoneBy.replacement);
+
+    return (
+        <div className={cl("module")}>
+            <Forms.FormTitle tag="h5" className="">Module {id}</Forms.FormTitle>
+
+            {result.undoneBy && (
+                <Forms.FormText className={cl("status-errored")}>
+                    The patch group is undone because replacement {undoneIndex! + 1} {result.undoneBy.status === "errored" ? "errored" : "had no effect"}
+                </Forms.FormText>
+            )}
+
+            {replacements.map((replacement, i) => (
+                <ReplacementResult
+                    key={i}
+                    index={i}
+                    result={result.replacements.find(r => r.replacement === replacement)}
+                    skipped={undoneIndex != null && i > undoneIndex && isInBuildRange(replacement, buildNumber)}
+                />
+            ))}
+        </div>
+    );
+}
+
+export function PatchPreview({ patch, modules, buildNumber }: PatchPreviewProps) {
+    if (!isInBuildRange(patch, buildNumber)) {
+        return (
+            <Forms.FormText>
+                The patch is not applied on build {buildNumber}
+            </Forms.FormText>
+        );
+    }
+
+    return (
+        <>
+            {modules.slice(0, MAX_PREVIEWED_MODULES).map(([id, source]) => (
+                <ModulePreview key={id} id={id} source={source} patch={patch} buildNumber={buildNumber} />
+            ))}
+
+            {modules.length > MAX_PREVIEWED_MODULES && (
+                <Forms.FormText className={Margins.top8}>
+                    {modules.length - MAX_PREVIEWED_MODULES} more matching modules are not shown
                 </Forms.FormText>
             )}
         </>
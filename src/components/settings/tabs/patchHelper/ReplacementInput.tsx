@@ -18,8 +18,22 @@ const RegexGuide = {
     "$self": "Insert the plugin instance",
 } as const;
 
+export function RegexCheatSheet() {
+    return (
+        <div>
+            <Forms.FormTitle className={Margins.top8}>Cheat Sheet</Forms.FormTitle>
+
+            {Object.entries(RegexGuide).map(([placeholder, desc]) => (
+                <Forms.FormText key={placeholder}>
+                    {Parser.parse("`" + placeholder + "`")}: {desc}
+                </Forms.FormText>
+            ))}
+        </div>
+    );
+}
+
 export function ReplacementInput({ replacement, setReplacement, replacementError }) {
-    const [isFunc, setIsFunc] = useState(false);
+    const [isFunc, setIsFunc] = useState(typeof replacement === "function");
     const [error, setError] = useState<string>();
 
     function onChange(v: string) {
@@ -29,7 +43,7 @@ export function ReplacementInput({ replacement, setReplacement, replacementError
             try {
                 const func = (0, eval)(v);
                 if (typeof func === "function")
-                    setReplacement(() => func);
+                    setReplacement(func);
 
                 else
                     setError("Replacement must be a function");
@@ -58,20 +72,8 @@ export function ReplacementInput({ replacement, setReplacement, replacementError
                 onChange={onChange}
                 error={error ?? replacementError}
             />
-            {!isFunc && (
-                <div>
-                    <Forms.FormTitle className={Margins.top8}>Cheat Sheet</Forms.FormTitle>
-
-                    {Object.entries(RegexGuide).map(([placeholder, desc]) => (
-                        <Forms.FormText key={placeholder}>
-                            {Parser.parse("`" + placeholder + "`")}: {desc}
-                        </Forms.FormText>
-                    ))}
-                </div>
-            )}
-
             <FormSwitch
-                className={Margins.top16}
+                className={Margins.top8}
                 value={isFunc}
                 onChange={setIsFunc}
                 title={"Treat Replacement as function"}
@@ -0,0 +1,113 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import { FormSwitch } from "@components/FormSwitch";
+import { HeadingTertiary } from "@components/Heading";
+import { Margins } from "@utils/margins";
+import { Button, Forms, TextInput } from "@webpack/common";
+
+import { makeReplacementDraft, parseMatch, ReplacementDraft } from "./draft";
+import { BuildRangeInput } from "./PatchOptionsInput";
+import { RegexCheatSheet, ReplacementInput } from "./ReplacementInput";
+
+const cl = classNameFactory("vc-patch-helper-");
+
+function getMatchError(match: string) {
+    try {
+        parseMatch(match);
+        return undefined;
+    } catch (e) {
+        return (e as Error).message;
+    }
+}
+
+interface ReplacementEditorProps {
+    index: number;
+    replacement: ReplacementDraft;
+    setReplacement(replacement: ReplacementDraft): void;
+    onRemove?(): void;
+}
+
+function ReplacementEditor({ index, replacement, setReplacement, onRemove }: ReplacementEditorProps) {
+    const update = (fields: Partial<ReplacementDraft>) => setReplacement({ ...replacement, ...fields });
+
+    return (
+        <div className={cl("replacement")}>
+            <Flex justifyContent="space-between" alignItems="center">
+                <Forms.FormTitle tag="h5" className="">Replacement {index + 1}</Forms.FormTitle>
+                {onRemove && (
+                    <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} look={Button.Looks.LINK} onClick={onRemove}>
+                        Remove
+                    </Button>
+                )}
+            </Flex>
+
+            <Forms.FormTitle className={Margins.top8}>Match</Forms.FormTitle>
+            <TextInput
+                type="text"
+                placeholder="A string, or /regex/flags"
+                value={replacement.match}
+                onChange={match => update({ match })}
+                error={getMatchError(replacement.match)}
+            />
+
+            <div className={Margins.top8} />
+            <ReplacementInput
+                replacement={replacement.replace}
+                setReplacement={replace => update({ replace })}
+                replacementError={undefined}
+            />
+
+            <FormSwitch
+                value={replacement.noWarn}
+                onChange={noWarn => update({ noWarn })}
+                title="No Warn"
+                description="Do not warn if this replacement had no effect"
+                hideBorder
+            />
+
+            <BuildRangeInput
+                fromBuild={replacement.fromBuild}
+                toBuild={replacement.toBuild}
+                setRange={update}
+            />
+        </div>
+    );
+}
+
+export interface ReplacementsInputProps {
+    replacements: ReplacementDraft[];
+    setReplacements(replacements: ReplacementDraft[]): void;
+}
+
+export function ReplacementsInput({ replacements, setReplacements }: ReplacementsInputProps) {
+    return (
+        <>
+            <HeadingTertiary className={Margins.top20}>Replacements</HeadingTertiary>
+            <RegexCheatSheet />
+
+            {replacements.map((replacement, i) => (
+                <ReplacementEditor
+                    key={replacement.id}
+                    index={i}
+                    replacement={replacement}
+                    setReplacement={r => setReplacements(replacements.with(i, r))}
+                    onRemove={replacements.length > 1 ? () => setReplacements(replacements.filter((_, j) => j !== i)) : undefined}
+                />
+            ))}
+
+            <Button
+                className={Margins.top8}
+                size={Button.Sizes.SMALL}
+                onClick={() => setReplacements([...replacements, makeReplacementDraft()])}
+            >
+                Add Replacement
+            </Button>
+        </>
+    );
+}
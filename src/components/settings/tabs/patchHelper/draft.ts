@@ -0,0 +1,187 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { canonicalizeFind, canonicalizeReplacement } from "@utils/patches";
+import { Patch, PatchReplacement, ReplaceFn } from "@utils/types";
+
+/** The plugin the previewed patches are applied for, so `$self` can be replaced */
+export const PREVIEW_PLUGIN_NAME = "YourPlugin";
+
+export interface ReplacementDraft {
+    /** Used as React key, so replacements keep their inputs when others are removed */
+    id: number;
+    /** A string, or a RegExp written as `/source/flags` */
+    match: string;
+    replace: string | ReplaceFn;
+    noWarn: boolean;
+    fromBuild: string;
+    toBuild: string;
+}
+
+/** A patch as edited in the Patch Helper. Fields are kept as entered, so they can be invalid while typing */
+export interface PatchDraft {
+    /** A string, or a RegExp written as `/source/flags` */
+    find: string;
+    replacements: ReplacementDraft[];
+    all: boolean;
+    noWarn: boolean;
+    group: boolean;
+    /** The source of the predicate function */
+    predicate: string;
+    fromBuild: string;
+    toBuild: string;
+}
+
+let nextReplacementId = 0;
+
+export function makeReplacementDraft(replacement: Partial<Omit<ReplacementDraft, "id">> = {}): ReplacementDraft {
+    return {
+        match: "",
+        replace: "",
+        noWarn: false,
+        fromBuild: "",
+        toBuild: "",
+        ...replacement,
+        id: nextReplacementId++
+    };
+}
+
+export function makePatchDraft(): PatchDraft {
+    return {
+        find: "",
+        replacements: [makeReplacementDraft()],
+        all: false,
+        noWarn: false,
+        group: false,
+        predicate: "",
+        fromBuild: "",
+        toBuild: ""
+    };
+}
+
+/**
+ * Parse a find or match, which is a RegExp if written as `/source/flags` and a string otherwise.
+ * @throws If it is an invalid RegExp
+ */
+export function parseMatch(match: string): string | RegExp {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(match);
+    return regex ? new RegExp(regex[1], regex[2]) : match;
+}
+
+/**
+ * Turn a find or match of a patch into the format of the draft, see {@link parseMatch}
+ */
+export function stringifyMatch(match: string | RegExp) {
+    return match instanceof RegExp ? `/${match.source}/${match.flags}` : match;
+}
+
+function makeMatchCode(match: string) {
+    const parsed = parseMatch(match);
+    return parsed instanceof RegExp ? `/${parsed.source}/${parsed.flags}` : JSON.stringify(parsed);
+}
+
+/**
+ * @returns The build number, or undefined if the field is empty
+ * @throws If the field is not a valid build number
+ */
+export function parseBuild(build: string) {
+    if (!build.trim()) return undefined;
+
+    const buildNumber = Number(build);
+    if (!Number.isInteger(buildNumber) || buildNumber < 0) throw new Error(`Invalid build number ${build}`);
+
+    return buildNumber;
+}
+
+/**
+ * Parse the predicate source into a function.
+ * @returns The predicate, or undefined if the field is empty
+ */
+export function parsePredicate(predicate: string) {
+    if (!predicate.trim()) return undefined;
+
+    const func = (0, eval)(`(${predicate})`);
+    if (typeof func !== "function") throw new Error("Predicate must be a function");
+
+    return func as () => boolean;
+}
+
+/**
+ * Turn a draft into a canonicalized patch, like addPatch does, so it can be applied with applyPatch.
+ * The predicate is not included, as it depends on the plugin being enabled.
+ *
+ * @throws If a field of the draft is invalid
+ */
+export function makePatch(draft: PatchDraft): Patch {
+    const patch: Patch = {
+        plugin: PREVIEW_PLUGIN_NAME,
+        find: parseMatch(draft.find),
+        replacement: draft.replacements.map(r => ({
+            match: parseMatch(r.match),
+            replace: r.replace,
+            noWarn: r.noWarn,
+            fromBuild: parseBuild(r.fromBuild),
+            toBuild: parseBuild(r.toBuild)
+        })),
+        all: draft.all,
+        noWarn: draft.noWarn,
+        group: draft.group,
+        fromBuild: parseBuild(draft.fromBuild),
+        toBuild: parseBuild(draft.toBuild)
+    };
+
+    canonicalizeFind(patch);
+    for (const replacement of patch.replacement as PatchReplacement[]) {
+        canonicalizeReplacement(replacement, `Vencord.Plugins.plugins[${JSON.stringify(PREVIEW_PLUGIN_NAME)}]`);
+    }
+
+    return patch;
+}
+
+function indent(code: string, depth: number) {
+    return code.replaceAll("\n", "\n" + " ".repeat(depth * 4));
+}
+
+function makeObjectCode(fields: Array<[key: string, value: string | undefined]>) {
+    const lines = fields
+        .filter(([, value]) => value != null)
+        .map(([key, value]) => `    ${key}: ${indent(value!, 1)}`);
+
+    return `{\n${lines.join(",\n")}\n}`;
+}
+
+function makeReplacementCode(r: ReplacementDraft) {
+    return makeObjectCode([
+        ["match", makeMatchCode(r.match)],
+        ["replace", typeof r.replace === "function" ? r.replace.toString() : JSON.stringify(r.replace)],
+        ["noWarn", r.noWarn ? "true" : undefined],
+        ["fromBuild", r.fromBuild.trim() || undefined],
+        ["toBuild", r.toBuild.trim() || undefined]
+    ]);
+}
+
+/**
+ * Generate the code of the `patches` array of a plugin containing the patch.
+ * A single replacement is written as an object, like most plugins do
+ *
+ * @throws If the find or a match is an invalid RegExp
+ */
+export function makePatchesCode(draft: PatchDraft) {
+    const replacements = draft.replacements.map(makeReplacementCode);
+
+    const patch = makeObjectCode([
+        ["find", makeMatchCode(draft.find)],
+        ["all", draft.all ? "true" : undefined],
+        ["noWarn", draft.noWarn ? "true" : undefined],
+        ["group", draft.group ? "true" : undefined],
+        ["predicate", draft.predicate.trim() || undefined],
+        ["fromBuild", draft.fromBuild.trim() || undefined],
+        ["toBuild", draft.toBuild.trim() || undefined],
+        ["replacement", replacements.length === 1 ? replacements[0] : `[\n    ${replacements.map(r => indent(r, 1)).join(",\n    ")}\n]`]
+    ]);
+
+    return `patches: [\n    ${indent(patch, 1)}\n]`;
+}
@@ -16,137 +16,116 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import "./styles.css";
+
 import { CodeBlock } from "@components/CodeBlock";
 import { Divider } from "@components/Divider";
 import { Flex } from "@components/Flex";
 import { HeadingTertiary } from "@components/Heading";
 import { SettingsTab, wrapTab } from "@components/settings/tabs/BaseTab";
+import type { ModuleDump } from "@main/moduleDumps";
 import { debounce } from "@shared/debounce";
 import { copyWithToast } from "@utils/discord";
 import { Margins } from "@utils/margins";
-import { stripIndent } from "@utils/text";
-import { ReplaceFn } from "@utils/types";
 import { search } from "@webpack";
-import { Button, React, TextInput, useMemo, useState } from "@webpack/common";
+import { Button, Forms, React, TextInput, useEffect, useMemo, useState } from "@webpack/common";
+import { getBuildNumber } from "@webpack/patcher";
+import { searchModuleDump } from "debug/moduleDumps";
 
+import { CanonicalizationPreview } from "./CanonicalizationPreview";
+import { makePatch, makePatchDraft, makePatchesCode, parseMatch, PatchDraft } from "./draft";
 import { FullPatchInput } from "./FullPatchInput";
+import { ModuleSourceSelect } from "./ModuleSourceSelect";
+import { PatchOptionsInput } from "./PatchOptionsInput";
 import { PatchPreview } from "./PatchPreview";
-import { ReplacementInput } from "./ReplacementInput";
+import { ReplacementsInput } from "./ReplacementsInput";
 
-const findCandidates = debounce(function ({ find, setModule, setError }) {
-    const candidates = search(find);
+const findCandidates = debounce(function ({ find, all, dump, setModules, setError }) {
+    const candidates: Record<string, Function | string> = dump ? searchModuleDump(dump, find) : search(find);
     const keys = Object.keys(candidates);
     const len = keys.length;
 
     if (len === 0)
-        setError("No match. Perhaps that module is lazy loaded?");
-    else if (len !== 1)
-        setError("Multiple matches. Please refine your filter");
+        setError(dump ? "No match in this module dump" : "No match. Perhaps that module is lazy loaded?");
+    else if (len !== 1 && !all)
+        setError("Multiple matches. Please refine your filter, or enable All if the patch should apply to all of them");
     else
-        setModule([keys[0], candidates[keys[0]]]);
+        setModules(keys.map(id => [id, String(candidates[id])]));
 });
 
 function PatchHelper() {
-    const [find, setFind] = useState("");
-    const [match, setMatch] = useState("");
-    const [replacement, setReplacement] = useState<string | ReplaceFn>("");
-
-    const [parsedFind, setParsedFind] = useState<string | RegExp>("");
+    const [draft, setDraft] = useState<PatchDraft>(makePatchDraft);
 
     const [findError, setFindError] = useState<string>();
-    const [matchError, setMatchError] = useState<string>();
-    const [replacementError, setReplacementError] = useState<string>();
-
-    const [module, setModule] = useState<[number, Function]>();
 
-    const code = useMemo(() => {
-        const find = parsedFind instanceof RegExp ? parsedFind.toString() : JSON.stringify(parsedFind);
-        const replace = typeof replacement === "function" ? replacement.toString() : JSON.stringify(replacement);
+    const [modules, setModules] = useState<Array<[id: string, source: string]>>([]);
+    const [dump, setDump] = useState<ModuleDump | null>(null);
 
-        return stripIndent`
-            {
-                find: ${find},
-                replacement: {
-                    match: /${match.replace(/(?<!\\)\//g, "\\/")}/,
-                    replace: ${replace}
-                }
-            }
-        `;
-    }, [parsedFind, match, replacement]);
-
-    function onFindChange(v: string) {
-        setFind(v);
+    const buildNumber = dump ? dump.buildNumber : getBuildNumber();
 
+    const [patch, patchError] = useMemo(() => {
         try {
-            let parsedFind = v as string | RegExp;
-            if (/^\/.+?\/$/.test(v)) parsedFind = new RegExp(v.slice(1, -1));
-
-            setFindError(void 0);
-            setParsedFind(parsedFind);
-
-            if (v.length) {
-                findCandidates({ find: parsedFind, setModule, setError: setFindError });
-            }
-        } catch (e: any) {
-            setFindError((e as Error).message);
+            return [makePatch(draft), null] as const;
+        } catch (e) {
+            return [null, (e as Error).message] as const;
         }
-    }
+    }, [draft]);
+
+    const isComplete = !!patch && !!draft.find && draft.replacements.every(r => r.match && r.replace);
+    const code = useMemo(() => isComplete ? makePatchesCode(draft) : "", [draft, isComplete]);
 
-    function onMatchChange(v: string) {
-        setMatch(v);
+    // Search the modules again when the find, whether it should match multiple modules or the selected modules change
+    useEffect(() => {
+        setModules([]);
+        setFindError(void 0);
+        if (!draft.find) return;
 
         try {
-            new RegExp(v);
-            setMatchError(void 0);
+            findCandidates({ find: parseMatch(draft.find), all: draft.all, dump, setModules, setError: setFindError });
         } catch (e: any) {
-            setMatchError((e as Error).message);
+            setFindError((e as Error).message);
         }
-    }
+    }, [draft.find, draft.all, dump]);
 
     return (
         <SettingsTab>
-            <HeadingTertiary>Full patch</HeadingTertiary>
-            <FullPatchInput
-                setFind={onFindChange}
-                setParsedFind={setParsedFind}
-                setMatch={onMatchChange}
-                setReplacement={setReplacement}
-            />
+            <HeadingTertiary>Modules</HeadingTertiary>
+            <ModuleSourceSelect dump={dump} setDump={setDump} />
+
+            <HeadingTertiary className={Margins.top20}>Full patch</HeadingTertiary>
+            <FullPatchInput setDraft={setDraft} />
 
             <HeadingTertiary className={Margins.top8}>Find</HeadingTertiary>
             <TextInput
                 type="text"
-                value={find}
-                onChange={onFindChange}
+                placeholder="A string, or /regex/flags"
+                value={draft.find}
+                onChange={find => setDraft({ ...draft, find })}
                 error={findError}
             />
 
-            <HeadingTertiary className={Margins.top8}>Match</HeadingTertiary>
-            <TextInput
-                type="text"
-                value={match}
-                onChange={onMatchChange}
-                error={matchError}
-            />
+            <HeadingTertiary className={Margins.top20}>Options</HeadingTertiary>
+            <PatchOptionsInput draft={draft} setDraft={setDraft} />
 
-            <div className={Margins.top8} />
-            <ReplacementInput
-                replacement={replacement}
-                setReplacement={setReplacement}
-                replacementError={replacementError}
+            <ReplacementsInput
+                replacements={draft.replacements}
+                setReplacements={replacements => setDraft({ ...draft, replacements })}
             />
 
             <Divider />
-            {module && (
-                <PatchPreview
-                    module={module}
-                    match={match}
-                    replacement={replacement}
-                    setReplacementError={setReplacementError}
-                />
+
+            <HeadingTertiary className={Margins.top20}>Canonicalization</HeadingTertiary>
+            <CanonicalizationPreview draft={draft} />
+
+            <HeadingTertiary className={Margins.top20}>Preview</HeadingTertiary>
+            {patchError && (
+                <Forms.FormText style={{ color: "var(--text-feedback-critical, var(--text-danger))" }}>{patchError}</Forms.FormText>
+            )}
+            {patch && modules.length > 0 && (
+                <PatchPreview patch={patch} modules={modules} buildNumber={buildNumber} />
             )}
 
-            {!!(find && match && replacement) && (
+            {isComplete && (
                 <>
                     <HeadingTertiary className={Margins.top20}>Code</HeadingTertiary>
                     <CodeBlock lang="js" content={code} />
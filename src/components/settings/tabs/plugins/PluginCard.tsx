@@ -5,13 +5,15 @@
  */
 
 import { showNotice } from "@api/Notices";
-import { isPluginEnabled, startDependenciesRecursive, startPlugin, stopPlugin } from "@api/PluginManager";
+import { hotReloadPluginPatches, isPluginEnabled, startDependenciesRecursive, startPlugin, stopPlugin } from "@api/PluginManager";
+import { Settings } from "@api/Settings";
 import { CogWheel, InfoIcon } from "@components/Icons";
 import { AddonCard } from "@components/settings/AddonCard";
 import { isObjectEmpty } from "@utils/misc";
+import { PatchConflict } from "@utils/patches";
 import { Plugin } from "@utils/types";
-import { React, showToast, Toasts } from "@webpack/common";
-import { Settings } from "Vencord";
+import { React, showToast, Text, Toasts, Tooltip } from "@webpack/common";
+import { getPluginPatchConflicts } from "@webpack/patcher";
 
 import { cl, logger } from ".";
 import { openPluginModal } from "./PluginModal";
@@ -23,10 +25,31 @@ interface PluginCardProps extends React.HTMLProps<HTMLDivElement> {
     isNew?: boolean;
 }
 
+function PatchConflictsWarning({ pluginName, conflicts }: { pluginName: string; conflicts: Array<PatchConflict & { moduleId: string; }>; }) {
+    const otherPlugins = new Set(conflicts.flatMap(c => c.plugin === pluginName ? c.conflictsWith : [c.plugin]));
+
+    const details = conflicts.map((c, i) => (
+        <div key={i}>
+            {c.plugin} {c.reason === "overlap" ? "changed code edited by" : "had no effect because of"} {c.conflictsWith.join(", ")} in module {c.moduleId}
+        </div>
+    ));
+
+    return (
+        <Tooltip text={details}>
+            {props => (
+                <Text {...props} variant="text-xs/medium" className={cl("conflicts")}>
+                    Patches conflict with {[...otherPlugins].join(", ")}
+                </Text>
+            )}
+        </Tooltip>
+    );
+}
+
 export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, onMouseLeave, isNew }: PluginCardProps) {
     const settings = Settings.plugins[plugin.name];
 
     const isEnabled = () => isPluginEnabled(plugin.name);
+    const conflicts = plugin.patches?.length ? getPluginPatchConflicts(plugin.name) : [];
 
     function toggleEnabled() {
         const wasEnabled = isEnabled();
@@ -49,8 +72,8 @@ export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, on
             }
         }
 
-        // if the plugin has patches, dont use stopPlugin/startPlugin. Wait for restart to apply changes.
-        if (plugin.patches?.length) {
+        // if the plugin has patches, dont use stopPlugin/startPlugin unless they could be hot reloaded. Wait for restart to apply changes.
+        if (plugin.patches?.length && !(Settings.hotReloadPatches && hotReloadPluginPatches(plugin, !wasEnabled))) {
             settings.enabled = !wasEnabled;
             onRestartNeeded(plugin.name, "enabled");
             return;
@@ -88,6 +111,7 @@ export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, on
             disabled={disabled}
             onMouseEnter={onMouseEnter}
             onMouseLeave={onMouseLeave}
+            footer={conflicts.length > 0 && <PatchConflictsWarning pluginName={plugin.name} conflicts={conflicts} />}
             infoButton={
                 <button
                     role="switch"
@@ -148,6 +148,30 @@ export default function PluginModal({ plugin, onRestartNeeded, onClose, transiti
         );
     }
 
+    function renderNetwork() {
+        return (
+            <section>
+                <Text variant="heading-lg/semibold" className={classes(Margins.top16, Margins.bottom8)}>Network Access</Text>
+                <Forms.FormText className={Margins.bottom8}>
+                    This plugin contacts the following hosts. They are allowed while the plugin is enabled.
+                </Forms.FormText>
+                <div className={cl("network")}>
+                    {plugin.network!.map(({ host, directives, reason }) => (
+                        <div key={host} className={cl("network-entry")}>
+                            <div className={cl("network-host")}>
+                                <code>{host}</code>
+                                <Forms.FormText className={cl("network-directives")}>
+                                    {directives?.length ? directives.join(", ") : "native only"}
+                                </Forms.FormText>
+                            </div>
+                            {reason && <Forms.FormText>{reason}</Forms.FormText>}
+                        </div>
+                    ))}
+                </div>
+            </section>
+        );
+    }
+
     const pluginMeta = PluginMeta[plugin.name];
 
     return (
@@ -212,6 +236,8 @@ export default function PluginModal({ plugin, onRestartNeeded, onClose, transiti
                     </div>
                 )}
 
+                {!!plugin.network?.length && renderNetwork()}
+
                 <section>
                     <Text variant="heading-lg/semibold" className={classes(Margins.top16, Margins.bottom8)}>Settings</Text>
                     {renderSettings()}
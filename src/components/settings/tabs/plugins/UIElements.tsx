@@ -10,16 +10,16 @@ import { ChatBarButtonMap } from "@api/ChatButtons";
 import { MessagePopoverButtonMap } from "@api/MessagePopover";
 import { SettingsPluginUiElements, useSettings } from "@api/Settings";
 import { classNameFactory } from "@api/Styles";
+import { sortUIElements, UIElementData } from "@api/UIElements";
 import { BaseText } from "@components/BaseText";
 import { Card } from "@components/Card";
 import { PlaceholderIcon } from "@components/Icons";
 import { Paragraph } from "@components/Paragraph";
-import { Switch } from "@components/Switch";
 import { Margins } from "@utils/margins";
 import { classes } from "@utils/misc";
 import { ModalContent, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
 import { IconComponent } from "@utils/types";
-import { Clickable } from "@webpack/common";
+import { Button, Clickable, Select } from "@webpack/common";
 
 
 const cl = classNameFactory("vc-plugin-ui-elements-");
@@ -33,7 +33,7 @@ export function UIElementsButton() {
                         Manage plugin UI elements
                     </Paragraph>
                     <Paragraph size="xs">
-                        Allows you to hide buttons you don't like
+                        Allows you to hide, reorder or move buttons into an overflow menu
                     </Paragraph>
                 </div>
                 <svg
@@ -48,37 +48,91 @@ export function UIElementsButton() {
     );
 }
 
+type Visibility = "shown" | "overflow" | "hidden";
+
+const VisibilityOptions: Array<{ label: string; value: Visibility; }> = [
+    { label: "Shown", value: "shown" },
+    { label: "In overflow menu", value: "overflow" },
+    { label: "Hidden", value: "hidden" }
+];
+
+function getVisibility(settings: SettingsPluginUiElements, id: string): Visibility {
+    if (settings[id]?.enabled === false) return "hidden";
+    return settings[id]?.overflow ? "overflow" : "shown";
+}
+
 function Section(props: {
     title: string;
     description: string;
     settings: SettingsPluginUiElements;
-    buttonMap: Map<string, { icon: IconComponent; }>;
+    buttonMap: Map<string, UIElementData & { icon: IconComponent; }>;
 }) {
     const { buttonMap, description, title, settings } = props;
 
+    const buttons = sortUIElements(buttonMap, settings);
+
+    function move(index: number, offset: number) {
+        const ids = buttons.map(([id]) => id);
+        [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+
+        // Store the position of all buttons, so buttons added later don't move the ones the user placed
+        ids.forEach((id, order) => {
+            settings[id] ??= { enabled: true };
+            settings[id].order = order;
+        });
+    }
+
+    function setVisibility(id: string, visibility: Visibility) {
+        settings[id] ??= { enabled: true };
+        settings[id].enabled = visibility !== "hidden";
+        settings[id].overflow = visibility === "overflow";
+    }
+
+    function resetOrder() {
+        for (const id in settings) {
+            delete settings[id].order;
+        }
+    }
+
     return (
         <section>
             <BaseText tag="h3" size="xl" weight="bold">{title}</BaseText>
             <Paragraph size="sm" className={classes(Margins.top8, Margins.bottom20)}>{description}</Paragraph>
 
             <div className={cl("switches")}>
-                {Array.from(buttonMap, ([name, { icon }]) => {
+                {buttons.map(([name, { icon, label }], i) => {
                     const Icon = icon ?? PlaceholderIcon;
                     return (
                         <Paragraph size="md" weight="semibold" key={name} className={cl("switches-row")}>
                             <Icon height={20} width={20} />
-                            {name}
-                            <Switch
-                                checked={settings[name]?.enabled ?? true}
-                                onChange={v => {
-                                    settings[name] ??= {} as any;
-                                    settings[name].enabled = v;
-                                }}
-                            />
+                            {label ?? name}
+                            <div className={cl("controls")}>
+                                <button className={cl("move")} disabled={i === 0} onClick={() => move(i, -1)} aria-label="Move up">
+                                    ↑
+                                </button>
+                                <button className={cl("move")} disabled={i === buttons.length - 1} onClick={() => move(i, 1)} aria-label="Move down">
+                                    ↓
+                                </button>
+                                <div className={cl("visibility")}>
+                                    <Select
+                                        options={VisibilityOptions}
+                                        closeOnSelect={true}
+                                        select={v => setVisibility(name, v)}
+                                        isSelected={v => v === getVisibility(settings, name)}
+                                        serialize={String}
+                                    />
+                                </div>
+                            </div>
                         </Paragraph>
                     );
                 })}
             </div>
+
+            {buttons.some(([id]) => settings[id]?.order != null) && (
+                <Button size={Button.Sizes.SMALL} look={Button.Looks.LINK} className={Margins.top8} onClick={resetOrder}>
+                    Reset Order
+                </Button>
+            )}
         </section>
     );
 }
@@ -16,22 +16,44 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { downloadSettingsBackup, uploadSettingsBackup } from "@api/SettingsSync/offline";
+import { exportDataStore, getDataStoreBackupEntries } from "@api/SettingsSync/dataStore";
+import { downloadSettingsBackup } from "@api/SettingsSync/offline";
 import { Card } from "@components/Card";
 import { Flex } from "@components/Flex";
 import { Heading } from "@components/Heading";
 import { Paragraph } from "@components/Paragraph";
 import { SettingsTab, wrapTab } from "@components/settings/tabs/BaseTab";
 import { Margins } from "@utils/margins";
+import { useAwaiter } from "@utils/react";
+import { formatBytes } from "@utils/text";
 import { Button, Text } from "@webpack/common";
 
+import { openImportSettingsModal } from "./ImportSettingsModal";
+
+function PluginDataSizes() {
+    const [entries] = useAwaiter(async () => getDataStoreBackupEntries(await exportDataStore()), { fallbackValue: [] });
+
+    const sizes = {} as Record<string, number>;
+    for (const { owner, size } of entries) {
+        sizes[owner] = (sizes[owner] ?? 0) + size;
+    }
+
+    return (
+        <ul>
+            {Object.entries(sizes).map(([owner, size]) => (
+                <li key={owner}>&mdash; {owner} ({formatBytes(size)})</li>
+            ))}
+        </ul>
+    );
+}
+
 function BackupAndRestoreTab() {
     return (
         <SettingsTab>
             <Flex flexDirection="column" gap="0.5em">
                 <Card variant="warning">
                     <Heading tag="h4">Warning</Heading>
-                    <Paragraph>Importing a settings file will overwrite your current settings.</Paragraph>
+                    <Paragraph>Importing a settings file will overwrite the parts of your current settings you choose to restore.</Paragraph>
                 </Card>
 
                 <Text variant="text-md/normal" className={Margins.bottom8}>
@@ -46,11 +68,17 @@ function BackupAndRestoreTab() {
                         <li>&mdash; Custom QuickCSS</li>
                         <li>&mdash; Theme Links</li>
                         <li>&mdash; Plugin Settings</li>
+                        <li>&mdash; Plugin Data</li>
                     </ul>
                 </Text>
 
+                <Heading tag="h4">Plugin Data included:</Heading>
+                <Text variant="text-md/normal" className={Margins.bottom8}>
+                    <PluginDataSizes />
+                </Text>
+
                 <Flex>
-                    <Button onClick={() => uploadSettingsBackup()}>
+                    <Button onClick={openImportSettingsModal}>
                         Import Settings
                     </Button>
                     <Button onClick={downloadSettingsBackup}>
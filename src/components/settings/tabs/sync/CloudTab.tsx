@@ -17,17 +17,122 @@
 */
 
 import { useSettings } from "@api/Settings";
-import { authorizeCloud, deauthorizeCloud } from "@api/SettingsSync/cloudSetup";
+import { authorizeCloud, deauthorizeCloud, getCloudEncryptionKey, openCloudEncryptionModal, removeCloudEncryption } from "@api/SettingsSync/cloudSetup";
 import { deleteCloudSettings, eraseAllCloudData, getCloudSettings, putCloudSettings } from "@api/SettingsSync/cloudSync";
+import { SyncConflict } from "@api/SettingsSync/merge";
+import { classNameFactory } from "@api/Styles";
 import { CheckedTextInput } from "@components/CheckedTextInput";
 import { Divider } from "@components/Divider";
+import { Flex } from "@components/Flex";
 import { FormSwitch } from "@components/FormSwitch";
 import { Grid } from "@components/Grid";
 import { Link } from "@components/Link";
 import { Paragraph } from "@components/Paragraph";
 import { SettingsTab, wrapTab } from "@components/settings/tabs/BaseTab";
 import { Margins } from "@utils/margins";
-import { Alerts, Button, Forms, Tooltip } from "@webpack/common";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { useAwaiter } from "@utils/react";
+import { Alerts, Button, Forms, Text, Tooltip, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-cloud-conflicts-");
+
+type ConflictSide = "local" | "remote";
+
+function formatConflictValue(value: unknown) {
+    if (value === undefined) return "default";
+
+    const str = JSON.stringify(value) ?? String(value);
+    return str.length > 120 ? str.slice(0, 117) + "..." : str;
+}
+
+function formatConflictPath([root, ...path]: string[]) {
+    if (root === "quickCss") return "QuickCSS";
+    if (root === "dataStore") return `Plugin Data: ${path.join(".")}`;
+    return path.join(".");
+}
+
+interface SyncConflictModalProps extends ModalProps {
+    conflicts: SyncConflict[];
+    onResolve(resolutions: Array<[SyncConflict, ConflictSide]>): void;
+}
+
+function SyncConflictModal({ conflicts, onResolve, transitionState, onClose }: SyncConflictModalProps) {
+    const [sides, setSides] = useState<ConflictSide[]>(() => conflicts.map(() => "local"));
+
+    const setSide = (index: number, side: ConflictSide) => setSides(prev => prev.map((s, i) => i === index ? side : s));
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.MEDIUM}>
+            <ModalHeader separator={false}>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Resolve Sync Conflicts</Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                <Paragraph>
+                    These settings were changed both on this device and on another one since they were last synchronized.
+                    Choose which value to keep for each of them. Closing this will cancel synchronizing.
+                </Paragraph>
+
+                <Flex style={{ justifyContent: "flex-end" }}>
+                    <Button size={Button.Sizes.SMALL} look={Button.Looks.LINK} onClick={() => setSides(conflicts.map(() => "local"))}>
+                        Keep all local
+                    </Button>
+                    <Button size={Button.Sizes.SMALL} look={Button.Looks.LINK} onClick={() => setSides(conflicts.map(() => "remote"))}>
+                        Use all cloud
+                    </Button>
+                </Flex>
+
+                {conflicts.map((conflict, i) => (
+                    <div key={JSON.stringify(conflict.path)} className={cl("conflict")}>
+                        <Text variant="text-md/semibold"><code>{formatConflictPath(conflict.path)}</code></Text>
+                        <div className={cl("choices")}>
+                            {(["local", "remote"] as const).map(side => (
+                                <Button
+                                    key={side}
+                                    size={Button.Sizes.SMALL}
+                                    color={sides[i] === side ? Button.Colors.BRAND : Button.Colors.PRIMARY}
+                                    className={cl("choice")}
+                                    onClick={() => setSide(i, side)}
+                                >
+                                    {side === "local" ? "This device" : "Cloud"}: {formatConflictValue(conflict[side])}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex>
+                    <Button color={Button.Colors.PRIMARY} onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button onClick={() => {
+                        onResolve(conflicts.map((conflict, i) => [conflict, sides[i]]));
+                        onClose();
+                    }}>
+                        Apply
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+/**
+ * Let the user choose between the local and cloud value of settings changed on both sides since the last sync
+ * @returns The chosen side for each conflict, or null if the user cancelled
+ */
+export function openSyncConflictModal(conflicts: SyncConflict[]) {
+    return new Promise<Array<[SyncConflict, ConflictSide]> | null>(resolve => {
+        openModal(
+            modalProps => <SyncConflictModal {...modalProps} conflicts={conflicts} onResolve={resolve} />,
+            // Resolving again after onResolve is a no-op
+            { onCloseCallback: () => setImmediate(() => resolve(null)) }
+        );
+    });
+}
 
 function validateUrl(url: string) {
     try {
@@ -65,6 +170,13 @@ function SettingsSyncSection() {
                 >
                     Sync to Cloud
                 </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    disabled={!sectionEnabled}
+                    onClick={() => getCloudSettings(true, false, openSyncConflictModal)}
+                >
+                    Merge with Cloud
+                </Button>
                 <Tooltip text="This will overwrite your local settings with the ones on the cloud. Use wisely!">
                     {({ onMouseLeave, onMouseEnter }) => (
                         <Button
@@ -88,10 +200,51 @@ function SettingsSyncSection() {
                     Delete Cloud Settings
                 </Button>
             </div>
+            <EncryptionSection disabled={!sectionEnabled} />
         </section>
     );
 }
 
+function EncryptionSection({ disabled }: { disabled: boolean; }) {
+    const [keyVersion, setKeyVersion] = useState(0);
+    const [encryptionKey, , pending] = useAwaiter(getCloudEncryptionKey, { fallbackValue: null, deps: [keyVersion] });
+    const refresh = () => setKeyVersion(v => v + 1);
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16}>End-to-end Encryption</Forms.FormTitle>
+            <Paragraph size="md" className={Margins.bottom8}>
+                Encrypt your settings with a passphrase before uploading them, so nobody running the cloud can read
+                them. {encryptionKey ? "Your settings are encrypted on this device." : "Your settings are not encrypted."}
+            </Paragraph>
+            <Grid columns={2} gap="1em">
+                <Button
+                    size={Button.Sizes.SMALL}
+                    disabled={disabled || pending}
+                    onClick={() => openCloudEncryptionModal(refresh)}
+                >
+                    {encryptionKey ? "Change Passphrase" : "Set Passphrase"}
+                </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.RED}
+                    disabled={disabled || pending || !encryptionKey}
+                    onClick={() => Alerts.show({
+                        title: "Remove encryption?",
+                        body: "Settings uploaded from this device will no longer be encrypted. Other devices keep encrypting them until you remove the passphrase there too.",
+                        confirmText: "Remove",
+                        confirmColor: "vc-cloud-erase-data-danger-btn",
+                        cancelText: "Nevermind",
+                        onConfirm: () => removeCloudEncryption().finally(refresh)
+                    })}
+                >
+                    Remove Encryption
+                </Button>
+            </Grid>
+        </>
+    );
+}
+
 function CloudTab() {
     const settings = useSettings(["cloud.authenticated", "cloud.url"]);
 
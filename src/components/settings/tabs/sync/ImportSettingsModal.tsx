@@ -0,0 +1,220 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import "./ImportSettingsModal.css";
+
+import { applySettingsBackup, chooseSettingsBackup, getSettingsImportPreview, parseSettingsBackup, SettingsBackup, SettingsImportChange, SettingsImportPreview, toastFailure, toastSuccess } from "@api/SettingsSync/offline";
+import { classNameFactory } from "@api/Styles";
+import { BaseText } from "@components/BaseText";
+import { Flex } from "@components/Flex";
+import { Paragraph } from "@components/Paragraph";
+import { Logger } from "@utils/Logger";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { formatBytes } from "@utils/text";
+import { Button, Checkbox, Text, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-import-settings-");
+const logger = new Logger("SettingsSync:Offline", "#39b7e0");
+
+function formatValue(value: unknown) {
+    if (value === undefined) return "default";
+
+    const str = JSON.stringify(value) ?? String(value);
+    return str.length > 80 ? str.slice(0, 77) + "..." : str;
+}
+
+function ChangeList({ changes }: { changes: SettingsImportChange[]; }) {
+    return (
+        <ul className={cl("changes")}>
+            {changes.map(({ key, oldValue, newValue, error }) => (
+                <li key={key} className={cl("change", { "change-invalid": !!error })}>
+                    <code>{key}</code>: {formatValue(oldValue)} → {formatValue(newValue)}
+                    {error && <Text variant="text-xs/normal" color="text-danger">Skipped: {error}</Text>}
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+interface SectionProps {
+    title: string;
+    description: string;
+    checked: boolean;
+    onChange(checked: boolean): void;
+    changes?: SettingsImportChange[];
+}
+
+function Section({ title, description, checked, onChange, changes }: SectionProps) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <div className={cl("section")}>
+            <Flex style={{ alignItems: "center" }}>
+                <Checkbox value={checked} onChange={(_, v) => onChange(v)} size={20}>
+                    <Text variant="text-md/semibold">{title}</Text>
+                </Checkbox>
+                <Paragraph className={cl("section-description")}>{description}</Paragraph>
+                {!!changes?.length && (
+                    <Button size={Button.Sizes.SMALL} look={Button.Looks.LINK} onClick={() => setExpanded(v => !v)}>
+                        {expanded ? "Hide" : "Show"} changes
+                    </Button>
+                )}
+            </Flex>
+            {expanded && changes && <ChangeList changes={changes} />}
+        </div>
+    );
+}
+
+function describeChanges(changes: SettingsImportChange[]) {
+    const invalid = changes.filter(c => c.error).length;
+    return `${changes.length} ${changes.length === 1 ? "change" : "changes"}` + (invalid ? `, ${invalid} invalid` : "");
+}
+
+interface ImportSettingsModalProps extends ModalProps {
+    backup: SettingsBackup;
+    preview: SettingsImportPreview;
+}
+
+function ImportSettingsModal({ backup, preview, transitionState, onClose }: ImportSettingsModalProps) {
+    const pluginNames = Object.keys(preview.plugins).sort((a, b) => a.localeCompare(b));
+
+    const [general, setGeneral] = useState(preview.general.length > 0);
+    const [quickCss, setQuickCss] = useState(preview.quickCssChanged);
+    const [selectedPlugins, setSelectedPlugins] = useState(() => new Set(pluginNames));
+    const [selectedDataOwners, setSelectedDataOwners] = useState(() => new Set(preview.dataStore.map(e => e.owner)));
+    const [importing, setImporting] = useState(false);
+
+    const setPluginSelected = (name: string, selected: boolean) => setSelectedPlugins(prev => {
+        const next = new Set(prev);
+        if (selected) next.add(name);
+        else next.delete(name);
+        return next;
+    });
+
+    const setDataOwnerSelected = (owner: string, selected: boolean) => setSelectedDataOwners(prev => {
+        const next = new Set(prev);
+        if (selected) next.add(owner);
+        else next.delete(owner);
+        return next;
+    });
+
+    const dataOwners = Object.groupBy(preview.dataStore, e => e.owner);
+
+    const nothingSelected = !general && !quickCss && selectedPlugins.size === 0 && selectedDataOwners.size === 0;
+
+    async function onImport() {
+        setImporting(true);
+        try {
+            await applySettingsBackup(backup, {
+                general,
+                quickCss,
+                plugins: [...selectedPlugins],
+                dataStore: preview.dataStore.filter(e => selectedDataOwners.has(e.owner)).map(e => e.key)
+            });
+            toastSuccess();
+            onClose();
+        } catch (err) {
+            logger.error(err);
+            toastFailure(err);
+            setImporting(false);
+        }
+    }
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.MEDIUM}>
+            <ModalHeader separator={false}>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Import Settings</Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                <Paragraph>Choose what to restore from this backup. Invalid plugin settings are skipped and keep their current value.</Paragraph>
+
+                <Section
+                    title="Vencord Settings"
+                    description={describeChanges(preview.general)}
+                    checked={general}
+                    onChange={setGeneral}
+                    changes={preview.general}
+                />
+                <Section
+                    title="QuickCSS"
+                    description={preview.quickCssChanged ? "Changed" : "No changes"}
+                    checked={quickCss}
+                    onChange={setQuickCss}
+                />
+
+                <Flex style={{ alignItems: "center" }}>
+                    <BaseText tag="h3" size="md" weight="bold" style={{ flexGrow: 1 }}>Plugins</BaseText>
+                    <Button size={Button.Sizes.SMALL} look={Button.Looks.LINK} onClick={() => setSelectedPlugins(new Set(pluginNames))}>
+                        Select all
+                    </Button>
+                    <Button size={Button.Sizes.SMALL} look={Button.Looks.LINK} onClick={() => setSelectedPlugins(new Set())}>
+                        Select none
+                    </Button>
+                </Flex>
+
+                {pluginNames.length
+                    ? pluginNames.map(name => (
+                        <Section
+                            key={name}
+                            title={name}
+                            description={describeChanges(preview.plugins[name])}
+                            checked={selectedPlugins.has(name)}
+                            onChange={v => setPluginSelected(name, v)}
+                            changes={preview.plugins[name]}
+                        />
+                    ))
+                    : <Paragraph>No plugin settings differ from your current ones.</Paragraph>
+                }
+
+                {preview.dataStore.length > 0 && (
+                    <>
+                        <BaseText tag="h3" size="md" weight="bold">Plugin Data</BaseText>
+                        {Object.entries(dataOwners).map(([owner, entries]) => (
+                            <Section
+                                key={owner}
+                                title={owner}
+                                description={`${entries!.length} ${entries!.length === 1 ? "entry" : "entries"}, ${formatBytes(entries!.reduce((size, e) => size + e.size, 0))}`}
+                                checked={selectedDataOwners.has(owner)}
+                                onChange={v => setDataOwnerSelected(owner, v)}
+                            />
+                        ))}
+                    </>
+                )}
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex>
+                    <Button color={Button.Colors.PRIMARY} onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button disabled={nothingSelected || importing} onClick={onImport}>
+                        Import Selected
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+/**
+ * Let the user pick a settings backup and choose what to restore from it
+ */
+export async function openImportSettingsModal() {
+    try {
+        const data = await chooseSettingsBackup();
+        if (data == null) return;
+
+        const backup = parseSettingsBackup(data);
+        const preview = await getSettingsImportPreview(backup);
+
+        openModal(modalProps => <ImportSettingsModal {...modalProps} backup={backup} preview={preview} />);
+    } catch (err) {
+        logger.error(err);
+        toastFailure(err);
+    }
+}
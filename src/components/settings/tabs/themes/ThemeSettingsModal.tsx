@@ -0,0 +1,146 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings, useSettings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { getThemeVariableValue, isSafeThemeVariableValue } from "@api/Themes";
+import { Paragraph } from "@components/Paragraph";
+import { Switch } from "@components/Switch";
+import type { ThemeVariable, ThemeVariableValue, UserThemeHeader } from "@main/themes";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { Button, ColorPicker, Forms, Select, Slider, Text, TextInput, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-theme-settings-");
+
+const hexColorRegex = /^#[\da-f]{6}$/i;
+
+interface VariableControlProps {
+    variable: ThemeVariable;
+    value: ThemeVariableValue;
+    onChange(value: ThemeVariableValue): void;
+}
+
+function TextControl({ value, onChange }: VariableControlProps) {
+    const [state, setState] = useState(String(value));
+    const isSafe = isSafeThemeVariableValue(state);
+
+    return (
+        <TextInput
+            value={state}
+            onChange={(v: string) => {
+                setState(v);
+                if (isSafeThemeVariableValue(v)) onChange(v);
+            }}
+            error={isSafe ? undefined : "Values can't contain ;, {, } or /*"}
+        />
+    );
+}
+
+function VariableControl(props: VariableControlProps) {
+    const { variable, value, onChange } = props;
+
+    switch (variable.type) {
+        case "color":
+            // The color picker only supports hex colors, so fall back to a text input for anything else
+            if (!hexColorRegex.test(String(value))) return <TextControl {...props} />;
+
+            return (
+                <ColorPicker
+                    color={parseInt(String(value).slice(1), 16)}
+                    onChange={(color: number) => onChange("#" + color.toString(16).padStart(6, "0"))}
+                    showEyeDropper={false}
+                />
+            );
+        case "text":
+            return <TextControl {...props} />;
+        case "checkbox":
+            return <Switch checked={value as boolean} onChange={onChange} />;
+        case "range":
+            return (
+                <Slider
+                    markers={[variable.min, variable.max]}
+                    minValue={variable.min}
+                    maxValue={variable.max}
+                    initialValue={value as number}
+                    onValueChange={(v: number) => onChange(Math.round(v / variable.step) * variable.step)}
+                    onValueRender={(v: number) => `${Math.round(v / variable.step) * variable.step}${variable.unit}`}
+                    stickToMarkers={false}
+                />
+            );
+        case "select":
+            return (
+                <Select
+                    options={Object.keys(variable.options).map(label => ({ label, value: label }))}
+                    closeOnSelect={true}
+                    select={onChange}
+                    isSelected={v => v === value}
+                    serialize={v => String(v)}
+                />
+            );
+    }
+}
+
+function ThemeSettingsModal({ theme, transitionState, onClose }: ModalProps & { theme: UserThemeHeader; }) {
+    const { themeVariables } = useSettings(["themeVariables.*"]);
+    const [resetCount, setResetCount] = useState(0);
+
+    function setValue(name: string, value: ThemeVariableValue) {
+        Settings.themeVariables[theme.fileName] = { ...Settings.themeVariables[theme.fileName], [name]: value };
+    }
+
+    function reset() {
+        delete Settings.themeVariables[theme.fileName];
+        // Remount the controls, since some of them keep their own state
+        setResetCount(c => c + 1);
+    }
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>{theme.name} Settings</Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                {theme.variables.map(variable => (
+                    <div key={`${variable.name}-${resetCount}`} className={cl("variable", { inline: variable.type === "checkbox" })}>
+                        <Forms.FormTitle tag="h5" className={cl("label")}>{variable.label}</Forms.FormTitle>
+                        <VariableControl
+                            variable={variable}
+                            value={getThemeVariableValue(theme.fileName, variable)}
+                            onChange={value => setValue(variable.name, value)}
+                        />
+                    </div>
+                ))}
+
+                {theme.imports.length > 0 && (
+                    <section>
+                        <Forms.FormTitle tag="h5">Dependencies</Forms.FormTitle>
+                        <Paragraph>This theme also loads the following stylesheets:</Paragraph>
+                        <ul className={cl("imports")}>
+                            {theme.imports.map(url => <li key={url}><code>{url}</code></li>)}
+                        </ul>
+                    </section>
+                )}
+            </ModalContent>
+
+            <ModalFooter>
+                <Button
+                    color={Button.Colors.RED}
+                    look={Button.Looks.LINK}
+                    disabled={!themeVariables[theme.fileName]}
+                    onClick={reset}
+                >
+                    Reset to Defaults
+                </Button>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openThemeSettingsModal(theme: UserThemeHeader) {
+    openModal(props => <ThemeSettingsModal {...props} theme={theme} />);
+}
@@ -0,0 +1,80 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import "./NetFetchLog.css";
+
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import { Paragraph } from "@components/Paragraph";
+import type { NetFetchLogEntry } from "@main/netFetch";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { useAwaiter } from "@utils/react";
+import { formatBytes } from "@utils/text";
+import { Button, Text, Tooltip, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-net-log-");
+
+function LogEntry({ entry }: { entry: NetFetchLogEntry; }) {
+    const details = [
+        entry.status && `HTTP ${entry.status}`,
+        entry.size != null && formatBytes(entry.size),
+        `${entry.duration}ms`
+    ].filter(Boolean).join(" · ");
+
+    return (
+        <div className={cl("entry")}>
+            <Flex style={{ alignItems: "center", gap: "0.5em" }}>
+                <span className={cl("result", `result-${entry.result}`)}>{entry.result}</span>
+                <Text variant="text-sm/semibold">{entry.caller}</Text>
+                <Text variant="text-xs/normal" color="text-muted" style={{ marginLeft: "auto" }}>
+                    {new Date(entry.timestamp).toLocaleTimeString()} · {details}
+                </Text>
+            </Flex>
+            <Tooltip text={entry.url}>
+                {props => <code {...props} className={cl("url")}>{entry.url}</code>}
+            </Tooltip>
+            {entry.error && <Text variant="text-xs/normal" color="text-danger">{entry.error}</Text>}
+        </div>
+    );
+}
+
+function NetFetchLogModal({ transitionState, onClose }: ModalProps) {
+    const [version, setVersion] = useState(0);
+    const [log, , pending] = useAwaiter(VencordNative.net.getLog, { fallbackValue: [], deps: [version] });
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.LARGE}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Network Request Log</Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                <Paragraph>
+                    Requests plugins made through Vencord's native fetch since Discord was started, newest first.
+                    The plugin names are reported by the plugins themselves.
+                </Paragraph>
+                {!pending && log.length === 0 && <Paragraph>No requests yet.</Paragraph>}
+                {log.toReversed().map(entry => <LogEntry key={`${entry.timestamp}-${entry.url}`} entry={entry} />)}
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex>
+                    <Button color={Button.Colors.RED} look={Button.Looks.LINK} onClick={() => VencordNative.net.clearLog().then(() => setVersion(v => v + 1))}>
+                        Clear Log
+                    </Button>
+                    <Button onClick={() => setVersion(v => v + 1)}>
+                        Refresh
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openNetFetchLogModal() {
+    openModal(props => <NetFetchLogModal {...props} />);
+}
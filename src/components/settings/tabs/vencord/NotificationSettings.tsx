@@ -4,10 +4,11 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { openNotificationLogModal } from "@api/Notifications/notificationLog";
-import { useSettings } from "@api/Settings";
+import { CORE_SOURCE, getNotificationSource, openNotificationLogModal, pruneNotificationLog, useLogs } from "@api/Notifications/notificationLog";
+import { Settings, useSettings } from "@api/Settings";
 import { ErrorCard } from "@components/ErrorCard";
 import { Flex } from "@components/Flex";
+import { FormSwitch } from "@components/FormSwitch";
 import { Margins } from "@utils/margins";
 import { identity } from "@utils/misc";
 import { ModalCloseButton, ModalContent, ModalHeader, ModalRoot, ModalSize, openModal } from "@utils/modal";
@@ -48,6 +49,142 @@ export function openNotificationSettingsModal() {
     ));
 }
 
+const MaxAgeOptions = [
+    { label: "Keep forever", value: 0 },
+    { label: "1 day", value: 1 },
+    { label: "7 days", value: 7 },
+    { label: "30 days", value: 30 },
+    { label: "90 days", value: 90 }
+];
+
+const MaxCountOptions = [
+    { label: "No limit", value: 0 },
+    ...[5, 10, 25, 50, 100].map(n => ({ label: `${n} notifications`, value: n }))
+];
+
+function setRetention(source: string, key: "maxAge" | "maxCount", value: number) {
+    const { retention } = Settings.notifications;
+    const policy = { ...(retention[source] ?? { maxAge: 0, maxCount: 0 }), [key]: value };
+
+    if (!policy.maxAge && !policy.maxCount)
+        delete retention[source];
+    else
+        retention[source] = policy;
+
+    pruneNotificationLog();
+}
+
+function RetentionSettings() {
+    const { retention } = useSettings(["notifications.retention.*"]).notifications;
+    const [log] = useLogs();
+
+    const sources = [...new Set([CORE_SOURCE, ...Object.keys(retention), ...log.map(getNotificationSource)])].sort();
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Log Retention</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Remove old notifications of specific plugins from the log sooner. Pinned notifications are never removed.
+            </Forms.FormText>
+            {sources.map(source => (
+                <Flex key={source} className={Margins.bottom8} style={{ alignItems: "center" }}>
+                    <Forms.FormText style={{ flex: 1 }}>{source}</Forms.FormText>
+                    <div style={{ width: 160 }}>
+                        <Select
+                            options={MaxAgeOptions}
+                            closeOnSelect={true}
+                            select={v => setRetention(source, "maxAge", v)}
+                            isSelected={v => v === (retention[source]?.maxAge ?? 0)}
+                            serialize={String}
+                        />
+                    </div>
+                    <div style={{ width: 160 }}>
+                        <Select
+                            options={MaxCountOptions}
+                            closeOnSelect={true}
+                            select={v => setRetention(source, "maxCount", v)}
+                            isSelected={v => v === (retention[source]?.maxCount ?? 0)}
+                            serialize={String}
+                        />
+                    </div>
+                </Flex>
+            ))}
+        </>
+    );
+}
+
+const HourOptions = Array.from({ length: 24 }, (_, hour) => ({ label: `${String(hour).padStart(2, "0")}:00`, value: hour }));
+
+function DoNotDisturbSettings() {
+    const settings = useSettings(["notifications.*"]).notifications;
+    const [log] = useLogs();
+
+    // Only plugins which have shown notifications before can be muted, since there's no way to know which plugins will
+    const plugins = [...new Set([...settings.mutedPlugins, ...log.map(n => n.plugin).filter(p => p != null)])].sort();
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Do Not Disturb</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Notifications hidden by these rules are still added to the Notification Log. Notifications which aren't logged or don't time out, like restart prompts, are always shown.
+            </Forms.FormText>
+
+            <FormSwitch
+                title="Only show notifications while Discord isn't focused"
+                value={settings.onlyWhenUnfocused}
+                onChange={v => settings.onlyWhenUnfocused = v}
+            />
+            <FormSwitch
+                title="Quiet hours"
+                description="Hide notifications during the selected hours"
+                value={settings.quietHours.enabled}
+                onChange={v => settings.quietHours.enabled = v}
+                hideBorder={settings.quietHours.enabled}
+            />
+            {settings.quietHours.enabled && (
+                <Flex className={Margins.bottom16} style={{ alignItems: "center" }}>
+                    <div style={{ flex: 1 }}>
+                        <Select
+                            options={HourOptions}
+                            closeOnSelect={true}
+                            select={v => settings.quietHours.start = v}
+                            isSelected={v => v === settings.quietHours.start}
+                            serialize={String}
+                        />
+                    </div>
+                    <Forms.FormText>until</Forms.FormText>
+                    <div style={{ flex: 1 }}>
+                        <Select
+                            options={HourOptions}
+                            closeOnSelect={true}
+                            select={v => settings.quietHours.end = v}
+                            isSelected={v => v === settings.quietHours.end}
+                            serialize={String}
+                        />
+                    </div>
+                </Flex>
+            )}
+
+            {plugins.length > 0 && (
+                <>
+                    <Forms.FormTitle tag="h5" className={Margins.top8 + " " + Margins.bottom8}>Muted Plugins</Forms.FormTitle>
+                    {plugins.map(plugin => (
+                        <FormSwitch
+                            key={plugin}
+                            title={plugin}
+                            value={settings.mutedPlugins.includes(plugin)}
+                            onChange={muted => settings.mutedPlugins = muted
+                                ? [...settings.mutedPlugins, plugin]
+                                : settings.mutedPlugins.filter(p => p !== plugin)
+                            }
+                        />
+                    ))}
+                </>
+            )}
+        </>
+    );
+}
+
 function NotificationSettings() {
     const settings = useSettings(["notifications.*"]).notifications;
 
@@ -110,7 +247,8 @@ function NotificationSettings() {
             <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Notification Log Limit</Forms.FormTitle>
             <Forms.FormText className={Margins.bottom16}>
                 The amount of notifications to save in the log until old ones are removed.
-                Set to <code>0</code> to disable Notification log and <code>∞</code> to never automatically remove old Notifications
+                Set to <code>0</code> to disable Notification log and <code>∞</code> to never automatically remove old Notifications.
+                Pinned notifications don't count towards the limit
             </Forms.FormText>
             <Slider
                 markers={[0, 25, 50, 75, 100, 200]}
@@ -118,10 +256,16 @@ function NotificationSettings() {
                 maxValue={200}
                 stickToMarkers={true}
                 initialValue={settings.logLimit}
-                onValueChange={v => settings.logLimit = v}
+                onValueChange={v => {
+                    settings.logLimit = v;
+                    pruneNotificationLog();
+                }}
                 onValueRender={v => v === 200 ? "∞" : v}
                 onMarkerRender={v => v === 200 ? "∞" : v}
             />
+
+            <RetentionSettings />
+            <DoNotDisturbSettings />
         </div>
     );
 }
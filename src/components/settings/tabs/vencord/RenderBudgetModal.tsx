@@ -0,0 +1,150 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import "./RenderBudgetModal.css";
+
+import { enableRenderFactory, RenderFactoryKindNames, RenderStats, renderStats, resetRenderStats } from "@api/RenderBudget";
+import { useSettings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import { FormSwitch } from "@components/FormSwitch";
+import { Paragraph } from "@components/Paragraph";
+import { Margins } from "@utils/margins";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { Button, Forms, Select, Text, useReducer } from "@webpack/common";
+
+const cl = classNameFactory("vc-render-budget-");
+
+const BudgetOptions = [1, 2, 4, 8, 16].map(ms => ({ label: `${ms}ms`, value: ms }));
+const MaxViolationOptions = [5, 10, 20, 50, 100].map(n => ({ label: `${n} times`, value: n }));
+
+const averageTime = (stats: RenderStats) => stats.renders ? stats.totalTime / stats.renders : 0;
+
+function StatsRow({ stats, onChange }: { stats: RenderStats; onChange(): void; }) {
+    return (
+        <tr className={cl("row", { disabled: stats.disabledReason != null })}>
+            <td>
+                <Text variant="text-sm/semibold">{stats.id}</Text>
+                <Text variant="text-xs/normal" color="text-muted">{RenderFactoryKindNames[stats.kind]}</Text>
+            </td>
+            <td>{stats.renders}</td>
+            <td>{averageTime(stats).toFixed(2)}ms</td>
+            <td>{stats.maxTime.toFixed(2)}ms</td>
+            <td>{stats.slowRenders}</td>
+            <td>{stats.errors}</td>
+            <td>
+                {stats.disabledReason != null && (
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        onClick={() => {
+                            enableRenderFactory(stats.kind, stats.id);
+                            onChange();
+                        }}
+                    >
+                        Enable
+                    </Button>
+                )}
+            </td>
+        </tr>
+    );
+}
+
+function RenderBudgetModal({ transitionState, onClose }: ModalProps) {
+    const { renderBudget } = useSettings(["renderBudget.*"]);
+    // The stats are updated while rendering, so re-render on request instead of on every change
+    const [, refresh] = useReducer(x => x + 1, 0);
+
+    const stats = Array.from(renderStats.values()).sort((a, b) => averageTime(b) - averageTime(a));
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.LARGE}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Render Performance</Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                <Paragraph>
+                    How long the message accessories, message decorations and member list decorators of plugins took to render
+                    since Discord was started, slowest first. This includes rendering the components they return, but not effects or updates of those components.
+                </Paragraph>
+
+                <FormSwitch
+                    title="Automatically disable slow elements"
+                    description="Disables elements until restart once they were too slow or threw errors too often"
+                    value={renderBudget.autoDisable}
+                    onChange={v => renderBudget.autoDisable = v}
+                    hideBorder
+                />
+                <Flex className={Margins.bottom16}>
+                    <div style={{ flex: 1 }}>
+                        <Forms.FormTitle tag="h5">Budget per render</Forms.FormTitle>
+                        <Select
+                            options={BudgetOptions}
+                            closeOnSelect={true}
+                            select={v => renderBudget.budget = v}
+                            isSelected={v => v === renderBudget.budget}
+                            serialize={String}
+                        />
+                    </div>
+                    <div style={{ flex: 1 }}>
+                        <Forms.FormTitle tag="h5">Disable after exceeding it or throwing</Forms.FormTitle>
+                        <Select
+                            options={MaxViolationOptions}
+                            closeOnSelect={true}
+                            select={v => renderBudget.maxViolations = v}
+                            isSelected={v => v === renderBudget.maxViolations}
+                            serialize={String}
+                        />
+                    </div>
+                </Flex>
+
+                {stats.length === 0
+                    ? <Paragraph>Nothing was rendered yet.</Paragraph>
+                    : (
+                        <table className={cl("table")}>
+                            <thead>
+                                <tr>
+                                    <th>Element</th>
+                                    <th>Renders</th>
+                                    <th>Average</th>
+                                    <th>Slowest</th>
+                                    <th>Over Budget</th>
+                                    <th>Errors</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {stats.map(s => <StatsRow key={`${s.kind}:${s.id}`} stats={s} onChange={refresh} />)}
+                            </tbody>
+                        </table>
+                    )}
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex>
+                    <Button
+                        color={Button.Colors.RED}
+                        look={Button.Looks.LINK}
+                        onClick={() => {
+                            resetRenderStats();
+                            refresh();
+                        }}
+                    >
+                        Reset Stats
+                    </Button>
+                    <Button onClick={refresh}>
+                        Refresh
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openRenderBudgetModal() {
+    openModal(props => <RenderBudgetModal {...props} />);
+}
@@ -0,0 +1,261 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import "./UserCommandsModal.css";
+
+import { findUserCommandCycle, formatCommandPath, USER_COMMAND_NAME_REGEX, UserCommand, UserCommandMacroStep } from "@api/Commands/userCommands";
+import { PlainSettings, Settings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import { DeleteIcon } from "@components/Icons";
+import { Paragraph } from "@components/Paragraph";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { Button, Forms, Select, Text, TextArea, TextInput, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-user-commands-");
+
+interface DraftCommand {
+    name: string;
+    command: UserCommand;
+}
+
+const CommandTypeOptions = [
+    { label: "Alias", value: "alias" },
+    { label: "Macro", value: "macro" }
+];
+
+const StepTypeOptions = [
+    { label: "Send Message", value: "send" },
+    { label: "Insert Into Chat Box", value: "insert" },
+    { label: "Run Command", value: "command" }
+];
+
+const formatArgs = (args: Record<string, string>) => Object.entries(args).map(([k, v]) => `${k}=${v}`).join("\n");
+
+function parseArgs(text: string) {
+    const args = {} as Record<string, string>;
+    for (const line of text.split("\n")) {
+        const separator = line.indexOf("=");
+        if (separator === -1) continue;
+
+        args[line.slice(0, separator).trim()] = line.slice(separator + 1);
+    }
+    return args;
+}
+
+function ArgsInput({ args, onChange }: { args: Record<string, string>; onChange(args: Record<string, string>): void; }) {
+    const [text, setText] = useState(() => formatArgs(args));
+    // Keep what the user typed, including incomplete lines, unless the options were changed from elsewhere
+    const shownText = JSON.stringify(parseArgs(text)) === JSON.stringify(args) ? text : formatArgs(args);
+
+    return (
+        <TextArea
+            value={shownText}
+            placeholder={"option=value\nother-option=value"}
+            rows={2}
+            onChange={(v: string) => {
+                setText(v);
+                onChange(parseArgs(v));
+            }}
+        />
+    );
+}
+
+function MacroStepEditor({ step, onChange, onDelete }: { step: UserCommandMacroStep; onChange(step: UserCommandMacroStep): void; onDelete(): void; }) {
+    return (
+        <div className={cl("step")}>
+            <Flex className={cl("step-header")}>
+                <div className={cl("step-type")}>
+                    <Select
+                        options={StepTypeOptions}
+                        closeOnSelect={true}
+                        select={type => onChange(type === "command" ? { type, command: "", args: {} } : { type, text: "" })}
+                        isSelected={v => v === step.type}
+                        serialize={v => String(v)}
+                    />
+                </div>
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} look={Button.Looks.LINK} onClick={onDelete}>
+                    Remove
+                </Button>
+            </Flex>
+
+            {step.type === "command"
+                ? (
+                    <>
+                        <TextInput
+                            value={step.command}
+                            placeholder="Command name, like shrug or tags preview"
+                            onChange={(command: string) => onChange({ ...step, command })}
+                        />
+                        <ArgsInput args={step.args} onChange={args => onChange({ ...step, args })} />
+                    </>
+                ) : (
+                    <TextArea
+                        value={step.text}
+                        placeholder="Text"
+                        rows={2}
+                        onChange={(text: string) => onChange({ ...step, text })}
+                    />
+                )}
+        </div>
+    );
+}
+
+function CommandEditor({ draft, onChange, onDelete }: { draft: DraftCommand; onChange(draft: DraftCommand): void; onDelete(): void; }) {
+    const { name, command } = draft;
+    const setCommand = (command: UserCommand) => onChange({ name, command });
+
+    return (
+        <div className={cl("command")}>
+            <Flex className={cl("command-header")}>
+                <Text variant="text-md/semibold" className={cl("slash")}>/</Text>
+                <TextInput
+                    className={cl("name")}
+                    value={name}
+                    placeholder="name"
+                    onChange={(name: string) => onChange({ name: name.toLowerCase(), command })}
+                />
+                <div className={cl("type")}>
+                    <Select
+                        options={CommandTypeOptions}
+                        closeOnSelect={true}
+                        select={type => setCommand(type === "alias"
+                            ? { type, description: command.description, command: "", args: {} }
+                            : { type, description: command.description, steps: [] }
+                        )}
+                        isSelected={v => v === command.type}
+                        serialize={v => String(v)}
+                    />
+                </div>
+                <button className={cl("delete")} onClick={onDelete}>
+                    <DeleteIcon />
+                </button>
+            </Flex>
+
+            <TextInput
+                value={command.description}
+                placeholder="Description"
+                onChange={(description: string) => setCommand({ ...command, description })}
+            />
+
+            {command.type === "alias"
+                ? (
+                    <>
+                        <Forms.FormTitle tag="h5" className={cl("label")}>Command</Forms.FormTitle>
+                        <TextInput
+                            value={command.command}
+                            placeholder="Command name, like shrug or tags preview"
+                            onChange={(target: string) => setCommand({ ...command, command: target })}
+                        />
+                        <Forms.FormTitle tag="h5" className={cl("label")}>Prefilled Options</Forms.FormTitle>
+                        <ArgsInput args={command.args} onChange={args => setCommand({ ...command, args })} />
+                    </>
+                ) : (
+                    <>
+                        <Forms.FormTitle tag="h5" className={cl("label")}>Steps</Forms.FormTitle>
+                        {command.steps.map((step, i) => (
+                            <MacroStepEditor
+                                key={i}
+                                step={step}
+                                onChange={step => setCommand({ ...command, steps: command.steps.with(i, step) })}
+                                onDelete={() => setCommand({ ...command, steps: command.steps.filter((_, j) => j !== i) })}
+                            />
+                        ))}
+                        <Button
+                            size={Button.Sizes.SMALL}
+                            className={cl("add-step")}
+                            onClick={() => setCommand({ ...command, steps: [...command.steps, { type: "send", text: "" }] })}
+                        >
+                            Add Step
+                        </Button>
+                    </>
+                )}
+        </div>
+    );
+}
+
+function validate(drafts: DraftCommand[]) {
+    const names = new Set<string>();
+
+    for (const { name, command } of drafts) {
+        if (!USER_COMMAND_NAME_REGEX.test(name))
+            return `"${name}" is not a valid command name. Names may only contain letters, numbers, - and _ and be at most 32 characters long`;
+        if (names.has(name))
+            return `There are multiple commands named "${name}"`;
+        if (command.type === "alias" && !command.command.trim())
+            return `The alias /${name} has no command`;
+        if (command.type === "macro" && !command.steps.length)
+            return `The macro /${name} has no steps`;
+
+        names.add(name);
+    }
+
+    const cycle = findUserCommandCycle(Object.fromEntries(drafts.map(d => [d.name, d.command])));
+    if (cycle)
+        return `${formatCommandPath(cycle)} runs itself. Commands can't run themselves, not even through other commands`;
+
+    return null;
+}
+
+function UserCommandsModal({ transitionState, onClose }: ModalProps) {
+    const [drafts, setDrafts] = useState<DraftCommand[]>(() =>
+        // The plain object, since proxied settings can't be cloned
+        Object.entries(structuredClone(PlainSettings.userCommands)).map(([name, command]) => ({ name, command }))
+    );
+    const [error, setError] = useState<string | null>(null);
+
+    function save() {
+        const error = validate(drafts);
+        setError(error);
+        if (error) return;
+
+        Settings.userCommands = Object.fromEntries(drafts.map(d => [d.name, d.command]));
+        onClose();
+    }
+
+    return (
+        <ModalRoot transitionState={transitionState} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>User Commands</Text>
+                <ModalCloseButton onClick={onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                <Paragraph>
+                    Aliases run another command with some of its options already filled in.
+                    Macros run several steps in a row, like sending messages or running commands.
+                </Paragraph>
+
+                {drafts.map((draft, i) => (
+                    <CommandEditor
+                        key={i}
+                        draft={draft}
+                        onChange={draft => setDrafts(drafts.with(i, draft))}
+                        onDelete={() => setDrafts(drafts.filter((_, j) => j !== i))}
+                    />
+                ))}
+
+                <Button
+                    className={cl("add-command")}
+                    onClick={() => setDrafts([...drafts, { name: "", command: { type: "alias", description: "", command: "", args: {} } }])}
+                >
+                    Add Command
+                </Button>
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex className={cl("footer")}>
+                    {error && <Text variant="text-sm/normal" className={cl("error")}>{error}</Text>}
+                    <Button onClick={save}>Save</Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openUserCommandsModal() {
+    openModal(props => <UserCommandsModal {...props} />);
+}
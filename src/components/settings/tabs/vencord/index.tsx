@@ -20,7 +20,7 @@ import { openNotificationLogModal } from "@api/Notifications/notificationLog";
 import { useSettings } from "@api/Settings";
 import { Divider } from "@components/Divider";
 import { FormSwitch } from "@components/FormSwitch";
-import { FolderIcon, GithubIcon, LogIcon, PaintbrushIcon, RestartIcon } from "@components/Icons";
+import { FolderIcon, GithubIcon, LogIcon, PaintbrushIcon, PencilIcon, PluginsIcon, RestartIcon, WebsiteIcon } from "@components/Icons";
 import { QuickAction, QuickActionCard } from "@components/settings/QuickAction";
 import { SpecialCard } from "@components/settings/SpecialCard";
 import { SettingsTab, wrapTab } from "@components/settings/tabs/BaseTab";
@@ -35,7 +35,10 @@ import { Alerts, Forms, React, useMemo, UserStore } from "@webpack/common";
 
 import { DonateButtonComponent, isDonor } from "./DonateButton";
 import { VibrancySettings } from "./MacVibrancySettings";
+import { openNetFetchLogModal } from "./NetFetchLog";
 import { NotificationSection } from "./NotificationSettings";
+import { openRenderBudgetModal } from "./RenderBudgetModal";
+import { openUserCommandsModal } from "./UserCommandsModal";
 
 const DEFAULT_DONATE_IMAGE = "https://cdn.discordapp.com/emojis/1026533090627174460.png";
 const SHIGGY_DONATE_IMAGE = "https://media.discordapp.net/stickers/1039992459209490513.png";
@@ -49,7 +52,7 @@ type KeysOfType<Object, Type> = {
 }[keyof Object];
 
 function Switches() {
-    const settings = useSettings(["useQuickCss", "enableReactDevtools", "frameless", "winNativeTitleBar", "transparent", "winCtrlQ", "disableMinSize"]);
+    const settings = useSettings(["useQuickCss", "enableReactDevtools", "frameless", "winNativeTitleBar", "transparent", "winCtrlQ", "disableMinSize", "hotReloadPatches"]);
 
     const Switches = [
         {
@@ -86,6 +89,11 @@ function Switches() {
             title: "Register Ctrl+Q as shortcut to close Discord (Alternative to Alt+F4)",
             restartRequired: true
         },
+        {
+            key: "hotReloadPatches",
+            title: "Hot reload plugins with patches (experimental)",
+            description: "Toggle plugins which patch Discord without restarting, when the modules they patch weren't loaded yet"
+        },
     ] satisfies Array<false | {
         key: KeysOfType<typeof settings, boolean>;
         title: string;
@@ -189,6 +197,16 @@ function VencordSettings() {
                         text="Edit QuickCSS"
                         action={() => VencordNative.quickCss.openEditor()}
                     />
+                    <QuickAction
+                        Icon={PencilIcon}
+                        text="Edit User Commands"
+                        action={openUserCommandsModal}
+                    />
+                    <QuickAction
+                        Icon={PluginsIcon}
+                        text="Render Performance"
+                        action={openRenderBudgetModal}
+                    />
                     {!IS_WEB && (
                         <>
                             <QuickAction
@@ -201,6 +219,11 @@ function VencordSettings() {
                                 text="Open Settings Folder"
                                 action={() => VencordNative.settings.openFolder()}
                             />
+                            <QuickAction
+                                Icon={WebsiteIcon}
+                                text="Network Request Log"
+                                action={openNetFetchLogModal}
+                            />
                         </>
                     )}
                     <QuickAction
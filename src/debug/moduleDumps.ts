@@ -0,0 +1,67 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { ModuleDump } from "@main/moduleDumps";
+import { Logger } from "@utils/Logger";
+import { canonicalizeMatch } from "@utils/patches";
+import { CodeFilter, stringMatches, wreq } from "@webpack";
+import { getBuildNumber } from "@webpack/patcher";
+
+import { loadLazyChunks } from "./loadLazyChunks";
+
+const logger = new Logger("ModuleDumps");
+
+/** Collect the sources of all module factories which are currently loaded */
+export function createModuleDump(): ModuleDump {
+    const modules = {} as Record<string, string>;
+
+    // The factories are proxied, but their toString returns the original source
+    for (const id in wreq.m) {
+        modules[id] = String(wreq.m[id]);
+    }
+
+    return {
+        version: 1,
+        buildNumber: getBuildNumber(),
+        buildHash: window.GLOBAL_ENV?.SENTRY_TAGS?.buildId ?? null,
+        capturedAt: Date.now(),
+        modules
+    };
+}
+
+/**
+ * Save the sources of all module factories, so patches can be tested against them after Discord updated.
+ * The dumps can be loaded in the Patch Helper tab and with `pnpm testPatches`.
+ *
+ * @param loadAllChunks Whether to load all lazy chunks first. This takes a while, but otherwise only the modules loaded so far are included
+ * @returns The file name the dump was saved as
+ */
+export async function captureModules(loadAllChunks = true) {
+    if (loadAllChunks) await loadLazyChunks();
+
+    const dump = createModuleDump();
+    const fileName = await VencordNative.debug.saveModuleDump(dump);
+
+    logger.info(`Saved ${Object.keys(dump.modules).length} modules of build ${dump.buildNumber} as ${fileName}`);
+    return fileName;
+}
+
+/**
+ * Search the modules of a dump, like {@link import("@webpack").search} does for the loaded modules.
+ * @returns The sources of the matching modules by module id
+ */
+export function searchModuleDump(dump: ModuleDump, ...code: CodeFilter) {
+    code = code.map(canonicalizeMatch);
+
+    const results = {} as Record<string, string>;
+
+    for (const id in dump.modules) {
+        if (stringMatches(dump.modules[id], code))
+            results[id] = dump.modules[id];
+    }
+
+    return results;
+}
@@ -4,13 +4,39 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { addPatch } from "@api/PluginManager";
+import { addPatch, pluginStartErrors } from "@api/PluginManager";
 import { Logger } from "@utils/Logger";
+import { PatchConflict } from "@utils/patches";
 import * as Webpack from "@webpack";
-import { getBuildNumber, patches, patchTimings } from "@webpack/patcher";
+import { getBuildNumber, patchConflicts, patches, patchFailures, patchTimings } from "@webpack/patcher";
 
 import { loadLazyChunks } from "./loadLazyChunks";
 
+export interface ReporterPatchFailure {
+    plugin: string;
+    type: "no-effect" | "errored" | "no-module";
+    /** Id of the module the patch was applied to, or null if it found no module */
+    moduleId: string | null;
+    /** The match of the replacement, or the find of the patch if it found no module */
+    match: string;
+    error?: string;
+}
+
+/**
+ * The results of a reporter run. It is logged as `[REPORTER_REPORT]` once the test finished,
+ * so reports of different Discord builds can be saved and compared with `pnpm diffReports`
+ */
+export interface ReporterReport {
+    version: 1;
+    buildNumber: number;
+    buildHash: string | null;
+    badPatches: ReporterPatchFailure[];
+    slowPatches: Array<{ plugin: string; moduleId: string; match: string; totalTime: number; }>;
+    patchConflicts: Array<PatchConflict & { moduleId: string; }>;
+    badStarts: Array<{ plugin: string; error: string; }>;
+    badWebpackFinds: string[];
+}
+
 async function runReporter() {
     const ReporterLogger = new Logger("Reporter");
 
@@ -37,22 +63,34 @@ async function runReporter() {
 
         await loadLazyChunksDone;
 
-        if (IS_REPORTER && IS_WEB && !IS_VESKTOP) {
-            console.log("[REPORTER_META]", {
-                buildNumber: getBuildNumber(),
-                buildHash: window.GLOBAL_ENV.SENTRY_TAGS.buildId
-            });
-        }
+        const report: ReporterReport = {
+            version: 1,
+            buildNumber: getBuildNumber(),
+            buildHash: window.GLOBAL_ENV?.SENTRY_TAGS?.buildId ?? null,
+            badPatches: patchFailures.map(([plugin, moduleId, match, type, error]) => ({
+                plugin,
+                type,
+                moduleId: String(moduleId),
+                match: String(match),
+                error: error != null ? String(error) : undefined
+            })),
+            slowPatches: [],
+            patchConflicts: [...patchConflicts].flatMap(([moduleId, conflicts]) => conflicts.map(conflict => ({ ...conflict, moduleId }))),
+            badStarts: [...pluginStartErrors].map(([plugin, error]) => ({ plugin, error: String(error) })),
+            badWebpackFinds: []
+        };
 
         for (const patch of patches) {
             if (!patch.all) {
                 new Logger("WebpackPatcher").warn(`Patch by ${patch.plugin} found no module (Module id is -): ${patch.find}`);
+                report.badPatches.push({ plugin: patch.plugin, type: "no-module", moduleId: null, match: String(patch.find) });
             }
         }
 
         for (const [plugin, moduleId, match, totalTime] of patchTimings) {
             if (totalTime > 5) {
                 new Logger("WebpackPatcher").warn(`Patch by ${plugin} took ${Math.round(totalTime * 100) / 100}ms (Module id is ${String(moduleId)}): ${match}`);
+                report.slowPatches.push({ plugin, moduleId: String(moduleId), match: String(match), totalTime });
             }
         }
 
@@ -106,9 +144,12 @@ async function runReporter() {
                 }
 
                 ReporterLogger.log("Webpack Find Fail:", logMessage);
+                report.badWebpackFinds.push(logMessage);
             }
         }
 
+        // Logged as JSON, so it is a single console argument no matter how large the report is
+        console.log("[REPORTER_REPORT]", JSON.stringify(report));
         ReporterLogger.log("Finished test");
     } catch (e) {
         ReporterLogger.log("A fatal error occurred:", e);
@@ -65,6 +65,21 @@ export const CspPolicies: PolicyMap = {
     "icons.duckduckgo.com": ImageSrc, // DuckDuckGo Favicon API (Reverse Image Search)
 };
 
+/**
+ * The CSP rules declared by all enabled plugins, merged
+ */
+export function getPluginCspPolicies() {
+    const policies: PolicyMap = {};
+
+    for (const rules of Object.values(NativeSettings.store.pluginCspRules)) {
+        for (const [host, directives] of Object.entries(rules)) {
+            policies[host] = [...new Set([...policies[host] ?? [], ...directives])];
+        }
+    }
+
+    return policies;
+}
+
 const findHeader = (headers: PolicyMap, headerName: Lowercase<string>) => {
     return Object.keys(headers).find(h => h.toLowerCase() === headerName);
 };
@@ -119,6 +134,12 @@ const patchCsp = (headers: PolicyMap) => {
             }
         }
 
+        for (const [host, directives] of Object.entries(getPluginCspPolicies())) {
+            for (const directive of directives) {
+                pushDirective(directive, host);
+            }
+        }
+
         for (const [host, directives] of Object.entries(CspPolicies)) {
             for (const directive of directives) {
                 pushDirective(directive, host);
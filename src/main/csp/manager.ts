@@ -8,7 +8,7 @@ import { NativeSettings } from "@main/settings";
 import { IpcEvents } from "@shared/IpcEvents";
 import { dialog, ipcMain, IpcMainInvokeEvent } from "electron";
 
-import { CspPolicies, ImageAndCssSrc } from ".";
+import { CspPolicies, getPluginCspPolicies, ImageAndCssSrc } from ".";
 
 export type CspRequestResult = "invalid" | "cancelled" | "unchecked" | "ok" | "conflict";
 
@@ -16,6 +16,8 @@ export function registerCspIpcHandlers() {
     ipcMain.handle(IpcEvents.CSP_REMOVE_OVERRIDE, removeCspRule);
     ipcMain.handle(IpcEvents.CSP_REQUEST_ADD_OVERRIDE, addCspRule);
     ipcMain.handle(IpcEvents.CSP_IS_DOMAIN_ALLOWED, isDomainAllowed);
+    ipcMain.handle(IpcEvents.CSP_SET_PLUGIN_RULES, setPluginRules);
+    ipcMain.handle(IpcEvents.CSP_SYNC_PLUGIN_RULES, syncPluginRules);
 }
 
 function validate(url: string, directives: string[]) {
@@ -33,14 +35,15 @@ function validate(url: string, directives: string[]) {
     return true;
 }
 
-function getMessage(url: string, directives: string[], callerName: string) {
+function getMessage(url: string, directives: string[], callerName: string, needsRestart: boolean) {
     const domain = new URL(url).host;
 
     const message = `${callerName} wants to allow connections to ${domain}`;
 
-    let detail =
-        `Unless you recognise and fully trust ${domain}, you should cancel this request!\n\n` +
-        `You will have to fully close and restart ${IS_DISCORD_DESKTOP ? "Discord" : "Vesktop"} for the changes to take effect.`;
+    let detail = `Unless you recognise and fully trust ${domain}, you should cancel this request!`;
+    if (needsRestart) {
+        detail += `\n\nYou will have to fully close and restart ${IS_DISCORD_DESKTOP ? "Discord" : "Vesktop"} for the changes to take effect.`;
+    }
 
     if (directives.length === 1 && directives[0] === "connect-src") {
         return { message, detail };
@@ -68,19 +71,32 @@ function getMessage(url: string, directives: string[], callerName: string) {
     return { message, detail };
 }
 
-async function addCspRule(_: IpcMainInvokeEvent, url: string, directives: string[], callerName: string): Promise<CspRequestResult> {
+function addCspRule(_: IpcMainInvokeEvent, url: string, directives: string[], callerName: string) {
+    return requestCspOverride(url, directives, callerName);
+}
+
+/**
+ * Ask the user to allow a domain for the given directives, remembering their choice in the custom CSP rules.
+ * If the domain already has a custom rule, the user is only asked for the directives it is missing
+ *
+ * @param needsRestart Whether the rule is used by the CSP, which only applies it after a restart
+ * @returns "conflict" if the domain is already allowed for all the directives
+ */
+export async function requestCspOverride(url: string, directives: string[], callerName: string, needsRestart = true): Promise<CspRequestResult> {
     if (!validate(url, directives)) {
         return "invalid";
     }
 
     const domain = new URL(url).host;
 
-    if (domain in NativeSettings.store.customCspRules) {
+    const existing = NativeSettings.store.customCspRules[domain] ?? [];
+    const missing = directives.filter(d => !existing.includes(d));
+    if (missing.length === 0) {
         return "conflict";
     }
 
     const { checkboxChecked, response } = await dialog.showMessageBox({
-        ...getMessage(url, directives, callerName),
+        ...getMessage(url, missing, callerName, needsRestart),
         type: callerName ? "info" : "warning",
         title: "Vencord Host Permissions",
         buttons: ["Cancel", "Allow"],
@@ -98,10 +114,129 @@ async function addCspRule(_: IpcMainInvokeEvent, url: string, directives: string
         return "unchecked";
     }
 
-    NativeSettings.store.customCspRules[domain] = directives;
+    NativeSettings.store.customCspRules[domain] = [...existing, ...missing];
     return "ok";
 }
 
+function validatePluginRules(pluginName: string, rules: Record<string, string[]>) {
+    return Object.entries(rules).every(([host, directives]) => {
+        if (validate(`https://${host}`, directives)) return true;
+
+        console.warn(`[Vencord] Ignoring invalid CSP rules of plugin ${pluginName}: ${host} ${directives.join(" ")}`);
+        return false;
+    });
+}
+
+/**
+ * Keep only the hosts and directives of the requested rules which are also in the allowed ones
+ */
+function intersectRules(requested: Record<string, string[]>, allowed: Record<string, string[]> = {}) {
+    const result = {} as Record<string, string[]>;
+
+    for (const [host, directives] of Object.entries(requested)) {
+        const allowedDirectives = directives.filter(d => allowed[host]?.includes(d));
+        if (allowedDirectives.length) result[host] = allowedDirectives;
+    }
+
+    return result;
+}
+
+/**
+ * Ask the user to allow the hosts a plugin declared in its network manifest.
+ * The plugin name and hosts come from the renderer, so they can't be trusted without the user confirming them
+ */
+async function requestPluginHosts(pluginName: string, rules: Record<string, string[]>) {
+    const hosts = Object.entries(rules)
+        .map(([host, directives]) => `${host} (${directives.join(", ")})`)
+        .join("\n");
+
+    const { response } = await dialog.showMessageBox({
+        message: `${pluginName} wants to allow connections to the following hosts`,
+        detail:
+            `${hosts}\n\nUnless you enabled ${pluginName} and trust these hosts, you should cancel this request!\n\n` +
+            `You will have to fully close and restart ${IS_DISCORD_DESKTOP ? "Discord" : "Vesktop"} for the changes to take effect.`,
+        type: "info",
+        title: "Vencord Host Permissions",
+        buttons: ["Cancel", "Allow"],
+        defaultId: 0,
+        cancelId: 0
+    });
+
+    return response === 1;
+}
+
+/**
+ * Remove the hosts and directives of the removed rules from the given ones
+ */
+function subtractRules(rules: Record<string, string[]>, removed: Record<string, string[]>) {
+    const result = {} as Record<string, string[]>;
+
+    for (const [host, directives] of Object.entries(rules)) {
+        const remainingDirectives = directives.filter(d => !removed[host]?.includes(d));
+        if (remainingDirectives.length) result[host] = remainingDirectives;
+    }
+
+    return result;
+}
+
+/**
+ * Allow the hosts an enabled plugin declared in its network manifest, or revoke them when it's disabled.
+ * Built in hosts are not stored, and hosts which were not allowed for the plugin before need to be confirmed by the user
+ *
+ * @returns Whether the rules changed, in which case a restart is needed for the CSP to apply them
+ */
+async function setPluginRules(_: IpcMainInvokeEvent, pluginName: string, rules: Record<string, string[]> | null) {
+    const current = NativeSettings.store.pluginCspRules[pluginName];
+    // Rules stored before built in hosts were left out may still contain them
+    const effectiveCurrent = subtractRules(current ?? {}, CspPolicies);
+
+    if (!rules || Object.keys(rules).length === 0) {
+        if (!current) return false;
+
+        delete NativeSettings.store.pluginCspRules[pluginName];
+        return Object.keys(effectiveCurrent).length > 0;
+    }
+
+    if (!validatePluginRules(pluginName, rules)) return false;
+
+    const requested = subtractRules(rules, CspPolicies);
+    const alreadyAllowed = intersectRules(requested, current);
+    const isNew = Object.entries(requested).some(([host, directives]) =>
+        directives.some(d => !alreadyAllowed[host]?.includes(d))
+    );
+
+    const newRules = !isNew || await requestPluginHosts(pluginName, requested)
+        ? requested
+        : alreadyAllowed;
+
+    if (JSON.stringify(current ?? {}) !== JSON.stringify(newRules)) {
+        if (Object.keys(newRules).length) NativeSettings.store.pluginCspRules[pluginName] = newRules;
+        else delete NativeSettings.store.pluginCspRules[pluginName];
+    }
+
+    return JSON.stringify(effectiveCurrent) !== JSON.stringify(newRules);
+}
+
+/**
+ * Revoke the hosts of plugins which are no longer enabled, and the hosts plugins no longer declare.
+ * This never allows new hosts, they are only allowed through {@link setPluginRules} once the user confirmed them
+ */
+function syncPluginRules(_: IpcMainInvokeEvent, rulesByPlugin: Record<string, Record<string, string[]>>) {
+    const current = NativeSettings.plain.pluginCspRules;
+
+    const syncedRules = Object.fromEntries(
+        Object.entries(rulesByPlugin)
+            .filter(([pluginName]) => current[pluginName])
+            .map(([pluginName, rules]) => [pluginName, intersectRules(rules, current[pluginName])] as const)
+            .filter(([, rules]) => Object.keys(rules).length)
+    );
+
+    if (JSON.stringify(syncedRules) === JSON.stringify(current)) return false;
+
+    NativeSettings.store.pluginCspRules = syncedRules;
+    return true;
+}
+
 function removeCspRule(_: IpcMainInvokeEvent, domain: string) {
     if (domain in NativeSettings.store.customCspRules) {
         delete NativeSettings.store.customCspRules[domain];
@@ -115,7 +250,7 @@ function isDomainAllowed(_: IpcMainInvokeEvent, url: string, directives: string[
     try {
         const domain = new URL(url).host;
 
-        const ruleForDomain = CspPolicies[domain] ?? NativeSettings.store.customCspRules[domain];
+        const ruleForDomain = CspPolicies[domain] ?? NativeSettings.store.customCspRules[domain] ?? getPluginCspPolicies()[domain];
         if (!ruleForDomain) return false;
 
         return directives.every(d => ruleForDomain.includes(d));
@@ -123,3 +258,30 @@ function isDomainAllowed(_: IpcMainInvokeEvent, url: string, directives: string[
         return false;
     }
 }
+
+function matchesHostPattern(pattern: string, { hostname, port }: URL) {
+    const [patternHost, patternPort] = pattern.replace(/^[a-z]+:\/\//, "").split(":");
+
+    if (patternPort === undefined ? port !== "" : patternPort !== "*" && patternPort !== port) return false;
+
+    return patternHost.startsWith("*.")
+        ? hostname.endsWith(patternHost.slice(1))
+        : hostname === patternHost;
+}
+
+/**
+ * Whether a url is allowed for all the given directives. Unlike {@link isDomainAllowed}, this also matches
+ * wildcard rules like `*.github.io` and `localhost:*` the way the CSP does
+ */
+export function isUrlAllowed(url: string, directives: string[]) {
+    try {
+        const parsed = new URL(url);
+        const rules = [CspPolicies, NativeSettings.store.customCspRules, getPluginCspPolicies()].flatMap(Object.entries);
+
+        return rules.some(([pattern, allowed]) =>
+            matchesHostPattern(pattern, parsed) && directives.every(d => allowed.includes(d))
+        );
+    } catch {
+        return false;
+    }
+}
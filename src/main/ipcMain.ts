@@ -29,6 +29,8 @@ import { open, readdir, readFile } from "fs/promises";
 import { join, normalize } from "path";
 
 import { registerCspIpcHandlers } from "./csp/manager";
+import { registerModuleDumpIpcHandlers } from "./moduleDumps";
+import { registerNetFetchIpcHandlers } from "./netFetch";
 import { getThemeInfo, stripBOM, UserThemeHeader } from "./themes";
 import { ALLOWED_PROTOCOLS, QUICKCSS_PATH, SETTINGS_DIR, THEMES_DIR } from "./utils/constants";
 import { makeLinksOpenExternally } from "./utils/externalLinks";
@@ -36,6 +38,8 @@ import { makeLinksOpenExternally } from "./utils/externalLinks";
 mkdirSync(THEMES_DIR, { recursive: true });
 
 registerCspIpcHandlers();
+registerNetFetchIpcHandlers();
+registerModuleDumpIpcHandlers();
 
 export function ensureSafePath(basePath: string, path: string) {
     const normalizedBasePath = normalize(basePath + "/");
@@ -86,14 +90,6 @@ ipcMain.handle(IpcEvents.OPEN_EXTERNAL, (_, url) => {
     shell.openExternal(url);
 });
 
-ipcMain.handle(IpcEvents.NET_FETCH, async (_, url: string) => {
-    const response = await fetch(url);
-    if (!response.ok) throw new Error(`Fetch failed: ${response.statusText}`);
-    const buffer = await response.arrayBuffer();
-    return buffer;
-});
-
-
 ipcMain.handle(IpcEvents.GET_QUICK_CSS, () => readCss());
 ipcMain.handle(IpcEvents.SET_QUICK_CSS, (_, css) =>
     writeFileSync(QUICKCSS_PATH, css)
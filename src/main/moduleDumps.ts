@@ -0,0 +1,64 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { IpcEvents } from "@shared/IpcEvents";
+import { ipcMain, shell } from "electron";
+import { mkdir, readdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+
+import { MODULE_DUMPS_DIR } from "./utils/constants";
+
+export interface ModuleDump {
+    version: 1;
+    /** The build number of the client, or -1 if it could not be found */
+    buildNumber: number;
+    buildHash: string | null;
+    capturedAt: number;
+    /** The original (unpatched) sources of all module factories by module id */
+    modules: Record<string, string>;
+}
+
+const DUMP_FILE_NAME_REGEX = /^[\w-]+\.json\.gz$/;
+
+export function registerModuleDumpIpcHandlers() {
+    ipcMain.handle(IpcEvents.SAVE_MODULE_DUMP, (_, dump: ModuleDump) => saveModuleDump(dump));
+    ipcMain.handle(IpcEvents.GET_MODULE_DUMPS, () => listModuleDumps());
+    ipcMain.handle(IpcEvents.READ_MODULE_DUMP, (_, fileName: string) => readModuleDump(fileName));
+    ipcMain.handle(IpcEvents.OPEN_MODULE_DUMPS_FOLDER, async () => {
+        await mkdir(MODULE_DUMPS_DIR, { recursive: true });
+        return shell.openPath(MODULE_DUMPS_DIR);
+    });
+}
+
+async function saveModuleDump(dump: ModuleDump) {
+    if (dump?.version !== 1 || typeof dump.modules !== "object") throw new Error("Invalid module dump");
+
+    const build = dump.buildNumber === -1 ? "unknown" : String(Number(dump.buildNumber));
+    const fileName = `${build}-${Number(dump.capturedAt)}.json.gz`;
+
+    await mkdir(MODULE_DUMPS_DIR, { recursive: true });
+    await writeFile(join(MODULE_DUMPS_DIR, fileName), await promisify(gzip)(JSON.stringify(dump)));
+
+    return fileName;
+}
+
+/** @returns The file names of all saved dumps, newest first */
+async function listModuleDumps() {
+    const files = await readdir(MODULE_DUMPS_DIR).catch(() => [] as string[]);
+
+    return files
+        .filter(f => DUMP_FILE_NAME_REGEX.test(f))
+        .sort((a, b) => Number(b.split("-")[1]?.split(".")[0]) - Number(a.split("-")[1]?.split(".")[0]));
+}
+
+async function readModuleDump(fileName: string): Promise<ModuleDump> {
+    if (!DUMP_FILE_NAME_REGEX.test(fileName)) throw new Error(`Invalid module dump file name ${fileName}`);
+
+    const data = await promisify(gunzip)(await readFile(join(MODULE_DUMPS_DIR, fileName)));
+    return JSON.parse(data.toString("utf-8"));
+}
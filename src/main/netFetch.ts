@@ -0,0 +1,156 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2026 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { IpcEvents } from "@shared/IpcEvents";
+import { ipcMain } from "electron";
+
+import { ConnectSrc } from "./csp";
+import { CspRequestResult, isUrlAllowed, requestCspOverride } from "./csp/manager";
+
+const TIMEOUT = 30_000;
+const MAX_REDIRECTS = 10;
+const MAX_BODY_SIZE = 100 * 1024 * 1024;
+const MAX_LOG_ENTRIES = 500;
+
+export interface NetFetchLogEntry {
+    timestamp: number;
+    url: string;
+    /** Name of the plugin which made the request, as reported by itself */
+    caller: string;
+    result: "ok" | "denied" | "error";
+    status?: number;
+    size?: number;
+    error?: string;
+    duration: number;
+}
+
+const log = [] as NetFetchLogEntry[];
+
+/** Approval dialogs currently shown, so concurrent requests to the same domain only ask once */
+const pendingApprovals = new Map<string, Promise<CspRequestResult>>();
+/** Domains the user explicitly denied this session. Not persisted, so they are asked again after a restart */
+const deniedDomains = new Set<string>();
+
+export function registerNetFetchIpcHandlers() {
+    ipcMain.handle(IpcEvents.NET_FETCH, (_, url: string, callerName?: string) => netFetch(url, callerName || "Unknown"));
+    ipcMain.handle(IpcEvents.NET_FETCH_GET_LOG, () => log);
+    ipcMain.handle(IpcEvents.NET_FETCH_CLEAR_LOG, () => void log.splice(0));
+}
+
+function addLogEntry(entry: NetFetchLogEntry) {
+    log.push(entry);
+    if (log.length > MAX_LOG_ENTRIES) log.splice(0, log.length - MAX_LOG_ENTRIES);
+}
+
+async function ensureAllowed(url: string, callerName: string) {
+    if (isUrlAllowed(url, ConnectSrc)) return;
+
+    const { host } = new URL(url);
+    if (deniedDomains.has(host)) throw new Error(`Fetching from ${host} was denied`);
+
+    let approval = pendingApprovals.get(host);
+    if (!approval) {
+        // Requests from the main process are not subject to the CSP, so allowing them needs no restart
+        approval = requestCspOverride(url, ConnectSrc, callerName, false).finally(() => pendingApprovals.delete(host));
+        pendingApprovals.set(host, approval);
+    }
+
+    const result = await approval;
+    if (result === "ok") return;
+
+    // Only remember explicit denials. Otherwise, for example if the trust checkbox was not ticked, ask again next time
+    if (result === "cancelled") deniedDomains.add(host);
+    throw new Error(`Fetching from ${host} was denied (${result})`);
+}
+
+function checkProtocol(url: string) {
+    const { protocol } = new URL(url);
+    if (protocol !== "https:" && protocol !== "http:") throw new Error(`Disallowed protocol ${protocol}`);
+}
+
+/**
+ * Fetch a url, following redirects manually, so every hop is checked before it is requested.
+ * Each hop times out on its own once it's allowed, so the time the user takes to approve it doesn't count.
+ * The timeout of the last hop also covers reading its body
+ */
+async function fetchAllowed(url: string, callerName: string, entry: NetFetchLogEntry) {
+    for (let redirects = 0; ; redirects++) {
+        try {
+            await ensureAllowed(url, callerName);
+        } catch (e) {
+            entry.result = "denied";
+            throw e;
+        }
+
+        const response = await fetch(url, { signal: AbortSignal.timeout(TIMEOUT), redirect: "manual" });
+
+        const location = response.headers.get("location");
+        if (response.status < 300 || response.status >= 400 || !location) return response;
+
+        if (redirects >= MAX_REDIRECTS) throw new Error("Too many redirects");
+
+        await response.body?.cancel();
+        url = new URL(location, url).href;
+        checkProtocol(url);
+    }
+}
+
+async function readBody(response: Response) {
+    const contentLength = Number(response.headers.get("content-length"));
+    if (contentLength > MAX_BODY_SIZE) throw new Error(`Response too large (${contentLength} bytes)`);
+
+    const chunks = [] as Uint8Array[];
+    let size = 0;
+
+    const reader = response.body!.getReader();
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        size += value.length;
+        if (size > MAX_BODY_SIZE) {
+            await reader.cancel();
+            throw new Error(`Response too large (over ${MAX_BODY_SIZE} bytes)`);
+        }
+        chunks.push(value);
+    }
+
+    const body = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        body.set(chunk, offset);
+        offset += chunk.length;
+    }
+
+    return body.buffer;
+}
+
+async function netFetch(url: string, callerName: string) {
+    const start = Date.now();
+    const entry = { timestamp: start, url: String(url), caller: String(callerName) } as NetFetchLogEntry;
+
+    try {
+        checkProtocol(url);
+
+        const response = await fetchAllowed(url, callerName, entry);
+        entry.status = response.status;
+
+        if (!response.ok) throw new Error(`Fetch failed: ${response.status} ${response.statusText}`);
+
+        const body = await readBody(response);
+        entry.size = body.byteLength;
+        entry.result = "ok";
+
+        return body;
+    } catch (e) {
+        entry.result ??= "error";
+        entry.error = String(e instanceof Error ? e.message : e);
+        throw e;
+    } finally {
+        entry.duration = Date.now() - start;
+        addLogEntry(entry);
+    }
+}
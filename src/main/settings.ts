@@ -49,11 +49,14 @@ export interface NativeSettings {
         };
     };
     customCspRules: Record<string, string[]>;
+    /** CSP rules declared by enabled plugins, by plugin name */
+    pluginCspRules: Record<string, Record<string, string[]>>;
 }
 
 const DefaultNativeSettings: NativeSettings = {
     plugins: {},
-    customCspRules: {}
+    customCspRules: {},
+    pluginCspRules: {}
 };
 
 const nativeSettings = readSettings<NativeSettings>("native", NATIVE_SETTINGS_FILE);
@@ -21,6 +21,21 @@
 const splitRegex = /[^\S\r\n]*?\r?(?:\r\n|\n)[^\S\r\n]*?\*[^\S\r\n]?/;
 const escapedAtRegex = /^\\@/;
 
+interface ThemeVariableBase {
+    /** Name of the CSS custom property, without the leading `--` */
+    name: string;
+    label: string;
+}
+
+export type ThemeVariable = ThemeVariableBase & (
+    | { type: "color" | "text"; default: string; }
+    | { type: "checkbox"; default: boolean; }
+    | { type: "range"; default: number; min: number; max: number; step: number; unit: string; }
+    | { type: "select"; default: string; options: Record<string, string>; }
+);
+
+export type ThemeVariableValue = ThemeVariable["default"];
+
 export interface UserThemeHeader {
     fileName: string;
     name: string;
@@ -31,6 +46,10 @@ export interface UserThemeHeader {
     source?: string;
     website?: string;
     invite?: string;
+    /** Stylesheets the theme depends on, loaded before it */
+    imports: string[];
+    /** Settings the theme exposes as CSS custom properties */
+    variables: ThemeVariable[];
 }
 
 function makeHeader(fileName: string, opts: Partial<UserThemeHeader> = {}): UserThemeHeader {
@@ -43,7 +62,9 @@ function makeHeader(fileName: string, opts: Partial<UserThemeHeader> = {}): User
         license: opts.license,
         source: opts.source,
         website: opts.website,
-        invite: opts.invite
+        invite: opts.invite,
+        imports: opts.imports ?? [],
+        variables: opts.variables ?? []
     };
 }
 
@@ -54,19 +75,74 @@ export function stripBOM(fileContent: string) {
     return fileContent;
 }
 
+const variableRegex = /^(color|text|checkbox|range|select)\s+([\w-]+)\s+"([^"]*)"\s+(.+)$/s;
+
+/**
+ * Parse a variable declaration in the same format as UserCSS, for example
+ * - `@var color accent "Accent Color" #5865f2`
+ * - `@var text font "Font" "gg sans", sans-serif`
+ * - `@var checkbox compact "Compact Mode" 0`
+ * - `@var range radius "Corner Radius" [8, 0, 24, 1, "px"]` (default, min, max, step, unit)
+ * - `@var select density "Density" {"Cozy": "16px", "Compact": "8px"}` (the first option is the default)
+ */
+export function parseThemeVariable(declaration: string): ThemeVariable | null {
+    const match = variableRegex.exec(declaration.trim());
+    if (!match) return null;
+
+    const [, type, name, label, value] = match;
+
+    try {
+        switch (type) {
+            case "color":
+            case "text":
+                return { type, name, label, default: value };
+            case "checkbox":
+                return { type, name, label, default: value === "1" || value === "true" };
+            case "range": {
+                const [def, min = 0, max = 100, step = 1, unit = ""] = JSON.parse(value);
+                if (typeof def !== "number") return null;
+                return { type, name, label, default: def, min, max, step, unit: String(unit) };
+            }
+            case "select": {
+                const options = JSON.parse(value);
+                const keys = Object.keys(options);
+                if (!keys.length) return null;
+                return { type, name, label, default: keys[0], options };
+            }
+        }
+    } catch {
+        // Malformed JSON
+    }
+
+    return null;
+}
+
 export function getThemeInfo(css: string, fileName: string): UserThemeHeader {
     if (!css) return makeHeader(fileName);
 
     const block = css.split("/**", 2)?.[1]?.split("*/", 1)?.[0];
     if (!block) return makeHeader(fileName);
 
-    const header: Partial<UserThemeHeader> = {};
+    const header: Partial<UserThemeHeader> = { imports: [], variables: [] };
+
+    // @import and @var may be used multiple times, so they are collected instead of overwriting each other
+    const setField = (field: string, value: string) => {
+        if (field === "import") {
+            header.imports!.push(value.replace(/^url\((["']?)(.*)\1\)$/, "$2"));
+        } else if (field === "var") {
+            const variable = parseThemeVariable(value);
+            if (variable) header.variables!.push(variable);
+        } else {
+            header[field] = value;
+        }
+    };
+
     let field = "";
     let accum = "";
     for (const line of block.split(splitRegex)) {
         if (line.length === 0) continue;
         if (line.charAt(0) === "@" && line.charAt(1) !== " ") {
-            header[field] = accum.trim();
+            setField(field, accum.trim());
             const l = line.indexOf(" ");
             field = line.substring(1, l);
             accum = line.substring(l + 1);
@@ -75,7 +151,7 @@ export function getThemeInfo(css: string, fileName: string): UserThemeHeader {
             accum += " " + line.replace("\\n", "\n").replace(escapedAtRegex, "@");
         }
     }
-    header[field] = accum.trim();
+    setField(field, accum.trim());
     delete header[""];
     return makeHeader(fileName, header);
 }
@@ -26,6 +26,7 @@ export const DATA_DIR = process.env.VENCORD_USER_DATA_DIR ?? (
 );
 export const SETTINGS_DIR = join(DATA_DIR, "settings");
 export const THEMES_DIR = join(DATA_DIR, "themes");
+export const MODULE_DUMPS_DIR = join(DATA_DIR, "moduleDumps");
 export const QUICKCSS_PATH = join(SETTINGS_DIR, "quickCss.css");
 export const SETTINGS_FILE = join(SETTINGS_DIR, "settings.json");
 export const NATIVE_SETTINGS_FILE = join(SETTINGS_DIR, "native-settings.json");
@@ -48,6 +48,15 @@ export default definePlugin({
                 replace: (_, cmd, args, ctx) => `,Vencord.Api.Commands._handleCommand(${cmd}, ${args}, ${ctx})`
             }
         },
+        // Answer autocomplete requests of Vencord commands locally
+        {
+            find: '"APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST"',
+            replacement: {
+                // function performAutocomplete(command, context, focusedOption) { ...dispatch({ type: "APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST", ...
+                match: /(?<=function \i\((\i),(\i),(\i)\)\{)(?=[^}]{0,200}"APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST")/,
+                replace: "if(Vencord.Api.Commands._handleAutocomplete($1,$2,$3))return;"
+            }
+        },
         // Show plugin name instead of "Built-In"
         {
             find: ".source,children",
@@ -17,7 +17,7 @@
 */
 
 import { isPluginEnabled } from "@api/PluginManager";
-import { definePluginSettings } from "@api/Settings";
+import { definePluginSettings, getPluginSettingsVersion, Settings } from "@api/Settings";
 import { getUserSettingLazy } from "@api/UserSettings";
 import { Card } from "@components/Card";
 import ErrorBoundary from "@components/ErrorBoundary";
@@ -127,6 +127,18 @@ function generatePluginList() {
         content += `**Enabled UserPlugins (${enabledUserPlugins.length}):**\n${makeCodeblock(enabledUserPlugins.join(", "))}`;
     }
 
+    const settingsVersions = enabledPlugins
+        .filter(p => getPluginSettingsVersion(plugins[p]))
+        .map(p => {
+            const expected = getPluginSettingsVersion(plugins[p]);
+            const current = Settings.pluginSettingsVersions[p] ?? 0;
+            return current === expected ? `${p} v${current}` : `${p} v${current} (expected v${expected})`;
+        });
+
+    if (settingsVersions.length) {
+        content += `**Settings Versions:**\n${makeCodeblock(settingsVersions.join(", "))}`;
+    }
+
     return content;
 }
 
@@ -59,6 +59,7 @@ export default definePlugin({
     authors: [Devs.amia],
 
     settings: settings,
+    dataStoreKeys: [/^BetterSessions_savedSessions_\d+$/],
 
     patches: [
         {
@@ -173,6 +174,8 @@ export default definePlugin({
             savedSessionsCache.set(session.id_hash, { name: "", isNew: true });
             showNotification({
                 title: "BetterSessions",
+                plugin: "BetterSessions",
+                category: "new-session",
                 body: `New session:\n${session.client_info.os} · ${session.client_info.platform} · ${session.client_info.location}`,
                 permanent: true,
                 onClick: () => UserSettingsModal.open("Sessions")
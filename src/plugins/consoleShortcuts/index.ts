@@ -29,6 +29,7 @@ import * as Webpack from "@webpack";
 import { extract, filters, findAll, findModuleId, search } from "@webpack";
 import * as Common from "@webpack/common";
 import { loadLazyChunks } from "debug/loadLazyChunks";
+import { captureModules } from "debug/moduleDumps";
 import type { ComponentType } from "react";
 
 const DESKTOP_ONLY = (f: string) => () => {
@@ -105,6 +106,7 @@ function makeShortcuts() {
         wpex: extract,
         wpexs: (code: string) => extract(findModuleId(code)!),
         loadLazyChunks: IS_DEV ? loadLazyChunks : () => { throw new Error("loadLazyChunks is dev only."); },
+        captureModules: IS_DEV ? captureModules : () => { throw new Error("captureModules is dev only."); },
         find,
         findAll: findAll,
         findByProps,
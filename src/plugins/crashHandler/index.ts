@@ -89,6 +89,7 @@ export default definePlugin({
                 if (!shouldAttemptRecover) {
                     try {
                         showNotification({
+                            plugin: "CrashHandler",
                             color: "#eed202",
                             title: "Discord has crashed!",
                             body: "Awn :( Discord has crashed two times rapidly, not attempting to recover.",
@@ -124,6 +125,7 @@ export default definePlugin({
     handlePreventCrash(_this: any) {
         try {
             showNotification({
+                plugin: "CrashHandler",
                 color: "#eed202",
                 title: "Discord has crashed!",
                 body: "Attempting to recover...",
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { currentNotice, noticesQueue, popNotice, showNotice } from "@api/Notices";
+import { showNotice } from "@api/Notices";
 import { definePluginSettings } from "@api/Settings";
 import { Devs } from "@utils/constants";
 import definePlugin, { makeRange, OptionType } from "@utils/types";
@@ -60,18 +60,16 @@ export default definePlugin({
             return;
         }
 
-        const backOnlineMessage = "Welcome back! Click the button to go online. Click the X to stay idle until reload.";
-        if (
-            currentNotice?.[1] === backOnlineMessage ||
-            noticesQueue.some(([, noticeMessage]) => noticeMessage === backOnlineMessage)
-        ) return;
-
-        showNotice(backOnlineMessage, "Exit idle", () => {
-            popNotice();
-            FluxDispatcher.dispatch({
-                type: "IDLE",
-                idle: false
-            });
+        showNotice({
+            id: "CustomIdle-back-online",
+            message: "Welcome back! Click the button to go online. Click the X to stay idle until reload.",
+            buttons: [{
+                text: "Exit idle",
+                onClick: () => FluxDispatcher.dispatch({
+                    type: "IDLE",
+                    idle: false
+                })
+            }]
         });
     },
 
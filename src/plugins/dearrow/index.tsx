@@ -172,6 +172,10 @@ export default definePlugin({
     name: "Dearrow",
     description: "Makes YouTube embed titles and thumbnails less sensationalist, powered by Dearrow",
     authors: [Devs.Ven],
+    network: [
+        { host: "sponsor.ajay.app", directives: ["connect-src"], reason: "Fetching titles and thumbnails" },
+        { host: "dearrow-thumb.ajay.app", directives: ["connect-src", "img-src"], reason: "Loading thumbnails" }
+    ],
     settings,
 
     embedDidMount,
@@ -99,6 +99,7 @@ function initWs(isManual = false) {
         logger.info("Connected to WebSocket");
 
         (settings.store.notifyOnAutoConnect || isManual) && showNotification({
+            plugin: "DevCompanion",
             title: "Dev Companion Connected",
             body: "Connected to WebSocket",
             noPersist: true
@@ -113,6 +114,7 @@ function initWs(isManual = false) {
         logger.error("Dev Companion Error:", e);
 
         showNotification({
+            plugin: "DevCompanion",
             title: "Dev Companion Error",
             body: (e as ErrorEvent).message || "No Error Message",
             color: "var(--status-danger, red)",
@@ -126,6 +128,7 @@ function initWs(isManual = false) {
         logger.info("Dev Companion Disconnected:", e.code, e.reason);
 
         showNotification({
+            plugin: "DevCompanion",
             title: "Dev Companion Disconnected",
             body: e.reason || "No Reason provided",
             color: "var(--status-danger, red)",
@@ -57,6 +57,7 @@ export default definePlugin({
     description: "Hide attachments and embeds for individual messages via hover button",
     authors: [Devs.Ven],
     dependencies: ["MessageUpdaterAPI"],
+    dataStoreKeys: [KEY],
 
     patches: [{
         find: "this.renderAttachments(",
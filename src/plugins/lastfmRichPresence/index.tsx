@@ -180,6 +180,9 @@ export default definePlugin({
     name: "LastFMRichPresence",
     description: "Little plugin for Last.fm rich presence",
     authors: [Devs.dzshn, Devs.RuiNtD, Devs.blahajZip, Devs.archeruwu],
+    network: [
+        { host: "ws.audioscrobbler.com", directives: ["connect-src"], reason: "Fetching your currently playing track" }
+    ],
 
     settings,
 
@@ -19,7 +19,7 @@
 import "./messageLogger.css";
 
 import { findGroupChildrenByChildId, NavContextMenuPatchCallback } from "@api/ContextMenu";
-import { updateMessage } from "@api/MessageUpdater";
+import { updateMessages } from "@api/MessageUpdater";
 import { Settings } from "@api/Settings";
 import { disableStyle, enableStyle } from "@api/Styles";
 import ErrorBoundary from "@components/ErrorBoundary";
@@ -119,11 +119,12 @@ const patchChannelContextMenu: NavContextMenuPatchCallback = (children, { channe
                             id: msg.id,
                             mlDeleted: true
                         });
-                    else
-                        updateMessage(channel.id, msg.id, {
-                            editHistory: []
-                        });
                 });
+
+                updateMessages(messages
+                    .filter(msg => !msg.deleted && msg.editHistory?.length)
+                    .map(msg => ({ channelId: channel.id, messageId: msg.id, fields: { editHistory: [] } }))
+                );
             }}
         />
     );
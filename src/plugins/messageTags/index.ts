@@ -16,10 +16,11 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { ApplicationCommandInputType, ApplicationCommandOptionType, findOption, registerCommand, sendBotMessage, unregisterCommand } from "@api/Commands";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, FocusedCommandOption, parseOptions, registerCommand, sendBotMessage, unregisterCommand } from "@api/Commands";
 import { definePluginSettings } from "@api/Settings";
 import { Devs } from "@utils/constants";
 import definePlugin, { OptionType } from "@utils/types";
+import { CommandContext } from "@vencord/discord-types";
 
 const EMOTE = "<:luna:1035316192220553236>";
 const DATA_KEY = "MessageTags_TAGS";
@@ -46,6 +47,13 @@ function removeTag(name: string) {
     delete settings.store.tagsList[name];
 }
 
+function autocompleteTagName(_: CommandContext, { value }: FocusedCommandOption) {
+    const query = value.toLowerCase();
+    return Object.keys(getTags())
+        .filter(name => name.toLowerCase().includes(query))
+        .map(name => ({ name, value: name }));
+}
+
 function createTagCommand(tag: Tag) {
     registerCommand({
         name: tag.name,
@@ -109,7 +117,10 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            // Tags are registered as commands, so they need valid command names
+                            maxLength: 32,
+                            pattern: /^[-_\p{L}\p{N}]+$/u
                         },
                         {
                             name: "message",
@@ -134,7 +145,8 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            autocomplete: autocompleteTagName
                         }
                     ]
                 },
@@ -147,7 +159,8 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            autocomplete: autocompleteTagName
                         }
                     ]
                 }
@@ -157,8 +170,7 @@ export default definePlugin({
 
                 switch (args[0].name) {
                     case "create": {
-                        const name: string = findOption(args[0].options, "tag-name", "");
-                        const message: string = findOption(args[0].options, "message", "");
+                        const { "tag-name": name, message } = parseOptions<{ "tag-name": string; message: string; }>(args, ctx);
 
                         if (getTag(name))
                             return sendBotMessage(ctx.channel.id, {
@@ -179,7 +191,7 @@ export default definePlugin({
                         break; // end 'create'
                     }
                     case "delete": {
-                        const name: string = findOption(args[0].options, "tag-name", "");
+                        const { "tag-name": name } = parseOptions<{ "tag-name": string; }>(args, ctx);
 
                         if (!getTag(name))
                             return sendBotMessage(ctx.channel.id, {
@@ -211,7 +223,7 @@ export default definePlugin({
                         break; // end 'list'
                     }
                     case "preview": {
-                        const name: string = findOption(args[0].options, "tag-name", "");
+                        const { "tag-name": name } = parseOptions<{ "tag-name": string; }>(args, ctx);
                         const tag = getTag(name);
 
                         if (!tag)
@@ -117,6 +117,7 @@ export function notify(text: string, icon?: string, onClick?: () => void) {
     showNotification({
         title: "Relationship Notifier",
         body: text,
+        plugin: "RelationshipNotifier",
         icon,
         onClick
     });
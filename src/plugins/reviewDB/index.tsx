@@ -65,6 +65,9 @@ export default definePlugin({
     name: "ReviewDB",
     description: "Review other users (Adds a new settings to profiles)",
     authors: [Devs.mantikafasi, Devs.Ven],
+    network: [
+        { host: "manti.vendicated.dev", directives: ["connect-src"], reason: "Fetching and posting reviews" }
+    ],
 
     settings,
     contextMenus: {
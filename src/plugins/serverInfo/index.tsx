@@ -4,24 +4,18 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { findGroupChildrenByChildId, NavContextMenuPatchCallback } from "@api/ContextMenu";
+import { ContextMenuItem } from "@api/ContextMenu";
 import { Devs } from "@utils/constants";
 import definePlugin from "@utils/types";
 import { Guild } from "@vencord/discord-types";
-import { Menu } from "@webpack/common";
 
 import { openGuildInfoModal } from "./GuildInfoModal";
 
-const Patch: NavContextMenuPatchCallback = (children, { guild }: { guild: Guild; }) => {
-    const group = findGroupChildrenByChildId("privacy", children);
-
-    group?.push(
-        <Menu.MenuItem
-            id="vc-server-info"
-            label="Server Info"
-            action={() => openGuildInfoModal(guild)}
-        />
-    );
+const ServerInfoItem: ContextMenuItem = {
+    id: "vc-server-info",
+    label: "Server Info",
+    group: "privacy",
+    action: ({ guild }: { guild: Guild; }) => openGuildInfoModal(guild)
 };
 
 export default definePlugin({
@@ -31,8 +25,8 @@ export default definePlugin({
     dependencies: ["DynamicImageModalAPI"],
     tags: ["guild", "info", "ServerProfile"],
 
-    contextMenus: {
-        "guild-context": Patch,
-        "guild-header-popout": Patch
+    contextMenuItems: {
+        "guild-context": [ServerInfoItem],
+        "guild-header-popout": [ServerInfoItem]
     }
 });
@@ -16,6 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import * as DataStore from "@api/DataStore";
 import { definePluginSettings } from "@api/Settings";
 import { Flex } from "@components/Flex";
 import { DeleteIcon } from "@components/Icons";
@@ -234,6 +235,20 @@ export default definePlugin({
 
     settings,
 
+    settingsVersion: 1,
+    migrations: [{
+        // Rules used to be stored in the DataStore
+        version: 1,
+        async migrate(settings) {
+            const [stringRules, regexRules] = await DataStore.getMany<Rule[]>([STRING_RULES_KEY, REGEX_RULES_KEY]);
+
+            if (stringRules?.length) settings.stringRules = stringRules;
+            if (regexRules?.length) settings.regexRules = regexRules;
+
+            await DataStore.delMany([STRING_RULES_KEY, REGEX_RULES_KEY]);
+        }
+    }],
+
     onBeforeMessageSend(channelId, msg) {
         // Channel used for sharing rules, applying rules here would be messy
         if (channelId === TEXT_REPLACE_RULES_CHANNEL_ID) return;
@@ -16,16 +16,15 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { setMessageData, useMessageData } from "@api/MessageUpdater";
 import { Message } from "@vencord/discord-types";
-import { Parser, useEffect, useState } from "@webpack/common";
+import { Parser } from "@webpack/common";
 
 import { TranslateIcon } from "./TranslateIcon";
 import { cl, TranslationValue } from "./utils";
 
-const TranslationSetters = new Map<string, (v: TranslationValue) => void>();
-
-export function handleTranslate(messageId: string, data: TranslationValue) {
-    TranslationSetters.get(messageId)!(data);
+export function handleTranslate(message: Message, data: TranslationValue | undefined) {
+    setMessageData("Translate", message.channel_id, message.id, data);
 }
 
 function Dismiss({ onDismiss }: { onDismiss: () => void; }) {
@@ -40,25 +39,17 @@ function Dismiss({ onDismiss }: { onDismiss: () => void; }) {
 }
 
 export function TranslationAccessory({ message }: { message: Message; }) {
-    const [translation, setTranslation] = useState<TranslationValue>();
-
-    useEffect(() => {
-        // Ignore MessageLinkEmbeds messages
-        if ((message as any).vencordEmbeddedBy) return;
-
-        TranslationSetters.set(message.id, setTranslation);
-
-        return () => void TranslationSetters.delete(message.id);
-    }, []);
+    const translation = useMessageData<TranslationValue>("Translate", message.id);
 
-    if (!translation) return null;
+    // Ignore MessageLinkEmbeds messages
+    if (!translation || (message as any).vencordEmbeddedBy) return null;
 
     return (
         <span className={cl("accessory")}>
             <TranslateIcon width={16} height={16} className={cl("accessory-icon")} />
             {Parser.parse(translation.text)}
             <br />
-            (translated from {translation.sourceLanguage} - <Dismiss onDismiss={() => setTranslation(undefined)} />)
+            (translated from {translation.sourceLanguage} - <Dismiss onDismiss={() => handleTranslate(message, undefined)} />)
         </span>
     );
 }
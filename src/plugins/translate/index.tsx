@@ -19,6 +19,7 @@
 import "./styles.css";
 
 import { findGroupChildrenByChildId, NavContextMenuPatchCallback } from "@api/ContextMenu";
+import { clearMessageData } from "@api/MessageUpdater";
 import { Devs } from "@utils/constants";
 import definePlugin from "@utils/types";
 import { Message } from "@vencord/discord-types";
@@ -43,7 +44,7 @@ const messageCtxPatch: NavContextMenuPatchCallback = (children, { message }: { m
             icon={TranslateIcon}
             action={async () => {
                 const trans = await translate("received", content);
-                handleTranslate(message.id, trans);
+                handleTranslate(message, trans);
             }}
         />
     ));
@@ -65,6 +66,11 @@ export default definePlugin({
     name: "Translate",
     description: "Translate messages with Google Translate or DeepL",
     authors: [Devs.Ven, Devs.AshtonMemer],
+    network: [
+        { host: "translate-pa.googleapis.com", directives: ["connect-src"], reason: "Translating with Google Translate" },
+        { host: "api.deepl.com", reason: "Translating with DeepL Pro" },
+        { host: "api-free.deepl.com", reason: "Translating with DeepL Free" }
+    ],
     settings,
     contextMenus: {
         "message": messageCtxPatch
@@ -72,6 +78,10 @@ export default definePlugin({
     // not used, just here in case some other plugin wants it or w/e
     translate,
 
+    stop() {
+        clearMessageData("Translate");
+    },
+
     renderMessageAccessory: props => <TranslationAccessory message={props.message} />,
 
     chatBarButton: {
@@ -92,7 +102,7 @@ export default definePlugin({
                 channel: ChannelStore.getChannel(message.channel_id),
                 onClick: async () => {
                     const trans = await translate("received", content);
-                    handleTranslate(message.id, trans);
+                    handleTranslate(message, trans);
                 }
             };
         }
@@ -51,6 +51,9 @@ export default definePlugin({
     name: "USRBG",
     description: "Displays user banners from USRBG, allowing anyone to get a banner without Nitro",
     authors: [Devs.AutumnVN, Devs.katlyn, Devs.pylix, Devs.TheKodeToad],
+    network: [
+        { host: "usrbg.is-hardly.online", directives: ["connect-src", "img-src"], reason: "Fetching and loading banners" }
+    ],
     settings,
     patches: [
         {
@@ -51,6 +51,15 @@ export const enum IpcEvents {
     CSP_IS_DOMAIN_ALLOWED = "VencordCspIsDomainAllowed",
     CSP_REMOVE_OVERRIDE = "VencordCspRemoveOverride",
     CSP_REQUEST_ADD_OVERRIDE = "VencordCspRequestAddOverride",
+    CSP_SET_PLUGIN_RULES = "VencordCspSetPluginRules",
+    CSP_SYNC_PLUGIN_RULES = "VencordCspSyncPluginRules",
 
     NET_FETCH = "VencordNetFetch",
+    NET_FETCH_GET_LOG = "VencordNetFetchGetLog",
+    NET_FETCH_CLEAR_LOG = "VencordNetFetchClearLog",
+
+    SAVE_MODULE_DUMP = "VencordSaveModuleDump",
+    GET_MODULE_DUMPS = "VencordGetModuleDumps",
+    READ_MODULE_DUMP = "VencordReadModuleDump",
+    OPEN_MODULE_DUMPS_FOLDER = "VencordOpenModuleDumpsFolder",
 }
@@ -239,7 +239,7 @@ const handleFileMerge = async (chunks: StoredFileChunk[]) => {
                 throw new Error("VencordNative.net.fetch is missing! Update Vencord.");
             }
 
-            const arrayBuffer = await fetcher(chunk.url);
+            const arrayBuffer = await fetcher(chunk.url, "FileSplitter");
             if (!arrayBuffer) {
                 throw new Error(`Failed to fetch chunk ${chunk.index + 1}`);
             }
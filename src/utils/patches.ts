@@ -16,6 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { traceFunctionWithResults } from "../debug/Tracer";
 import { runtimeHashMessageKey, runtimeHashMessageKeyLegacy } from "./intlHash";
 import { Patch, PatchReplacement, ReplaceFn } from "./types";
 
@@ -112,3 +113,385 @@ export function canonicalizeFind(patch: Patch) {
     descriptors.find = canonicalizeDescriptor(descriptors.find, canonicalizeMatch);
     Object.defineProperties(patch, descriptors);
 }
+
+/** Code only found in the module containing the build number of the client */
+export const BUILD_NUMBER_MODULE_FIND = "Trying to open a changelog for an invalid build number";
+
+/**
+ * Extract the build number from the source of the module found by {@link BUILD_NUMBER_MODULE_FIND}.
+ * @returns The build number, or -1 if it could not be found
+ */
+export function matchBuildNumber(code: string) {
+    const buildNumberMatch = code.match(/.concat\("(\d+?)"\)/);
+    if (buildNumberMatch == null) {
+        return -1;
+    }
+
+    return Number(buildNumberMatch[1]);
+}
+
+/**
+ * Whether a patch or replacement should be applied on the given build.
+ *
+ * @param target The patch or replacement
+ * @param buildNumber The build number, or -1 if it is unknown. Build ranges are ignored in that case
+ */
+export function isInBuildRange(target: Pick<Patch, "fromBuild" | "toBuild">, buildNumber: number) {
+    if (buildNumber === -1) return true;
+
+    return !(
+        (target.fromBuild != null && buildNumber < target.fromBuild) ||
+        (target.toBuild != null && buildNumber > target.toBuild)
+    );
+}
+
+/**
+ * Whether a patch find matches the source of a module factory.
+ *
+ * @param patch The patch
+ * @param code The module factory source
+ */
+export function patchFindMatches(patch: Patch, code: string) {
+    return typeof patch.find === "string"
+        ? code.includes(patch.find)
+        : (patch.find.global && (patch.find.lastIndex = 0), patch.find.test(code));
+}
+
+export interface PatchChange {
+    /** Start of the changed code */
+    start: number;
+    /** End of the changed code before the change */
+    previousEnd: number;
+    /** End of the changed code after the change */
+    end: number;
+}
+
+export interface PatchReplacementResult {
+    replacement: PatchReplacement;
+    status: "applied" | "no-effect" | "errored";
+    /** The code before the replacement */
+    previousCode: string;
+    /** The code produced by the replacement. Not set if the replacement itself threw */
+    newCode?: string;
+    error?: unknown;
+    /** How long the replacement took. Only measured in dev and reporter builds */
+    totalTime: number;
+    /**
+     * The code changed by each match of the replacement, in order. Positions are in the code with the changes before it applied.
+     * Only recorded if requested when applying the patch
+     */
+    changes?: PatchChange[];
+}
+
+export interface PatchResult<T> {
+    /** The patched code. The same as the original code if nothing was applied or the patch group was undone */
+    code: string;
+    /** The evaluated patched code, if any replacement was applied */
+    evaluated?: T;
+    /** Results of the replacements which were tried, in order. Replacements outside of their build range are left out */
+    replacements: PatchReplacementResult[];
+    /** The replacement which caused the patch group to be undone */
+    undoneBy?: PatchReplacementResult;
+}
+
+/**
+ * @returns The start of the changed part, and its end in the previous and in the new code
+ */
+function getChangedRange(previousCode: string, newCode: string): PatchChange {
+    const maxLength = Math.min(previousCode.length, newCode.length);
+
+    let start = 0;
+    while (start < maxLength && previousCode[start] === newCode[start]) start++;
+
+    let suffixLength = 0;
+    while (
+        suffixLength < maxLength - start &&
+        previousCode[previousCode.length - 1 - suffixLength] === newCode[newCode.length - 1 - suffixLength]
+    ) suffixLength++;
+
+    return { start, previousEnd: previousCode.length - suffixLength, end: newCode.length - suffixLength };
+}
+
+/**
+ * Get the arguments String.prototype.replace passes to replace functions.
+ * The named groups are only passed if the match has any
+ */
+function getReplaceArgs(args: any[]) {
+    const hasGroups = typeof args.at(-1) === "object";
+
+    return {
+        matched: args[0] as string,
+        captures: args.slice(1, hasGroups ? -3 : -2) as Array<string | undefined>,
+        position: args.at(hasGroups ? -3 : -2) as number,
+        string: args.at(hasGroups ? -2 : -1) as string,
+        groups: hasGroups ? args.at(-1) as Record<string, string | undefined> : undefined
+    };
+}
+
+/**
+ * Expand the `$` patterns of a replacement string for a single match, like String.prototype.replace does
+ */
+function expandReplacement(replace: string, args: any[]) {
+    const { matched, captures, position, string, groups } = getReplaceArgs(args);
+
+    return replace.replace(/\$(?:([$&`'])|(\d\d?)|<([^>]*)>)/g, (token, symbol?: string, digits?: string, name?: string) => {
+        switch (symbol) {
+            case "$": return "$";
+            case "&": return matched;
+            case "`": return string.slice(0, position);
+            case "'": return string.slice(position + matched.length);
+        }
+
+        if (name != null) return groups ? groups[name] ?? "" : token;
+
+        const index = Number(digits);
+        if (index >= 1 && index <= captures.length) return captures[index - 1] ?? "";
+
+        // $nn refers to group n followed by a digit if there is no group nn
+        const singleIndex = Number(digits![0]);
+        if (digits!.length === 2 && singleIndex >= 1 && singleIndex <= captures.length) return (captures[singleIndex - 1] ?? "") + digits![1];
+
+        return token;
+    });
+}
+
+/**
+ * Wrap a replace function so the code changed by each match is recorded.
+ */
+function recordChanges(changes: PatchChange[], replace: (...args: any[]) => string) {
+    let delta = 0;
+
+    return (...args: any[]) => {
+        const { matched, position } = getReplaceArgs(args);
+        const replaced = replace(...args);
+
+        if (replaced !== matched) {
+            const { start, previousEnd, end } = getChangedRange(matched, replaced);
+            const offset = position + delta;
+
+            changes.push({ start: offset + start, previousEnd: offset + previousEnd, end: offset + end });
+            delta += replaced.length - matched.length;
+        }
+
+        return replaced;
+    };
+}
+
+/**
+ * Apply the replacements of a canonicalized patch to the code of a module factory.
+ * Every replaced code is evaluated, so replacements which produce invalid code count as errored.
+ *
+ * @param code The module factory source
+ * @param patch The patch, with its replacements already turned into an array
+ * @param buildNumber The build number, or -1 if it is unknown
+ * @param evaluate Evaluates the patched code
+ * @param shouldRecordChanges Whether to record the code changed by each match, which {@link trackPatchEdits} needs
+ */
+export function applyPatch<T>(code: string, patch: Patch, buildNumber: number, evaluate: (code: string) => T, shouldRecordChanges = false): PatchResult<T> {
+    let currentCode = code;
+    let evaluated: T | undefined;
+    const replacements = [] as PatchReplacementResult[];
+
+    const executePatch = traceFunctionWithResults(`patch by ${patch.plugin}`, (match: string | RegExp, replace: string | ReplaceFn, changes?: PatchChange[]) => {
+        if (typeof match !== "string" && match.global) {
+            match.lastIndex = 0;
+        }
+
+        if (typeof replace === "function") {
+            return currentCode.replace(match, changes ? recordChanges(changes, replace) : replace);
+        }
+
+        return currentCode.replace(match, replace);
+    });
+
+    for (const replacement of patch.replacement as PatchReplacement[]) {
+        if (!isInBuildRange(replacement, buildNumber)) continue;
+
+        const result: PatchReplacementResult = { replacement, status: "applied", previousCode: currentCode, totalTime: 0 };
+        replacements.push(result);
+
+        try {
+            const { match, replace } = replacement;
+            const changes = shouldRecordChanges ? [] as PatchChange[] : undefined;
+
+            const [newCode, totalTime] = executePatch(match, replace, typeof replace === "function" ? changes : undefined);
+            result.newCode = newCode;
+            result.totalTime = totalTime;
+
+            // Replacement strings are expanded separately, so recording doesn't affect the patched code or its timing
+            if (changes && typeof replace === "string") {
+                if (typeof match !== "string" && match.global) match.lastIndex = 0;
+
+                const recordedCode = currentCode.replace(match, recordChanges(changes, (...args) => expandReplacement(replace, args)));
+                if (recordedCode !== newCode) changes.splice(0, changes.length, getChangedRange(currentCode, newCode));
+            }
+
+            result.changes = changes;
+
+            if (newCode !== currentCode) {
+                evaluated = evaluate(newCode);
+                currentCode = newCode;
+                continue;
+            }
+
+            result.status = "no-effect";
+        } catch (error) {
+            result.status = "errored";
+            result.error = error;
+        }
+
+        if (patch.group) {
+            return { code, replacements, undoneBy: result };
+        }
+    }
+
+    return { code: currentCode, evaluated, replacements };
+}
+
+export interface PatchEdit {
+    plugin: string;
+    /** Start of the changed code, in the current code of the module */
+    start: number;
+    /** End of the changed code, in the current code of the module */
+    end: number;
+    /** Start of the code the edit replaced, in the unpatched code of the module */
+    originalStart: number;
+    /** End of the code the edit replaced, in the unpatched code of the module */
+    originalEnd: number;
+}
+
+export interface PatchConflict {
+    plugin: string;
+    match: string;
+    /** Plugins whose earlier replacements interfere with this one */
+    conflictsWith: string[];
+    /** Whether the replacement changed code already edited by other plugins, or had no effect even though it matches the unpatched code */
+    reason: "overlap" | "no-effect";
+}
+
+/**
+ * Map a range of the current code of a module to the range of the unpatched code it came from.
+ * Positions inside of edits are widened to the whole code the edit replaced
+ */
+function toOriginalRange(edits: PatchEdit[], start: number, end: number) {
+    // Overlapping edits changed the same code, so they are merged to not count their size change twice
+    const clusters = [] as Omit<PatchEdit, "plugin">[];
+    for (const edit of edits.toSorted((a, b) => a.start - b.start)) {
+        const last = clusters.at(-1);
+        if (last && edit.start < last.end) {
+            last.end = Math.max(last.end, edit.end);
+            last.originalStart = Math.min(last.originalStart, edit.originalStart);
+            last.originalEnd = Math.max(last.originalEnd, edit.originalEnd);
+        } else {
+            clusters.push({ start: edit.start, end: edit.end, originalStart: edit.originalStart, originalEnd: edit.originalEnd });
+        }
+    }
+
+    const toOriginal = (position: number, isEnd: boolean) => {
+        let delta = 0;
+
+        for (const cluster of clusters) {
+            if (position <= cluster.start) break;
+            if (position >= cluster.end) {
+                delta += (cluster.end - cluster.start) - (cluster.originalEnd - cluster.originalStart);
+                continue;
+            }
+
+            return isEnd ? cluster.originalEnd : cluster.originalStart;
+        }
+
+        return position - delta;
+    };
+
+    return { originalStart: toOriginal(start, false), originalEnd: Math.max(toOriginal(end, true), toOriginal(start, false)) };
+}
+
+/**
+ * Find the ranges of the code a replacement matches
+ */
+function findMatchRanges(code: string, match: string | RegExp) {
+    if (typeof match === "string") {
+        const index = code.indexOf(match);
+        return index === -1 ? [] : [{ start: index, end: index + match.length }];
+    }
+
+    const ranges = [] as Array<{ start: number; end: number; }>;
+
+    match.lastIndex = 0;
+    let result: RegExpExecArray | null;
+    while ((result = match.exec(code)) != null) {
+        ranges.push({ start: result.index, end: result.index + result[0].length });
+        if (!match.global) break;
+
+        // Avoid looping forever on empty matches
+        if (result[0] === "") match.lastIndex++;
+    }
+    match.lastIndex = 0;
+
+    return ranges;
+}
+
+/**
+ * Record which code a patch applied with {@link applyPatch} changed, and find replacements which interfere with the ones of other plugins.
+ * The patch should be applied with its changes recorded, otherwise each replacement counts as changing everything between its first and last match.
+ *
+ * @param edits The edits made to the module so far. Updated in place, unless the patch group was undone
+ * @param originalCode The unpatched module code
+ * @param patch The patch
+ * @param result The result of applying the patch
+ * @returns The conflicts with replacements of other plugins
+ */
+export function trackPatchEdits(edits: PatchEdit[], originalCode: string, patch: Patch, result: PatchResult<unknown>) {
+    const conflicts = [] as PatchConflict[];
+    const newEdits = edits.map(edit => ({ ...edit }));
+
+    const getOtherPlugins = (filter: (edit: PatchEdit) => boolean) =>
+        [...new Set(newEdits.filter(edit => edit.plugin !== patch.plugin && filter(edit)).map(edit => edit.plugin))];
+
+    for (const { replacement, status, previousCode, newCode, changes } of result.replacements) {
+        if (status === "applied") {
+            const conflictsWith = new Set<string>();
+
+            for (const { start, previousEnd, end } of changes ?? [getChangedRange(previousCode, newCode!)]) {
+                const delta = end - previousEnd;
+                const { originalStart, originalEnd } = toOriginalRange(newEdits, start, previousEnd);
+
+                getOtherPlugins(edit => edit.start < previousEnd && edit.end > start).forEach(p => conflictsWith.add(p));
+
+                for (const edit of newEdits) {
+                    if (edit.start >= previousEnd) {
+                        edit.start += delta;
+                        edit.end += delta;
+                    } else if (edit.end > start) {
+                        edit.start = Math.min(edit.start, start);
+                        edit.end = Math.max(edit.end + delta, end);
+                        edit.originalStart = Math.min(edit.originalStart, originalStart);
+                        edit.originalEnd = Math.max(edit.originalEnd, originalEnd);
+                    }
+                }
+
+                newEdits.push({ plugin: patch.plugin, start, end, originalStart, originalEnd });
+            }
+
+            if (conflictsWith.size) {
+                conflicts.push({ plugin: patch.plugin, match: String(replacement.match), conflictsWith: [...conflictsWith], reason: "overlap" });
+            }
+        } else if (status === "no-effect" && !(patch.noWarn || replacement.noWarn)) {
+            // Only plugins which edited the code the replacement matches in the unpatched code can have broken it
+            const matchRanges = findMatchRanges(originalCode, replacement.match);
+            const conflictsWith = getOtherPlugins(edit =>
+                matchRanges.some(({ start, end }) => edit.originalStart < end && edit.originalEnd > start)
+            );
+
+            if (conflictsWith.length) {
+                conflicts.push({ plugin: patch.plugin, match: String(replacement.match), conflictsWith, reason: "no-effect" });
+            }
+        }
+    }
+
+    if (!result.undoneBy) {
+        edits.splice(0, edits.length, ...newEdits);
+    }
+
+    return conflicts;
+}
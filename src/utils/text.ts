@@ -124,6 +124,22 @@ export function humanFriendlyJoin(elements: any[], mapper: (e: any) => string =
     return s;
 }
 
+/**
+ * Forms a size into a human readable string like "1.5 MB"
+ * @param bytes The size in bytes
+ */
+export function formatBytes(bytes: number) {
+    const units = ["B", "KB", "MB", "GB"];
+
+    let unitIndex = 0;
+    while (bytes >= 1024 && unitIndex < units.length - 1) {
+        bytes /= 1024;
+        unitIndex++;
+    }
+
+    return `${unitIndex === 0 ? bytes : bytes.toFixed(1)} ${units[unitIndex]}`;
+}
+
 /**
  * Wrap the text in ``` with an optional language
  */
@@ -18,13 +18,14 @@
 
 import { ProfileBadge } from "@api/Badges";
 import { ChatBarButtonData } from "@api/ChatButtons";
-import { NavContextMenuPatchCallback } from "@api/ContextMenu";
+import { VencordCommand } from "@api/Commands";
+import { ContextMenuItem, NavContextMenuPatchCallback } from "@api/ContextMenu";
 import { MemberListDecoratorFactory } from "@api/MemberListDecorators";
 import { MessageAccessoryFactory } from "@api/MessageAccessories";
 import { MessageDecorationFactory } from "@api/MessageDecorations";
 import { MessageClickListener, MessageEditListener, MessageSendListener } from "@api/MessageEvents";
 import { MessagePopoverButtonData } from "@api/MessagePopover";
-import { Command, FluxEvents } from "@vencord/discord-types";
+import { FluxEvents } from "@vencord/discord-types";
 import { ReactNode } from "react";
 import { LiteralUnion } from "type-fest";
 
@@ -84,6 +85,30 @@ export interface Patch {
     toBuild?: number;
 }
 
+export interface PluginSettingsMigration {
+    /** The settings version this migration upgrades to */
+    version: number;
+    /**
+     * Migrates the stored settings of the plugin from the previous version, in place.
+     * Can be async, in which case the plugin is only started once it resolves
+     */
+    migrate(settings: Record<string, any>): void | Promise<void>;
+}
+
+export type CspDirective = "connect-src" | "img-src" | "style-src" | "font-src";
+
+export interface PluginNetworkPermission {
+    /** The host, like in CSP rules. `*.example.com` matches all subdomains of example.com */
+    host: string;
+    /**
+     * CSP directives the host is allowed for while the plugin is enabled. `connect-src` also allows {@link VencordNative.net.fetch}.
+     * Omit for hosts only contacted from the plugin's native helpers, which the CSP doesn't apply to
+     */
+    directives?: CspDirective[];
+    /** What the plugin contacts this host for */
+    reason?: string;
+}
+
 export interface PluginAuthor {
     name: string;
     id: BigInt;
@@ -107,7 +132,7 @@ export interface PluginDef {
     /**
      * List of commands that your plugin wants to register
      */
-    commands?: Command[];
+    commands?: VencordCommand[];
     /**
      * A list of other plugins that your plugin depends on.
      * These will automatically be enabled and loaded before your plugin
@@ -145,6 +170,26 @@ export interface PluginDef {
      * Optionally provide settings that the user can configure in the Plugins tab of settings.
      */
     settings?: DefinedSettings;
+    /**
+     * The version of the settings schema of this plugin.
+     * Bump this and add a migration whenever the shape of a stored setting changes
+     * @default The highest version in {@link migrations}
+     */
+    settingsVersion?: number;
+    /**
+     * Migrations which upgrade stored settings to {@link settingsVersion}. Each one only ever runs once, before the plugin is started
+     */
+    migrations?: PluginSettingsMigration[];
+    /**
+     * DataStore keys which hold user data of this plugin, so they are included in settings backups and cloud sync.
+     * Use a RegExp for keys which are generated at runtime, like ones including the current user id
+     */
+    dataStoreKeys?: Array<string | RegExp>;
+    /**
+     * Hosts this plugin contacts. Their CSP directives are allowed while the plugin is enabled,
+     * and the list is shown in the plugin's settings so users can review it
+     */
+    network?: PluginNetworkPermission[];
     /**
      * Allows you to specify a custom Component that will be rendered in your
      * plugin's settings page
@@ -160,6 +205,11 @@ export interface PluginDef {
      * Allows you to manipulate context menus
      */
     contextMenus?: Record<string, NavContextMenuPatchCallback>;
+    /**
+     * Items to add to context menus, by navId. Prefer these over {@link PluginDef.contextMenus} for simple items,
+     * as they are placed by the API and don't break when other plugins change the same context menu
+     */
+    contextMenuItems?: Record<string, ContextMenuItem[]>;
     /**
      * Allows you to add custom actions to the Vencord Toolbox.
      *
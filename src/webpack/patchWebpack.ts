@@ -8,15 +8,16 @@ import { Settings } from "@api/Settings";
 import { makeLazy } from "@utils/lazy";
 import { Logger } from "@utils/Logger";
 import { interpolateIfDefined } from "@utils/misc";
-import { canonicalizeReplacement } from "@utils/patches";
+import { applyPatch, BUILD_NUMBER_MODULE_FIND, canonicalizeReplacement, isInBuildRange, matchBuildNumber, PatchConflict, PatchEdit, patchFindMatches, trackPatchEdits } from "@utils/patches";
 import { Patch, PatchReplacement } from "@utils/types";
 import { WebpackRequire } from "@vencord/discord-types/webpack";
 
-import { traceFunctionWithResults } from "../debug/Tracer";
 import { AnyModuleFactory, AnyWebpackRequire, MaybePatchedModuleFactory, PatchedModuleFactory } from "./types";
 import { _blacklistBadModules, _initWebpack, factoryListeners, findModuleFactory, moduleListeners, waitForSubscriptions, wreq } from "./webpack";
 
 export const patches = [] as Patch[];
+/** Every patch that is currently registered, including the ones already applied. Used to re-patch module factories */
+export const registeredPatches = [] as Patch[];
 
 export const SYM_IS_PROXIED_FACTORY = Symbol("WebpackPatcher.isProxiedFactory");
 export const SYM_ORIGINAL_FACTORY = Symbol("WebpackPatcher.originalFactory");
@@ -25,20 +26,15 @@ export const SYM_PATCHED_BY = Symbol("WebpackPatcher.patchedBy");
 export const allWebpackInstances = new Set<AnyWebpackRequire>();
 
 export const patchTimings = [] as Array<[plugin: string, moduleId: PropertyKey, match: PatchReplacement["match"], totalTime: number]>;
+/** Replacements which had no effect or errored. Only recorded in reporter builds */
+export const patchFailures = [] as Array<[plugin: string, moduleId: PropertyKey, match: PatchReplacement["match"], status: "no-effect" | "errored", error?: unknown]>;
+/** Replacements which interfere with replacements of other plugins, by the id of the module they were applied to. Only recorded in dev and reporter builds */
+export const patchConflicts = new Map<string, PatchConflict[]>();
 
 export const getBuildNumber = makeLazy(() => {
     try {
-        function matchBuildNumber(factoryStr: string) {
-            const buildNumberMatch = factoryStr.match(/.concat\("(\d+?)"\)/);
-            if (buildNumberMatch == null) {
-                return -1;
-            }
-
-            return Number(buildNumberMatch[1]);
-        }
-
         const hardcodedFactoryStr = String(wreq.m[128014]);
-        if (hardcodedFactoryStr.includes("Trying to open a changelog for an invalid build number")) {
+        if (hardcodedFactoryStr.includes(BUILD_NUMBER_MODULE_FIND)) {
             const hardcodedBuildNumber = matchBuildNumber(hardcodedFactoryStr);
 
             if (hardcodedBuildNumber !== -1) {
@@ -46,7 +42,7 @@ export const getBuildNumber = makeLazy(() => {
             }
         }
 
-        const moduleFactory = findModuleFactory("Trying to open a changelog for an invalid build number");
+        const moduleFactory = findModuleFactory(BUILD_NUMBER_MODULE_FIND);
         return matchBuildNumber(String(moduleFactory));
     } catch {
         return -1;
@@ -61,6 +57,23 @@ export function getFactoryPatchedBy(moduleId: PropertyKey, webpackRequire = wreq
     return webpackRequire.m[moduleId]?.[SYM_PATCHED_BY];
 }
 
+/**
+ * Get the patch conflicts a plugin is involved in, either because its replacements interfere with the ones of other plugins or the other way around.
+ */
+export function getPluginPatchConflicts(pluginName: string) {
+    const conflicts = [] as Array<PatchConflict & { moduleId: string; }>;
+
+    for (const [moduleId, moduleConflicts] of patchConflicts) {
+        for (const conflict of moduleConflicts) {
+            if (conflict.plugin === pluginName || conflict.conflictsWith.includes(pluginName)) {
+                conflicts.push({ ...conflict, moduleId });
+            }
+        }
+    }
+
+    return conflicts;
+}
+
 const logger = new Logger("WebpackPatcher", "#8caaee");
 
 /** Whether we tried to fallback to the WebpackRequire of the factory, or disabled patches */
@@ -322,9 +335,9 @@ function updateExistingFactory(moduleFactories: AnyWebpackRequire["m"], moduleId
         }
 
         // Persist patched source and patched by in the new original factory
+        newFactory[SYM_PATCHED_BY] = existingFactory[SYM_PATCHED_BY];
         if (IS_DEV) {
             newFactory[SYM_PATCHED_SOURCE] = existingFactory[SYM_PATCHED_SOURCE];
-            newFactory[SYM_PATCHED_BY] = existingFactory[SYM_PATCHED_BY];
         }
 
         return true;
@@ -493,148 +506,198 @@ function runFactoryWithWrap(patchedFactory: PatchedModuleFactory, thisArg: unkno
  *
  * @param moduleId The id of the module
  * @param originalFactory The original module factory
+ * @param patchesToApply The patches to try applying. Patches which matched and do not have `all` set are removed from it
  * @returns The patched module factory
  */
-function patchFactory(moduleId: PropertyKey, originalFactory: AnyModuleFactory): PatchedModuleFactory {
+function patchFactory(moduleId: PropertyKey, originalFactory: AnyModuleFactory, patchesToApply = patches): PatchedModuleFactory {
     // 0, prefix to turn it into an expression: 0,function(){} would be invalid syntax without the 0,
     let code: string = "0," + String(originalFactory);
+    const originalCode = code;
     let patchedSource = code;
     let patchedFactory = originalFactory;
 
     const patchedBy = new Set<string>();
+    const edits = [] as PatchEdit[];
+    const conflicts = [] as PatchConflict[];
 
-    for (let i = 0; i < patches.length; i++) {
-        const patch = patches[i];
+    for (let i = 0; i < patchesToApply.length; i++) {
+        const patch = patchesToApply[i];
 
         const buildNumber = getBuildNumber();
-        const shouldCheckBuildNumber = buildNumber !== -1;
-
-        if (
-            shouldCheckBuildNumber &&
-            (patch.fromBuild != null && buildNumber < patch.fromBuild) ||
-            (patch.toBuild != null && buildNumber > patch.toBuild)
-        ) {
-            patches.splice(i--, 1);
+        if (!isInBuildRange(patch, buildNumber)) {
+            patchesToApply.splice(i--, 1);
             continue;
         }
 
-        const moduleMatches = typeof patch.find === "string"
-            ? code.includes(patch.find)
-            : (patch.find.global && (patch.find.lastIndex = 0), patch.find.test(code));
-
-        if (!moduleMatches) {
+        if (!patchFindMatches(patch, code)) {
             continue;
         }
 
-        const executePatch = traceFunctionWithResults(`patch by ${patch.plugin}`, (match: string | RegExp, replace: string) => {
-            if (typeof match !== "string" && match.global) {
-                match.lastIndex = 0;
+        // TODO: remove once Vesktop has been updated to use addPatch
+        if (patch.plugin === "Vesktop") {
+            for (const replacement of patch.replacement as PatchReplacement[]) {
+                canonicalizeReplacement(replacement, "VCDP");
             }
+        }
 
-            return code.replace(match, replace);
-        });
-
-        const previousCode = code;
-        const previousFactory = originalFactory;
-        let markedAsPatched = false;
-
-        // We change all patch.replacement to array in PluginManager
-        for (const replacement of patch.replacement as PatchReplacement[]) {
-            if (
-                shouldCheckBuildNumber &&
-                (replacement.fromBuild != null && buildNumber < replacement.fromBuild) ||
-                (replacement.toBuild != null && buildNumber > replacement.toBuild)
-            ) {
-                continue;
+        const result = applyPatch(code, patch, buildNumber, newCode => {
+            const pluginsList = [...patchedBy];
+            if (!patchedBy.has(patch.plugin)) {
+                pluginsList.push(patch.plugin);
             }
 
-            // TODO: remove once Vesktop has been updated to use addPatch
-            if (patch.plugin === "Vesktop") {
-                canonicalizeReplacement(replacement, "VCDP");
+            patchedSource = `// Webpack Module ${String(moduleId)} - Patched by ${pluginsList.join(", ")}\n${newCode}\n//# sourceURL=file:///WebpackModule${String(moduleId)}`;
+            return (0, eval)(patchedSource) as AnyModuleFactory;
+        }, true);
+
+        for (const { replacement, status, previousCode, newCode, error, totalTime } of result.replacements) {
+            if (IS_REPORTER && newCode != null) {
+                patchTimings.push([patch.plugin, moduleId, replacement.match, totalTime]);
             }
 
-            const lastCode = code;
-            const lastFactory = originalFactory;
+            if (status === "no-effect" && !(patch.noWarn || replacement.noWarn)) {
+                if (IS_REPORTER) patchFailures.push([patch.plugin, moduleId, replacement.match, status]);
 
-            try {
-                const [newCode, totalTime] = executePatch(replacement.match, replacement.replace as string);
+                logger.warn(`Patch by ${patch.plugin} had no effect (Module id is ${String(moduleId)}): ${replacement.match}`);
+                if (IS_DEV) {
+                    logger.debug("Function Source:\n", previousCode);
+                }
+            } else if (status === "errored") {
+                if (IS_REPORTER) patchFailures.push([patch.plugin, moduleId, replacement.match, status, error]);
 
-                if (IS_REPORTER) {
-                    patchTimings.push([patch.plugin, moduleId, replacement.match, totalTime]);
+                logger.error(`Patch by ${patch.plugin} errored (Module id is ${String(moduleId)}): ${replacement.match}\n`, error);
+
+                if (IS_DEV) {
+                    diffErroredPatch(newCode ?? previousCode, previousCode, previousCode.match(replacement.match)!);
                 }
+            }
+        }
 
-                if (newCode === code) {
-                    if (!(patch.noWarn || replacement.noWarn)) {
-                        logger.warn(`Patch by ${patch.plugin} had no effect (Module id is ${String(moduleId)}): ${replacement.match}`);
-                        if (IS_DEV) {
-                            logger.debug("Function Source:\n", code);
-                        }
-                    }
+        if (result.undoneBy) {
+            const reason = result.undoneBy.status === "errored" ? "errored" : "had no effect";
+            logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${result.undoneBy.replacement.match} ${reason}`);
+        }
 
-                    if (patch.group) {
-                        logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} had no effect`);
-                        code = previousCode;
-                        patchedFactory = previousFactory;
+        // Edits are tracked in all builds so conflicts can be shown in the plugins tab
+        for (const conflict of trackPatchEdits(edits, originalCode, patch, result)) {
+            logger.warn(`Patch by ${patch.plugin} conflicts with ${conflict.conflictsWith.join(", ")} (Module id is ${String(moduleId)}): ${conflict.match}`);
+            conflicts.push(conflict);
+        }
 
-                        if (markedAsPatched) {
-                            patchedBy.delete(patch.plugin);
-                        }
+        if (result.code !== code) {
+            code = result.code;
+            patchedFactory = result.evaluated!;
+            patchedBy.add(patch.plugin);
+        }
 
-                        break;
-                    }
+        if (!patch.all) {
+            patchesToApply.splice(i--, 1);
+        }
+    }
 
-                    continue;
-                }
+    if (conflicts.length) {
+        patchConflicts.set(String(moduleId), conflicts);
+    } else {
+        patchConflicts.delete(String(moduleId));
+    }
 
-                const pluginsList = [...patchedBy];
-                if (!patchedBy.has(patch.plugin)) {
-                    pluginsList.push(patch.plugin);
-                }
+    patchedFactory[SYM_ORIGINAL_FACTORY] = originalFactory;
 
-                code = newCode;
-                patchedSource = `// Webpack Module ${String(moduleId)} - Patched by ${pluginsList.join(", ")}\n${newCode}\n//# sourceURL=file:///WebpackModule${String(moduleId)}`;
-                patchedFactory = (0, eval)(patchedSource);
+    if (patchedFactory !== originalFactory) {
+        originalFactory[SYM_PATCHED_BY] = patchedBy;
 
-                if (!patchedBy.has(patch.plugin)) {
-                    patchedBy.add(patch.plugin);
-                    markedAsPatched = true;
-                }
-            } catch (err) {
-                logger.error(`Patch by ${patch.plugin} errored (Module id is ${String(moduleId)}): ${replacement.match}\n`, err);
+        if (IS_DEV) {
+            originalFactory[SYM_PATCHED_SOURCE] = patchedSource;
+        }
+    } else {
+        delete originalFactory[SYM_PATCHED_BY];
+        delete originalFactory[SYM_PATCHED_SOURCE];
+    }
 
-                if (IS_DEV) {
-                    diffErroredPatch(code, lastCode, lastCode.match(replacement.match)!);
-                }
+    return patchedFactory as PatchedModuleFactory;
+}
 
-                if (markedAsPatched) {
-                    patchedBy.delete(patch.plugin);
-                }
+/**
+ * Hot register or unregister the patches of a plugin, and re-patch the module factories affected by them.
+ *
+ * Factories which were not patched yet are left alone, as they will be patched with the new patches list when required.
+ * Factories of modules which were not required yet are re-patched from their original factory.
+ * Modules which were already required can't be reloaded, as the modules requiring them keep a reference to their current exports,
+ * so nothing is changed if any affected module was already required.
+ *
+ * @param pluginName The name of the plugin
+ * @param pluginPatches The canonicalized patches of the plugin
+ * @param enable Whether the patches are being registered or unregistered
+ * @returns The ids of the affected modules which were already required. If not empty, a restart is required to apply the change
+ */
+export function hotReloadPatches(pluginName: string, pluginPatches: Patch[], enable: boolean): PropertyKey[] {
+    if (wreq == null) return [];
 
-                if (patch.group) {
-                    logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} errored`);
-                    code = previousCode;
-                    patchedFactory = previousFactory;
-                    break;
-                }
+    const affected = [] as Array<[moduleId: PropertyKey, originalFactory: AnyModuleFactory]>;
+    const required = [] as PropertyKey[];
 
-                code = lastCode;
-                patchedFactory = lastFactory;
-            }
-        }
+    for (const moduleId in wreq.m) {
+        const factory: MaybePatchedModuleFactory = (wreq as AnyWebpackRequire).m[moduleId];
 
-        if (!patch.all) {
-            patches.splice(i--, 1);
+        // Lazily patched factories which weren't patched yet will use the updated patches list once they are required
+        if (factory[SYM_IS_PROXIED_FACTORY] && factory[SYM_ORIGINAL_FACTORY] == null) continue;
+
+        const originalFactory: AnyModuleFactory = factory[SYM_ORIGINAL_FACTORY] ?? factory;
+
+        const isAffected = enable
+            ? pluginPatches.some(patch => patchFindMatches(patch, String(originalFactory)))
+            : originalFactory[SYM_PATCHED_BY]?.has(pluginName);
+
+        if (!isAffected) continue;
+
+        // Discord keeps running the code of required modules, even if their factory is replaced
+        if (wreq.c[moduleId] != null) {
+            required.push(moduleId);
+            continue;
         }
+
+        affected.push([moduleId, originalFactory]);
     }
 
-    patchedFactory[SYM_ORIGINAL_FACTORY] = originalFactory;
+    if (required.length) {
+        logger.warn(`Can't hot ${enable ? "enable" : "disable"} patches of ${pluginName}, as these modules were already required: ${required.map(String).join(", ")}`);
+        return required;
+    }
 
-    if (IS_DEV && patchedFactory !== originalFactory) {
-        originalFactory[SYM_PATCHED_SOURCE] = patchedSource;
-        originalFactory[SYM_PATCHED_BY] = patchedBy;
+    const otherPatches = (list: Patch[]) => list.filter(patch => patch.plugin !== pluginName);
+    const newRegisteredPatches = otherPatches(registeredPatches);
+    const newPatches = otherPatches(patches);
+
+    if (enable) {
+        newRegisteredPatches.push(...pluginPatches);
+
+        // Patches without `all` which already apply to one of the affected modules are consumed by it
+        newPatches.push(...pluginPatches.filter(patch =>
+            patch.all || !affected.some(([, originalFactory]) => patchFindMatches(patch, String(originalFactory)))
+        ));
     }
 
-    return patchedFactory as PatchedModuleFactory;
+    registeredPatches.splice(0, registeredPatches.length, ...newRegisteredPatches);
+    patches.splice(0, patches.length, ...newPatches);
+
+    for (const [moduleId, originalFactory] of affected) {
+        // Only re-apply patches of plugins which were already patching this module, as patches without `all` may have been consumed by other modules
+        const patchedBy = new Set(originalFactory[SYM_PATCHED_BY]);
+        if (enable) {
+            patchedBy.add(pluginName);
+        } else {
+            patchedBy.delete(pluginName);
+        }
+
+        const code = String(originalFactory);
+        const patchesToApply = newRegisteredPatches.filter(patch => patchedBy.has(patch.plugin) && patchFindMatches(patch, code));
+        const patchedFactory = patchFactory(moduleId, originalFactory, patchesToApply);
+
+        defineInWebpackInstances(moduleId, new Proxy(patchedFactory, moduleFactoryHandler));
+    }
+
+    logger.info(`Hot ${enable ? "enabled" : "disabled"} patches of ${pluginName}, affecting ${affected.length} modules`);
+    return [];
 }
 
 function diffErroredPatch(code: string, lastCode: string, match: RegExpMatchArray) {